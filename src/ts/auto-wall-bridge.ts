@@ -0,0 +1,205 @@
+import { TileCompositor } from './tile-compositor';
+import { AutoWallImageSource, WallData } from './types';
+import { chunkWallsToScene } from './utils/chunks';
+import { isAbortError, sleep, throwIfAborted } from './utils/concurrency';
+import { Rect } from './utils/geometry';
+import { ModuleLogger } from './utils/logger';
+import { getSceneBackgroundSrc, getSceneGeometry, getSceneRect } from './utils/scene';
+import { isUniversalVtt, universalVttToWalls } from './utils/uvtt';
+
+/**
+ * How often a pending detection is checked
+ */
+const POLL_INTERVAL_MS = 1000;
+
+/**
+ * Job statuses meaning the walls are not ready yet
+ */
+const PENDING_STATUSES = ["pending", "queued", "processing", "running"];
+
+/**
+ * An image prepared for wall detection
+ */
+export interface AutoWallImage {
+  blob: Blob;
+  fileName: string;
+  source: AutoWallImageSource;
+  /** Size of the image in pixels */
+  width: number;
+  height: number;
+  /** Scene-space area the image covers */
+  region: Rect;
+  /** Image pixels per scene pixel */
+  scale: number;
+}
+
+/**
+ * Cancellation and progress reporting for a detection
+ */
+export interface AutoWallRequestOptions {
+  signal?: AbortSignal;
+  onProgress?: (stage: string, done: number, total: number) => void;
+}
+
+/**
+ * What an Auto-Wall response asked for: walls, or to check again later
+ */
+type AutoWallResult = { walls: WallData[] } | { pending: string };
+
+/**
+ * Sends scene images to a local Auto-Wall instance over HTTP and reads back the detected walls.
+ *
+ * The image is POSTed as multipart form data with an `image` file and a `metadata` JSON field. The
+ * endpoint either answers with the walls straight away (a wall array, `{ walls: [...] }` or a Universal
+ * VTT file, in image pixels), or with 202 Accepted and a `Location` header or `statusUrl` field to poll
+ * until the walls are ready.
+ */
+export class AutoWallBridge {
+  /**
+   * Render or download the image to send
+   * @returns The image, or null if the scene has nothing to send
+   * @throws An AbortError if cancelled
+   */
+  static async prepareImage(scene: Scene, source: AutoWallImageSource, options: AutoWallRequestOptions = {}): Promise<AutoWallImage | null> {
+    const sceneName = scene.name?.replace(/\s+/g, "_") || "scene";
+
+    if (source === "tiles") {
+      const composite = await TileCompositor.compose(scene, options);
+      if (!composite) return null;
+
+      const blob = await TileCompositor.toBlob(composite.canvas, 'image/png');
+      if (!blob) throw new Error("Failed to create the tiles image.");
+
+      return {
+        blob,
+        fileName: `${sceneName}_tiles.png`,
+        source,
+        width: composite.canvas.width,
+        height: composite.canvas.height,
+        region: { x: composite.x, y: composite.y, width: composite.width, height: composite.height },
+        scale: composite.scale
+      };
+    }
+
+    const src = getSceneBackgroundSrc(scene);
+    if (!src) return null;
+
+    options.onProgress?.("Loading the scene background", 0, 0);
+    const url = new URL(src, window.location.origin);
+    const response = await fetch(url.href, { signal: options.signal });
+    if (!response.ok) {
+      throw new Error(`Failed to load the scene background: ${response.status} ${response.statusText}`);
+    }
+    const blob = await response.blob();
+
+    // Auto-Wall returns walls in image pixels, which may differ from the scene's size
+    let bitmap: ImageBitmap;
+    try {
+      bitmap = await createImageBitmap(blob);
+    } catch (err) {
+      ModuleLogger.warn(`Failed to decode scene background: ${err}`);
+      throw new Error("The scene background is not an image Auto-Wall can read.");
+    }
+    const { width, height } = bitmap;
+    bitmap.close();
+
+    const region = getSceneRect(scene);
+    return {
+      blob,
+      fileName: url.pathname.split("/").pop() || `${sceneName}.png`,
+      source,
+      width,
+      height,
+      region,
+      scale: region.width > 0 ? width / region.width : 1
+    };
+  }
+
+  /**
+   * Send an image to Auto-Wall and wait for the detected walls
+   * @param timeout Milliseconds to wait for the walls, including any polling
+   * @returns The walls, in image pixels
+   * @throws If the request fails or times out, or an AbortError if cancelled
+   */
+  static async detect(url: string, image: AutoWallImage, scene: Scene, timeout: number, options: AutoWallRequestOptions = {}): Promise<WallData[]> {
+    // Aborted by the caller or when the time runs out
+    const controller = new AbortController();
+    const timer = window.setTimeout(() => controller.abort(), timeout);
+    const onAbort = () => controller.abort();
+    options.signal?.addEventListener("abort", onAbort, { once: true });
+
+    try {
+      const form = new FormData();
+      form.append("image", image.blob, image.fileName);
+      form.append("metadata", JSON.stringify({
+        scene: { id: scene.id, name: scene.name },
+        source: image.source,
+        width: image.width,
+        height: image.height,
+        gridSize: getSceneGeometry(scene).gridSize * image.scale
+      }));
+
+      options.onProgress?.("Sending the image to Auto-Wall", 0, 0);
+      let result = await this.readResponse(
+        await fetch(url, { method: "POST", body: form, signal: controller.signal }),
+        url
+      );
+
+      options.onProgress?.("Waiting for Auto-Wall", 0, 0);
+      while ("pending" in result) {
+        await sleep(POLL_INTERVAL_MS, controller.signal);
+        const statusUrl = result.pending;
+        result = await this.readResponse(await fetch(statusUrl, { signal: controller.signal }), statusUrl);
+      }
+      return result.walls;
+    } catch (error) {
+      if (isAbortError(error) && !options.signal?.aborted) {
+        throw new Error(`Auto-Wall did not return walls within ${Math.round(timeout / 1000)} seconds.`);
+      }
+      throw error;
+    } finally {
+      window.clearTimeout(timer);
+      options.signal?.removeEventListener("abort", onAbort);
+      throwIfAborted(options.signal);
+    }
+  }
+
+  /**
+   * Convert walls detected on an image to the scene, relative to the scene image so the import can
+   * apply the padding
+   */
+  static toScene(walls: WallData[], image: AutoWallImage, scene: Scene): WallData[] {
+    const geometry = getSceneGeometry(scene);
+    const origin = { ...image.region, x: image.region.x - geometry.sceneX, y: image.region.y - geometry.sceneY };
+    return chunkWallsToScene(walls, origin, image.scale);
+  }
+
+  /**
+   * Read the walls from a response, or the URL to poll if they are not ready yet
+   * @param requestUrl The URL the response came from, to resolve relative status URLs against
+   * @throws If the response is an error or has no wall data
+   */
+  private static async readResponse(response: Response, requestUrl: string): Promise<AutoWallResult> {
+    const text = await response.text();
+    if (!response.ok) {
+      throw new Error(`Auto-Wall responded with ${response.status} ${response.statusText}${text ? `: ${text.slice(0, 200)}` : ""}`);
+    }
+
+    const data = text ? JSON.parse(text) : null;
+    const location = data?.statusUrl ?? response.headers.get("Location");
+    if (response.status === 202 || PENDING_STATUSES.includes(data?.status)) {
+      // Without a status URL, keep asking the same URL
+      const next = location ? new URL(location, requestUrl).href : requestUrl;
+      return { pending: next };
+    }
+
+    if (data?.status === "error" || data?.status === "failed") {
+      throw new Error(`Auto-Wall could not detect walls: ${data.error ?? data.message ?? "unknown error"}`);
+    }
+    if (Array.isArray(data)) return { walls: data };
+    if (isUniversalVtt(data)) return { walls: universalVttToWalls(data).walls };
+    if (Array.isArray(data?.walls)) return { walls: data.walls };
+
+    throw new Error("Auto-Wall did not return any wall data.");
+  }
+}
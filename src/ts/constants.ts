@@ -1,3 +1,38 @@
 import { id } from "../module.json";
 
 export const moduleId = id;
+
+/**
+ * Wall restriction values as used by Foundry's CONST.WALL_SENSE_TYPES / WALL_MOVEMENT_TYPES.
+ * Kept locally because the bundled type definitions predate the proximity/distance values.
+ */
+export const WALL_SENSE = {
+  NONE: 0,
+  LIMITED: 10,
+  NORMAL: 20,
+  PROXIMITY: 30,
+  DISTANCE: 40
+} as const;
+
+export const WALL_MOVE = {
+  NONE: 0,
+  NORMAL: 20
+} as const;
+
+export const WALL_DOOR = {
+  NONE: 0,
+  DOOR: 1,
+  SECRET: 2
+} as const;
+
+export const WALL_DOOR_STATE = {
+  CLOSED: 0,
+  OPEN: 1,
+  LOCKED: 2
+} as const;
+
+export const WALL_DIRECTION = {
+  BOTH: 0,
+  LEFT: 1,
+  RIGHT: 2
+} as const;
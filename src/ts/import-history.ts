@@ -0,0 +1,110 @@
+import { moduleId } from './constants';
+import { WallUtils } from './module';
+import { PlaceableData, PlaceableType, WallData } from './types';
+import { getPlaceableCollection, PLACEABLE_TYPES } from './utils/placeables';
+
+/**
+ * The last import into a scene, stored in the scene's module flags
+ */
+export interface ImportRecord {
+  /** Import ID stored on every created document */
+  id: string;
+  /** When the import happened (ms since epoch) */
+  timestamp: number;
+  /** Number of walls created */
+  created: number;
+  /** Number of other documents created, by type */
+  documents?: Partial<Record<PlaceableType, number>>;
+  /** Existing walls that the import deleted, so undo can restore them */
+  replaced: WallData[];
+}
+
+/**
+ * Tracks which documents each import created so the last import can be undone
+ */
+export class ImportHistory {
+  /**
+   * Create a new import ID
+   */
+  static createImportId(): string {
+    return foundry.utils.randomID();
+  }
+
+  /**
+   * Tag document data with the import it belongs to
+   */
+  static tagDocuments<T extends PlaceableData>(documents: T[], importId: string, timestamp: number): T[] {
+    return documents.map(data => ({
+      ...data,
+      flags: {
+        ...data.flags,
+        [moduleId]: {
+          ...data.flags?.[moduleId],
+          importId,
+          importedAt: timestamp
+        }
+      }
+    }));
+  }
+
+  /**
+   * Get the import ID a document was created by, if any
+   */
+  static getImportId(document: any): string | undefined {
+    return document.getFlag?.(moduleId, "importId") ?? document.flags?.[moduleId]?.importId;
+  }
+
+  /**
+   * Delete every document of any placeable type that was created by an import
+   * @returns The number of documents deleted
+   */
+  static async removeImport(scene: Scene, importId: string): Promise<number> {
+    let removed = 0;
+    for (const type of PLACEABLE_TYPES) {
+      const ids = getPlaceableCollection(scene, type)
+        .filter(document => this.getImportId(document) === importId)
+        .map(document => document.id as string);
+
+      if (ids.length > 0) {
+        await WallUtils.deleteDocuments(scene, type, ids);
+        removed += ids.length;
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Remember an import as the scene's last import
+   */
+  static async record(scene: Scene, record: ImportRecord): Promise<void> {
+    await scene.setFlag(moduleId as any, "lastImport" as any, record as any);
+  }
+
+  /**
+   * Get the scene's last import, if any
+   */
+  static getLastImport(scene: Scene): ImportRecord | undefined {
+    return scene.getFlag(moduleId as any, "lastImport" as any) as ImportRecord | undefined;
+  }
+
+  /**
+   * Delete the walls and other documents created by the scene's last import and restore any walls it replaced
+   */
+  static async undoLastImport(scene: Scene): Promise<void> {
+    const record = this.getLastImport(scene);
+    if (!record) {
+      ui.notifications?.warn("There is no import to undo on this scene.");
+      return;
+    }
+
+    const removed = await this.removeImport(scene, record.id);
+    if (record.replaced.length > 0) {
+      await WallUtils.createWalls(scene, record.replaced);
+    }
+
+    await scene.unsetFlag(moduleId as any, "lastImport" as any);
+
+    const restored = record.replaced.length > 0 ? ` and restored ${record.replaced.length} replaced walls` : "";
+    ui.notifications?.info(`Undid last import: removed ${removed} documents${restored}.`);
+  }
+}
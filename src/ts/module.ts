@@ -1,6 +1,48 @@
 import { ModuleLogger } from './utils/logger';
 import { moduleId } from './constants';
 import { WallManagementDialog } from './wall-management-dialog';
+import { WallPreview } from './wall-preview';
+import { AutoWallDetectOptions, DocumentEnvelope, PlaceableData, PlaceableType, TileExportOptions, WallAuditOptions, WallCleanupOptions, WallData, WallDetectionOptions, WallDiffOptions, WallExportOptions, WallImportOptions, WallImportMode, WallMappingRule, WallPropertyChanges, WallSelection, WallStampOptions, WallTransformOptions } from './types';
+import { drawingToPolygon, selectWalls } from './utils/wall-selection';
+import { planWallMerge, WallMergePlan } from './utils/wall-merge';
+import { countCleanupChanges, planWallCleanup, WallCleanupSummary } from './utils/wall-cleanup';
+import { WallCleanupDialog } from './wall-cleanup-dialog';
+import { auditWalls, WallAuditReport } from './utils/wall-audit';
+import { WallAuditDialog } from './wall-audit-dialog';
+import { validateWalls } from './utils/wall-validation';
+import { ValidationReportDialog } from './validation-report-dialog';
+import { ImportHistory } from './import-history';
+import { isUniversalVtt, universalVttToWalls, wallsToUniversalVtt } from './utils/uvtt';
+import { isSvg, svgToWalls, wallsToSvg } from './utils/svg';
+import { TILE_IMAGE_FORMATS, TileComposite, TileCompositor } from './tile-compositor';
+import { TileExportDialog } from './tile-export-dialog';
+import { TileChunks } from './tile-chunks';
+import { ProgressDialog } from './progress-dialog';
+import { AutoWallBridge } from './auto-wall-bridge';
+import { WallDetector } from './wall-detector';
+import { WallDetectionDialog } from './wall-detection-dialog';
+import { WallLibrary, WallLibraryEntry } from './wall-library';
+import { WallLibraryDialog } from './wall-library-dialog';
+import { parseWallSet, placedSize, placeWallSet, serializeWallSet, wallSetBounds, WallSet, WallSetPlacement } from './utils/wall-sets';
+import { WallStamp } from './wall-stamp';
+import { WallEditDialog } from './wall-edit-dialog';
+import { planWallEdit } from './utils/wall-edit';
+import { applyMappingRules } from './utils/wall-mapping';
+import { alignWalls, DEFAULT_DIFF_TOLERANCE, DEFAULT_MOVE_TOLERANCE, diffWalls, planWallDiff, WallDiffEntry, WallDiffFrame, WallDiffReport } from './utils/wall-diff';
+import { WallDiffDialog } from './wall-diff-dialog';
+import { WallSnapshot, WallSnapshots } from './wall-snapshots';
+import { WallSnapshotDialog } from './wall-snapshot-dialog';
+import { WallMappingPresets } from './wall-mapping-presets';
+import { WallMappingDialog } from './wall-mapping-dialog';
+import { isAbortError } from './utils/concurrency';
+import { boundingRect, Rect } from './utils/geometry';
+import { getSceneBackgroundSrc, getSceneGeometry, getSceneRect } from './utils/scene';
+import { BundleImportOptions, SceneBundle } from './scene-bundle';
+import { SceneBatch, SceneBatchExportOptions, SceneBatchImportOptions } from './scene-batch';
+import { SceneBatchDialog } from './scene-batch-dialog';
+import { ENVELOPE_FORMAT, ENVELOPE_VERSION, getPlaceableCollection, isDocumentEnvelope, isValidPlaceable, PLACEABLE_LABELS, PLACEABLE_TYPES, transformPlaceable } from './utils/placeables';
+import { normalizeRotation, TransformFrame, transformWalls, WallTransform } from './utils/wall-transform';
+import '../styles/style.scss';
 
 /**
  * Get the Foundry VTT version number
@@ -36,6 +78,50 @@ function registerSettings() {
     } as any,
     default: 2
   });
+
+  (game as Game).settings.register(moduleId, "previewImports", {
+    name: "Preview Imports",
+    hint: "Show imported walls as an overlay on the canvas and wait for confirmation before creating them",
+    scope: "client",
+    config: true,
+    type: Boolean,
+    default: true
+  });
+
+  (game as Game).settings.register(moduleId, "autoWallUrl", {
+    name: "Auto-Wall URL",
+    hint: "Address of a local Auto-Wall instance to send scene images to for wall detection, e.g. http://localhost:5000/detect. Leave empty to disable.",
+    scope: "client",
+    config: true,
+    type: String,
+    default: ""
+  });
+
+  (game as Game).settings.register(moduleId, "autoWallTimeout", {
+    name: "Auto-Wall Timeout",
+    hint: "Seconds to wait for Auto-Wall to return walls before giving up",
+    scope: "client",
+    config: true,
+    type: Number,
+    range: { min: 10, max: 600, step: 10 } as any,
+    default: 120
+  });
+
+  (game as Game).settings.register(moduleId, "autoWallPreview", {
+    name: "Preview Auto-Wall Results",
+    hint: "Show walls received from Auto-Wall as a preview and wait for confirmation before creating them",
+    scope: "client",
+    config: true,
+    type: Boolean,
+    default: true
+  });
+
+  WallSnapshots.registerSettings();
+  WallLibrary.registerSetting(() => WallLibraryDialog.refresh());
+  WallMappingPresets.registerSetting(() => {
+    WallMappingDialog.refresh();
+    WallManagementDialog.refresh();
+  });
 }
 
 /**
@@ -50,11 +136,61 @@ Hooks.once('ready', () => {
     importWallsFromFile: WallUtils.importWallsFromFile.bind(WallUtils),
     exportWallsToClipboard: WallUtils.exportWallsToClipboard.bind(WallUtils),
     exportWallsToFile: WallUtils.exportWallsToFile.bind(WallUtils),
+    exportWallsToUniversalVtt: WallUtils.exportWallsToUniversalVtt.bind(WallUtils),
+    exportWallsToSvg: WallUtils.exportWallsToSvg.bind(WallUtils),
+    undoLastImport: WallUtils.undoLastImport.bind(WallUtils),
+    editWalls: WallUtils.editWalls.bind(WallUtils),
+    openWallEditor: WallUtils.openWallEditor.bind(WallUtils),
+    saveMappingPreset: WallUtils.saveMappingPreset.bind(WallUtils),
+    deleteMappingPreset: WallUtils.deleteMappingPreset.bind(WallUtils),
+    openMappingPresets: WallUtils.openMappingPresets.bind(WallUtils),
+    cleanupWalls: WallUtils.cleanupWalls.bind(WallUtils),
+    auditWalls: WallUtils.auditWalls.bind(WallUtils),
+    diffWallsWithScene: WallUtils.diffWallsWithScene.bind(WallUtils),
+    diffWallsWithFile: WallUtils.diffWallsWithFile.bind(WallUtils),
+    openWallDiff: WallUtils.openWallDiff.bind(WallUtils),
+    snapshotWalls: WallUtils.snapshotWalls.bind(WallUtils),
+    restoreWallSnapshot: WallUtils.restoreWallSnapshot.bind(WallUtils),
+    deleteWallSnapshot: WallUtils.deleteWallSnapshot.bind(WallUtils),
+    openWallSnapshots: WallUtils.openWallSnapshots.bind(WallUtils),
     copySceneImageUrl: WallUtils.copySceneImageUrl.bind(WallUtils),
-    exportSceneTilesAsImage: WallUtils.exportSceneTilesAsImage.bind(WallUtils)
+    detectWallsWithAutoWall: WallUtils.detectWallsWithAutoWall.bind(WallUtils),
+    detectWalls: WallUtils.detectWalls.bind(WallUtils),
+    exportSceneTilesAsImage: WallUtils.exportSceneTilesAsImage.bind(WallUtils),
+    importChunkWalls: WallUtils.importChunkWalls.bind(WallUtils),
+    saveToWallLibrary: WallUtils.saveToWallLibrary.bind(WallUtils),
+    stampFromWallLibrary: WallUtils.stampFromWallLibrary.bind(WallUtils),
+    openWallLibrary: WallUtils.openWallLibrary.bind(WallUtils),
+    stampWalls: WallUtils.stampWalls.bind(WallUtils),
+    stampWallsFromClipboard: WallUtils.stampWallsFromClipboard.bind(WallUtils),
+    stampWallsFromFile: WallUtils.stampWallsFromFile.bind(WallUtils),
+    exportSceneBundle: WallUtils.exportSceneBundle.bind(WallUtils),
+    importSceneBundle: WallUtils.importSceneBundle.bind(WallUtils),
+    exportScenes: WallUtils.exportScenes.bind(WallUtils),
+    importScenes: WallUtils.importScenes.bind(WallUtils),
+    openSceneBatch: WallUtils.openSceneBatch.bind(WallUtils)
   };
 });
 
+/**
+ * Drop any pending import preview when the canvas is torn down (e.g. switching scenes)
+ */
+Hooks.on('canvasTearDown', () => {
+  if (WallPreview.isActive) WallPreview.cancel();
+  if (WallStamp.isActive) WallStamp.cancel();
+  WallAuditDialog.instance?.close();
+  WallDiffDialog.instance?.close();
+});
+
+/**
+ * Keep the snapshot list in step with the active scene and its snapshots
+ */
+Hooks.on('updateScene', (_scene: Scene, changes: any) => {
+  if (changes.active !== undefined || changes.flags?.[moduleId] !== undefined) {
+    WallSnapshotDialog.refresh();
+  }
+});
+
 /**
  * Add buttons to the walls submenu using getSceneControlButtons
  */
@@ -116,12 +252,142 @@ Hooks.on('getSceneControlButtons', function (controls: any) {
         title: "Export Tiles as Image",
         icon: "fas fa-th-large",
         onClick: () => {
-          WallUtils.exportSceneTilesAsImage();
+          new TileExportDialog().render(true);
         },
         button: true,
         order: 22
       };
     }
+
+    if (!wallsControl.tools["export-bundle"]) {
+      wallsControl.tools["export-bundle"] = {
+        name: "export-bundle",
+        title: "Export Scene Bundle",
+        icon: "fas fa-file-archive",
+        onClick: () => {
+          WallUtils.exportSceneBundle();
+        },
+        button: true,
+        order: 23
+      };
+    }
+
+    if (!wallsControl.tools["wall-cleanup"]) {
+      wallsControl.tools["wall-cleanup"] = {
+        name: "wall-cleanup",
+        title: "Clean Up Walls",
+        icon: "fas fa-broom",
+        onClick: () => {
+          new WallCleanupDialog().render(true);
+        },
+        button: true,
+        order: 24
+      };
+    }
+
+    if (!wallsControl.tools["wall-audit"]) {
+      wallsControl.tools["wall-audit"] = {
+        name: "wall-audit",
+        title: "Audit Walls",
+        icon: "fas fa-stethoscope",
+        onClick: () => {
+          WallUtils.auditWalls();
+        },
+        button: true,
+        order: 25
+      };
+    }
+
+    if (!wallsControl.tools["auto-wall-detect"]) {
+      wallsControl.tools["auto-wall-detect"] = {
+        name: "auto-wall-detect",
+        title: "Detect Walls with Auto-Wall",
+        icon: "fas fa-magic",
+        onClick: () => {
+          WallUtils.detectWallsWithAutoWall();
+        },
+        button: true,
+        order: 26
+      };
+    }
+
+    if (!wallsControl.tools["wall-detect"]) {
+      wallsControl.tools["wall-detect"] = {
+        name: "wall-detect",
+        title: "Detect Walls",
+        icon: "fas fa-search",
+        onClick: () => {
+          new WallDetectionDialog().render(true);
+        },
+        button: true,
+        order: 27
+      };
+    }
+
+    if (!wallsControl.tools["wall-library"]) {
+      wallsControl.tools["wall-library"] = {
+        name: "wall-library",
+        title: "Wall Library",
+        icon: "fas fa-book",
+        onClick: () => {
+          WallLibraryDialog.open();
+        },
+        button: true,
+        order: 28
+      };
+    }
+
+    if (!wallsControl.tools["stamp-walls"]) {
+      wallsControl.tools["stamp-walls"] = {
+        name: "stamp-walls",
+        title: "Stamp Walls from File",
+        icon: "fas fa-stamp",
+        onClick: () => {
+          WallUtils.stampWallsFromFile();
+        },
+        button: true,
+        order: 29
+      };
+    }
+
+    if (!wallsControl.tools["wall-diff"]) {
+      wallsControl.tools["wall-diff"] = {
+        name: "wall-diff",
+        title: "Compare Walls",
+        icon: "fas fa-not-equal",
+        onClick: () => {
+          WallDiffDialog.open();
+        },
+        button: true,
+        order: 30
+      };
+    }
+
+    if (!wallsControl.tools["wall-snapshots"]) {
+      wallsControl.tools["wall-snapshots"] = {
+        name: "wall-snapshots",
+        title: "Wall Snapshots",
+        icon: "fas fa-history",
+        onClick: () => {
+          WallSnapshotDialog.open();
+        },
+        button: true,
+        order: 31
+      };
+    }
+
+    if (!wallsControl.tools["scene-batch"]) {
+      wallsControl.tools["scene-batch"] = {
+        name: "scene-batch",
+        title: "Export/Import Multiple Scenes",
+        icon: "fas fa-layer-group",
+        onClick: () => {
+          WallUtils.openSceneBatch();
+        },
+        button: true,
+        order: 32
+      };
+    }
   } else {
     // Pre-v13 behavior - tools is an array
     if (wallsControl.tools && Array.isArray(wallsControl.tools)) {
@@ -162,7 +428,147 @@ Hooks.on('getSceneControlButtons', function (controls: any) {
           title: "Export Tiles as Image",
           icon: "fas fa-th-large",
           onClick: () => {
-            WallUtils.exportSceneTilesAsImage();
+            new TileExportDialog().render(true);
+          },
+          button: true
+        });
+      }
+
+      // Add the export bundle button
+      const hasExportBundle = wallsControl.tools.some((t: { name: string }) => t.name === "export-bundle");
+      if (!hasExportBundle) {
+        wallsControl.tools.push({
+          name: "export-bundle",
+          title: "Export Scene Bundle",
+          icon: "fas fa-file-archive",
+          onClick: () => {
+            WallUtils.exportSceneBundle();
+          },
+          button: true
+        });
+      }
+
+      // Add the wall cleanup button
+      const hasWallCleanup = wallsControl.tools.some((t: { name: string }) => t.name === "wall-cleanup");
+      if (!hasWallCleanup) {
+        wallsControl.tools.push({
+          name: "wall-cleanup",
+          title: "Clean Up Walls",
+          icon: "fas fa-broom",
+          onClick: () => {
+            new WallCleanupDialog().render(true);
+          },
+          button: true
+        });
+      }
+
+      // Add the wall audit button
+      const hasWallAudit = wallsControl.tools.some((t: { name: string }) => t.name === "wall-audit");
+      if (!hasWallAudit) {
+        wallsControl.tools.push({
+          name: "wall-audit",
+          title: "Audit Walls",
+          icon: "fas fa-stethoscope",
+          onClick: () => {
+            WallUtils.auditWalls();
+          },
+          button: true
+        });
+      }
+
+      // Add the Auto-Wall detection button
+      const hasAutoWallDetect = wallsControl.tools.some((t: { name: string }) => t.name === "auto-wall-detect");
+      if (!hasAutoWallDetect) {
+        wallsControl.tools.push({
+          name: "auto-wall-detect",
+          title: "Detect Walls with Auto-Wall",
+          icon: "fas fa-magic",
+          onClick: () => {
+            WallUtils.detectWallsWithAutoWall();
+          },
+          button: true
+        });
+      }
+
+      // Add the wall detection button
+      const hasWallDetect = wallsControl.tools.some((t: { name: string }) => t.name === "wall-detect");
+      if (!hasWallDetect) {
+        wallsControl.tools.push({
+          name: "wall-detect",
+          title: "Detect Walls",
+          icon: "fas fa-search",
+          onClick: () => {
+            new WallDetectionDialog().render(true);
+          },
+          button: true
+        });
+      }
+
+      // Add the wall library button
+      const hasWallLibrary = wallsControl.tools.some((t: { name: string }) => t.name === "wall-library");
+      if (!hasWallLibrary) {
+        wallsControl.tools.push({
+          name: "wall-library",
+          title: "Wall Library",
+          icon: "fas fa-book",
+          onClick: () => {
+            WallLibraryDialog.open();
+          },
+          button: true
+        });
+      }
+
+      // Add the stamp button
+      const hasStampWalls = wallsControl.tools.some((t: { name: string }) => t.name === "stamp-walls");
+      if (!hasStampWalls) {
+        wallsControl.tools.push({
+          name: "stamp-walls",
+          title: "Stamp Walls from File",
+          icon: "fas fa-stamp",
+          onClick: () => {
+            WallUtils.stampWallsFromFile();
+          },
+          button: true
+        });
+      }
+
+      // Add the wall comparison button
+      const hasWallDiff = wallsControl.tools.some((t: { name: string }) => t.name === "wall-diff");
+      if (!hasWallDiff) {
+        wallsControl.tools.push({
+          name: "wall-diff",
+          title: "Compare Walls",
+          icon: "fas fa-not-equal",
+          onClick: () => {
+            WallDiffDialog.open();
+          },
+          button: true
+        });
+      }
+
+      // Add the wall snapshots button
+      const hasWallSnapshots = wallsControl.tools.some((t: { name: string }) => t.name === "wall-snapshots");
+      if (!hasWallSnapshots) {
+        wallsControl.tools.push({
+          name: "wall-snapshots",
+          title: "Wall Snapshots",
+          icon: "fas fa-history",
+          onClick: () => {
+            WallSnapshotDialog.open();
+          },
+          button: true
+        });
+      }
+
+      // Add the multi-scene export and import button
+      const hasSceneBatch = wallsControl.tools.some((t: { name: string }) => t.name === "scene-batch");
+      if (!hasSceneBatch) {
+        wallsControl.tools.push({
+          name: "scene-batch",
+          title: "Export/Import Multiple Scenes",
+          icon: "fas fa-layer-group",
+          onClick: () => {
+            WallUtils.openSceneBatch();
           },
           button: true
         });
@@ -178,14 +584,14 @@ export class WallUtils {
   /**
    * Import walls from clipboard JSON
    */
-  static async importWallsFromClipboard(): Promise<void> {
+  static async importWallsFromClipboard(options: WallImportOptions = {}): Promise<void> {
     try {
       // Show loading notification
       ui.notifications?.info("Reading wall data from clipboard...");
 
       // Read clipboard contents
       const text = await navigator.clipboard.readText();
-      await this.processWallImport(text);
+      await this.processWallImport(text, options);
     } catch (error) {
       ui.notifications?.error("Failed to read clipboard: " + (error instanceof Error ? error.message : String(error)));
       console.error("Clipboard read error:", error);
@@ -195,10 +601,10 @@ export class WallUtils {
   /**
    * Import walls from a JSON file
    */
-  static importWallsFromFile(): void {
+  static importWallsFromFile(options: WallImportOptions = {}): void {
     const input = document.createElement('input');
     input.type = 'file';
-    input.accept = '.json';
+    input.accept = '.json,.dd2vtt,.uvtt,.df2vtt,.svg';
     input.onchange = (event: Event) => {
       const target = event.target as HTMLInputElement;
       const file = target.files?.[0];
@@ -207,7 +613,7 @@ export class WallUtils {
       const reader = new FileReader();
       reader.onload = async (e) => {
         const text = e.target?.result as string;
-        await this.processWallImport(text);
+        await this.processWallImport(text, options);
       };
       reader.readAsText(file);
     };
@@ -216,166 +622,1021 @@ export class WallUtils {
 
   /**
    * Process wall data for import
+   * @param text The wall JSON
+   * @param options Import options, falling back to the module settings
+   * @returns True if the walls were created
    */
-  static async processWallImport(text: string): Promise<void> {
+  static async processWallImport(text: string, options: WallImportOptions = {}): Promise<boolean> {
     try {
-      // Parse JSON data - should be an array of wall objects
-      const walls = JSON.parse(text);
+      // Parse the data - should be a JSON array of wall objects, a document envelope, a Universal VTT file or an SVG document
+      let walls = isSvg(text) ? svgToWalls(text, options.curveTolerance ?? 1) : JSON.parse(text);
+      let transformOptions = options.transform ?? {};
+      let placeables: [PlaceableType, PlaceableData[]][] = [];
+
+      // Envelopes can carry lights, sounds and tiles alongside the walls
+      if (isDocumentEnvelope(walls)) {
+        const documents = walls.documents;
+        const types = options.documentTypes ?? PLACEABLE_TYPES;
+        placeables = types
+          .filter(type => type !== "Wall" && (documents[type]?.length ?? 0) > 0)
+          .map(type => [type, documents[type] as PlaceableData[]]);
+        walls = types.includes("Wall") ? documents.Wall ?? [] : [];
+      }
+
+      // Universal VTT walls are converted at the file's grid size, then scaled to the scene's grid
+      if (isUniversalVtt(walls)) {
+        const converted = universalVttToWalls(walls);
+        walls = converted.walls;
+        if (!transformOptions.scale && !transformOptions.sourceGridSize) {
+          transformOptions = { ...transformOptions, sourceGridSize: converted.pixelsPerGrid };
+        }
+      }
 
       if (!Array.isArray(walls)) {
         ui.notifications?.error("Invalid wall data format. Expected an array of walls.");
-        return;
+        return false;
       }
 
       // Get the current scene
       const scene = (game as Game).scenes?.current;
       if (!scene) {
         ui.notifications?.error("No active scene");
-        return;
+        return false;
       }
       
-      // Check for non-zero padding
-      if ((scene as any).padding !== 0) {
+      // Check every wall before anything is created, so a bad entry can't leave a half-imported scene
+      const report = validateWalls(walls);
+      if (report.rejected.length > 0 || report.repaired.length > 0) {
+        ModuleLogger.warn(`Wall validation: ${report.rejected.length} rejected, ${report.repaired.length} repaired`, report);
+        const proceed = await ValidationReportDialog.review(report);
+        if (!proceed) return false;
+      }
+
+      // Other documents only need a usable position
+      placeables = placeables.map(([type, documents]) => {
+        const valid = documents.filter(isValidPlaceable);
+        if (valid.length < documents.length) {
+          ui.notifications?.warn(`Skipping ${documents.length - valid.length} ${PLACEABLE_LABELS[type].toLowerCase()} without a valid position.`);
+        }
+        return [type, valid];
+      });
+      const placeableCount = placeables.reduce((total, [, documents]) => total + documents.length, 0);
+
+      if (report.valid.length === 0 && placeableCount === 0) {
+        ui.notifications?.error("No valid walls found in the imported data.");
+        return false;
+      }
+
+      // Check for non-zero padding, unless the walls are being offset by it
+      if ((scene as any).padding !== 0 && !transformOptions.applyPadding) {
         const confirmImport = await this.showPaddingWarning("import");
-        if (!confirmImport) return;
+        if (!confirmImport) return false;
       }
 
       // Prepare wall data for creation - removing _id properties
-      const wallData = walls.map(wall => {
+      let rawWalls: WallData[] = report.valid.map(wall => {
         const { _id, ...wallData } = wall;
         return wallData;
       });
 
-      // Create walls in batches to avoid performance issues
-      const BATCH_SIZE = 100;
-      const totalWalls = wallData.length;
-      let createdCount = 0;
-
-      ui.notifications?.info(`Creating ${totalWalls} walls...`);
+      // Translate the source's wall semantics into the ones this world uses
+      const rules = WallMappingPresets.resolve(options.mapping);
+      if (rules.length > 0) {
+        const mapping = applyMappingRules(rawWalls, rules);
+        rawWalls = mapping.walls;
+        ModuleLogger.info(`Mapping rules changed ${mapping.mapped} of ${rawWalls.length} walls`);
+      }
 
-      // Process walls in batches
-      for (let i = 0; i < wallData.length; i += BATCH_SIZE) {
-        const batch = wallData.slice(i, i + BATCH_SIZE);
-        await scene.createEmbeddedDocuments("Wall", batch);
+      // Move the walls into place on this scene
+      const { transform, frame } = this.resolveTransform(scene, transformOptions);
+      const wallData = transformWalls(rawWalls, transform, frame);
+      const placeableData = placeables.map(([type, documents]): [PlaceableType, PlaceableData[]] => [
+        type,
+        documents.map(document => {
+          const { _id, ...data } = document;
+          return transformPlaceable(type, data, transform, frame);
+        })
+      ]);
 
-        createdCount += batch.length;
+      // Work out which walls to create and which existing walls to remove
+      const mode = options.mode ?? "append";
+      const plan = this.planImport(scene, wallData, mode, options.tolerance ?? 2);
 
-        // Update progress
-        if (i + BATCH_SIZE < wallData.length) {
-          ui.notifications?.info(`Created ${createdCount} of ${totalWalls} walls...`);
+      // Let the user review the walls on the canvas before anything is created
+      const preview = options.preview ?? (game as Game).settings.get(moduleId, "previewImports") as boolean;
+      if (preview) {
+        ui.notifications?.info(`Previewing ${plan.toCreate.length} walls. Accept or cancel the import in the Wall Management dialog.`);
+        const removed = scene.walls
+          .filter(wall => plan.toDelete.includes(wall.id as string))
+          .map(wall => wall.toObject() as WallData);
+        const accepted = await WallPreview.show(plan.toCreate, removed);
+        if (!accepted) {
+          ui.notifications?.info("Wall import cancelled.");
+          return false;
         }
       }
 
-      ui.notifications?.info(`Successfully created ${createdCount} walls!`);
+      await this.checkpoint("Before import");
+      const { created: createdCount, documents: createdDocuments } = await this.commitImport(scene, plan.toCreate, plan.toDelete, placeableData);
+      const others = (Object.entries(createdDocuments) as [PlaceableType, number][])
+        .map(([type, count]) => `, ${count} ${PLACEABLE_LABELS[type].toLowerCase()}`)
+        .join("");
+
+      if (mode === "append") {
+        ui.notifications?.info(`Successfully created ${createdCount} walls${others}!`);
+      } else {
+        ui.notifications?.info(`Import complete: ${plan.added} added, ${plan.skipped} skipped, ${plan.replaced} replaced${others}.`);
+      }
+      return true;
     } catch (error) {
       ui.notifications?.error("Error processing walls:" + (error instanceof Error ? error.message : String(error)));
       console.error("Wall import error:", error);
+      return false;
     }
   }
 
   /**
-   * Export walls to clipboard as JSON
+   * Create an import's walls and other documents, delete the walls it replaces and record it as the
+   * scene's last import. If any step fails, the documents created so far are removed and the
+   * replaced walls already deleted are recreated, so the scene is left as it was.
+   * @param toDelete IDs of existing walls the import replaces
+   * @returns The number of walls created and of other documents created, by type
    */
-  static async exportWallsToClipboard(): Promise<void> {
+  private static async commitImport(scene: Scene, walls: WallData[], toDelete: string[], placeables: [PlaceableType, PlaceableData[]][] = []): Promise<{ created: number, documents: Partial<Record<PlaceableType, number>> }> {
+    // Tag the documents so this import can be rolled back or undone as a unit
+    const importId = ImportHistory.createImportId();
+    const timestamp = Date.now();
+    const replaced = scene.walls
+      .filter(wall => toDelete.includes(wall.id as string))
+      .map(wall => wall.toObject() as WallData);
+
+    let created = 0;
+    const documents: Partial<Record<PlaceableType, number>> = {};
     try {
-      const json = await this.getWallsJson();
-      await navigator.clipboard.writeText(json);
-      ui.notifications?.info("Walls copied to clipboard successfully.");
-    } catch (err) {
-      console.error("Clipboard write error:", err);
-      ui.notifications?.error("Failed to copy walls to clipboard.");
+      // Create the new walls first so a failed batch leaves the existing walls untouched
+      if (walls.length > 0) {
+        created = (await this.createWalls(scene, ImportHistory.tagDocuments(walls, importId, timestamp))).length;
+      }
+      for (const [type, data] of placeables) {
+        const ids = await this.createDocuments(scene, type, ImportHistory.tagDocuments(data, importId, timestamp));
+        documents[type] = ids.length;
+      }
+      if (toDelete.length > 0) {
+        await this.deleteWalls(scene, toDelete);
+      }
+
+      await ImportHistory.record(scene, {
+        id: importId,
+        timestamp,
+        created,
+        documents,
+        replaced: replaced.map(({ _id, ...data }) => data)
+      });
+    } catch (error) {
+      // Roll back the documents already created and bring back the replaced walls already deleted
+      await ImportHistory.removeImport(scene, importId);
+      const deleted = replaced
+        .filter(wall => !scene.walls.has(wall._id as string))
+        .map(({ _id, ...data }) => data);
+      if (deleted.length > 0) {
+        ModuleLogger.warn(`Import failed, restoring ${deleted.length} replaced walls`);
+        await this.createWalls(scene, deleted);
+      }
+      throw error;
     }
+
+    return { created, documents };
   }
 
   /**
-   * Export walls to JSON file
+   * Resolve user transform options against a scene
+   * @returns The concrete transform and the frame used for mirroring and rotation
    */
-  static async exportWallsToFile(): Promise<void> {
-    try {
-      const scene = (game as Game).scenes?.current;
-      if (!scene || !scene.name) {
-        ui.notifications?.error("No active scene found.");
-        return;
-      }
-      
-      const json = await this.getWallsJson();
-      saveDataToFile(json, "application/json", `${scene.name.replace(/\s+/g, "_")}_walls.json`);
-      ui.notifications?.info("Walls exported successfully.");
-    } catch (err) {
-      console.error("Wall export error:", err);
-      ui.notifications?.error("Failed to export walls.");
+  static resolveTransform(scene: Scene, options: WallTransformOptions = {}): { transform: WallTransform, frame: TransformFrame } {
+    const { gridSize, sceneX, sceneY, sceneWidth, sceneHeight } = getSceneGeometry(scene);
+
+    let scale = 1;
+    if (options.scale && options.scale > 0) {
+      scale = options.scale;
+    } else if (options.sourceGridSize && options.sourceGridSize > 0) {
+      scale = gridSize / options.sourceGridSize;
     }
+
+    const rotation = normalizeRotation(options.rotation ?? 0);
+
+    // Walls rotated by 90° steps were traced on an image with swapped dimensions
+    const frame = rotation % 180 === 0
+      ? { width: sceneWidth, height: sceneHeight }
+      : { width: sceneHeight, height: sceneWidth };
+
+    const paddingX = options.applyPadding ? sceneX : 0;
+    const paddingY = options.applyPadding ? sceneY : 0;
+
+    return {
+      transform: {
+        scale,
+        rotation,
+        flipX: !!options.flipX,
+        flipY: !!options.flipY,
+        offsetX: paddingX + (options.offsetX ?? 0),
+        offsetY: paddingY + (options.offsetY ?? 0)
+      },
+      frame
+    };
   }
 
   /**
-   * Get walls JSON for the current scene
+   * Decide how imported walls are combined with the scene's existing walls
    */
-  static async getWallsJson(): Promise<string> {
-    const scene = (game as Game).scenes?.current;
-    if (!scene) {
-      throw new Error("No active scene found.");
-    }
+  private static planImport(scene: Scene, walls: WallData[], mode: WallImportMode, tolerance: number): WallMergePlan {
+    const existing = scene.walls.map(wall => ({ id: wall.id as string, wall: wall.toObject() as WallData }));
 
-    // Check for non-zero padding
-    if ((scene as any).padding !== 0) {
-      const confirmExport = await this.showPaddingWarning("export");
-      if (!confirmExport) throw new Error("Wall export cancelled.");
+    switch (mode) {
+      case "merge":
+        return planWallMerge(walls, existing, tolerance);
+      case "replace":
+        return {
+          toCreate: walls,
+          toDelete: existing.map(entry => entry.id),
+          added: walls.length,
+          skipped: 0,
+          replaced: existing.length
+        };
+      default:
+        return { toCreate: walls, toDelete: [], added: walls.length, skipped: 0, replaced: 0 };
     }
-
-    // Extract wall data
-    const walls = scene.walls.map(wall => wall.toObject());
-
-    // Convert to JSON
-    return JSON.stringify(walls, null, 2);
   }
 
   /**
-   * Show warning about non-zero padding
-   * @param operation The operation being performed ("import" or "export")
-   * @returns True if user confirms to continue, false otherwise
+   * Import walls that are already in a scene's coordinates into that scene, which need not be the
+   * current one. The import is rolled back if it fails and recorded like any other, so it can be
+   * undone on that scene.
+   * @returns How the walls were combined with the scene's existing walls
    */
-  private static async showPaddingWarning(operation: string): Promise<boolean> {
-    return new Promise((resolve) => {
-      const d = new Dialog({
-        title: "Scene Padding Warning",
-        content: `
-          <p>The current scene has non-zero padding. This can cause wall positions to be incorrect when ${operation}ing.</p>
-          <p>It is recommended to set the scene padding to 0 before ${operation}ing walls.</p>
-          <p>You can change the padding in the scene configuration settings.</p>
-        `,
-        buttons: {
-          continue: {
-            icon: '<i class="fas fa-exclamation-triangle"></i>',
-            label: `Continue ${operation} anyway`,
-            callback: () => resolve(true)
-          },
-          cancel: {
-            icon: '<i class="fas fa-times"></i>',
-            label: "Cancel",
-            callback: () => resolve(false)
-          }
-        },
-        default: "cancel"
-      });
-      d.render(true);
+  static async importWallsIntoScene(scene: Scene, walls: WallData[], mode: WallImportMode = "append", tolerance = 2): Promise<WallMergePlan> {
+    const wallData = walls.map(wall => {
+      const { _id, ...data } = wall;
+      return data;
     });
+    const plan = this.planImport(scene, wallData, mode, tolerance);
+    if (plan.toCreate.length === 0 && plan.toDelete.length === 0) return plan;
+
+    await this.commitImport(scene, plan.toCreate, plan.toDelete);
+    return plan;
   }
 
   /**
-   * Copy the current scene's background image URL to clipboard
+   * Delete documents of one type in batches
    */
-  static async copySceneImageUrl(): Promise<void> {
-    try {
-      const scene = (game as Game).scenes?.viewed;
-      if (!scene) {
-        ui.notifications?.warn("No scene is currently viewed.");
-        return;
-      }
+  static async deleteDocuments(scene: Scene, type: PlaceableType, ids: string[]): Promise<void> {
+    const BATCH_SIZE = 100;
 
-      const imageUrl = (scene as any).background?.src;
-      if (!imageUrl) {
-        ui.notifications?.warn("The current scene has no background image.");
-        return;
+    ui.notifications?.info(`Removing ${ids.length} ${PLACEABLE_LABELS[type].toLowerCase()}...`);
+
+    for (let i = 0; i < ids.length; i += BATCH_SIZE) {
+      await scene.deleteEmbeddedDocuments(type, ids.slice(i, i + BATCH_SIZE));
+    }
+  }
+
+  /**
+   * Delete walls in batches
+   */
+  static async deleteWalls(scene: Scene, ids: string[]): Promise<void> {
+    await this.deleteDocuments(scene, "Wall", ids);
+  }
+
+  /**
+   * Create documents of one type in batches to avoid performance issues. If any batch fails,
+   * documents created by earlier batches are deleted again before the error is rethrown.
+   * @returns The IDs of the created documents
+   */
+  static async createDocuments(scene: Scene, type: PlaceableType, data: PlaceableData[]): Promise<string[]> {
+    const BATCH_SIZE = 100;
+    const total = data.length;
+    const label = PLACEABLE_LABELS[type].toLowerCase();
+    const createdIds: string[] = [];
+
+    ui.notifications?.info(`Creating ${total} ${label}...`);
+
+    try {
+      // Process documents in batches
+      for (let i = 0; i < data.length; i += BATCH_SIZE) {
+        const batch = data.slice(i, i + BATCH_SIZE);
+        const created = await scene.createEmbeddedDocuments(type, batch as any[]);
+        createdIds.push(...created.map(document => document.id as string));
+
+        // Update progress
+        if (i + BATCH_SIZE < data.length) {
+          ui.notifications?.info(`Created ${createdIds.length} of ${total} ${label}...`);
+        }
+      }
+    } catch (error) {
+      if (createdIds.length > 0) {
+        ModuleLogger.warn(`${PLACEABLE_LABELS[type]} creation failed, rolling back ${createdIds.length} created ${label}`);
+        await this.deleteDocuments(scene, type, createdIds);
+      }
+      throw new Error(`${PLACEABLE_LABELS[type]} creation failed and was rolled back: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    return createdIds;
+  }
+
+  /**
+   * Create walls in batches, rolling back if any batch fails
+   * @returns The IDs of the created walls
+   */
+  static async createWalls(scene: Scene, wallData: WallData[]): Promise<string[]> {
+    return this.createDocuments(scene, "Wall", wallData);
+  }
+
+  /**
+   * Update documents of one type in batches
+   * @param updates Partial document data, each including the `_id` of the document to update
+   */
+  static async updateDocuments(scene: Scene, type: PlaceableType, updates: PlaceableData[]): Promise<void> {
+    const BATCH_SIZE = 100;
+
+    ui.notifications?.info(`Updating ${updates.length} ${PLACEABLE_LABELS[type].toLowerCase()}...`);
+
+    for (let i = 0; i < updates.length; i += BATCH_SIZE) {
+      await scene.updateEmbeddedDocuments(type, updates.slice(i, i + BATCH_SIZE) as any[]);
+    }
+  }
+
+  /**
+   * Update walls in batches
+   */
+  static async updateWalls(scene: Scene, updates: PlaceableData[]): Promise<void> {
+    await this.updateDocuments(scene, "Wall", updates);
+  }
+
+  /**
+   * Undo the last import into the current scene
+   */
+  static async undoLastImport(): Promise<void> {
+    try {
+      const scene = (game as Game).scenes?.current;
+      if (!scene) {
+        ui.notifications?.error("No active scene found.");
+        return;
+      }
+      await ImportHistory.undoLastImport(scene);
+    } catch (error) {
+      ui.notifications?.error("Error undoing import: " + (error instanceof Error ? error.message : String(error)));
+      console.error("Undo import error:", error);
+    }
+  }
+
+  /**
+   * Export walls to clipboard as JSON
+   */
+  static async exportWallsToClipboard(options: WallExportOptions = {}): Promise<void> {
+    try {
+      const json = await this.getWallsJson(options);
+      await navigator.clipboard.writeText(json);
+      ui.notifications?.info("Walls copied to clipboard successfully.");
+    } catch (err) {
+      console.error("Clipboard write error:", err);
+      ui.notifications?.error("Failed to copy walls to clipboard: " + (err instanceof Error ? err.message : String(err)));
+    }
+  }
+
+  /**
+   * Export walls to JSON file
+   */
+  static async exportWallsToFile(options: WallExportOptions = {}): Promise<void> {
+    try {
+      const scene = (game as Game).scenes?.current;
+      if (!scene || !scene.name) {
+        ui.notifications?.error("No active scene found.");
+        return;
+      }
+      
+      const json = await this.getWallsJson(options);
+      saveDataToFile(json, "application/json", `${scene.name.replace(/\s+/g, "_")}_walls.json`);
+      ui.notifications?.info("Walls exported successfully.");
+    } catch (err) {
+      console.error("Wall export error:", err);
+      ui.notifications?.error("Failed to export walls: " + (err instanceof Error ? err.message : String(err)));
+    }
+  }
+
+  /**
+   * Export walls to a Universal VTT file for use in other VTTs
+   */
+  static async exportWallsToUniversalVtt(): Promise<void> {
+    try {
+      const scene = (game as Game).scenes?.current;
+      if (!scene || !scene.name) {
+        ui.notifications?.error("No active scene found.");
+        return;
+      }
+
+      // Universal VTT coordinates are relative to the map image, so padding is subtracted rather than warned about
+      const geometry = getSceneGeometry(scene);
+      const walls = scene.walls.map(wall => wall.toObject() as WallData);
+      const data = wallsToUniversalVtt(walls, {
+        gridSize: geometry.gridSize,
+        width: geometry.sceneWidth,
+        height: geometry.sceneHeight,
+        offsetX: geometry.sceneX,
+        offsetY: geometry.sceneY
+      });
+
+      saveDataToFile(JSON.stringify(data, null, 2), "application/json", `${scene.name.replace(/\s+/g, "_")}.uvtt`);
+      ui.notifications?.info(`Exported ${data.line_of_sight.length} walls and ${data.portals.length} doors to Universal VTT.`);
+    } catch (err) {
+      console.error("Universal VTT export error:", err);
+      ui.notifications?.error("Failed to export walls to Universal VTT.");
+    }
+  }
+
+  /**
+   * Export walls to an SVG file with one line per wall, for editing in a vector editor
+   * @param options.includeBackground Draw the scene background image underneath the walls
+   */
+  static async exportWallsToSvg(options: { includeBackground?: boolean } = {}): Promise<void> {
+    try {
+      const scene = (game as Game).scenes?.current;
+      if (!scene || !scene.name) {
+        ui.notifications?.error("No active scene found.");
+        return;
+      }
+
+      // Like Universal VTT, SVG coordinates are relative to the map image
+      const geometry = getSceneGeometry(scene);
+      const backgroundSrc = (scene as any).background?.src;
+      const walls = scene.walls.map(wall => wall.toObject() as WallData);
+
+      const svg = wallsToSvg(walls, {
+        width: geometry.sceneWidth,
+        height: geometry.sceneHeight,
+        offsetX: geometry.sceneX,
+        offsetY: geometry.sceneY,
+        strokeWidth: Math.max(2, Math.round(geometry.gridSize / 20)),
+        backgroundUrl: options.includeBackground && backgroundSrc
+          ? new URL(backgroundSrc, window.location.origin).href
+          : undefined
+      });
+
+      saveDataToFile(svg, "image/svg+xml", `${scene.name.replace(/\s+/g, "_")}_walls.svg`);
+      ui.notifications?.info(`Exported ${walls.length} walls to SVG.`);
+    } catch (err) {
+      console.error("SVG export error:", err);
+      ui.notifications?.error("Failed to export walls to SVG.");
+    }
+  }
+
+  /**
+   * Get walls JSON for the current scene. Walls alone are exported as a plain array; any other
+   * document types are exported together in a versioned envelope.
+   * @param warnPadding Ask for confirmation if the scene has padding
+   */
+  static async getWallsJson(options: WallExportOptions = {}, warnPadding = true): Promise<string> {
+    const scene = (game as Game).scenes?.current;
+    if (!scene) {
+      throw new Error("No active scene found.");
+    }
+
+    // Check for non-zero padding
+    if (warnPadding && (scene as any).padding !== 0) {
+      const confirmExport = await this.showPaddingWarning("export");
+      if (!confirmExport) throw new Error("Wall export cancelled.");
+    }
+
+    // Extract wall data
+    const walls = this.getSelectedWalls(scene, options.selection);
+
+    const types = options.documentTypes ?? ["Wall"];
+    if (types.length === 1 && types[0] === "Wall") {
+      if (walls.length === 0) throw new Error("No walls match the selection.");
+
+      // Convert to JSON
+      return JSON.stringify(walls, null, 2);
+    }
+
+    const geometry = getSceneGeometry(scene);
+    const envelope: DocumentEnvelope = {
+      format: ENVELOPE_FORMAT,
+      version: ENVELOPE_VERSION,
+      scene: {
+        name: scene.name,
+        gridSize: geometry.gridSize,
+        sceneX: geometry.sceneX,
+        sceneY: geometry.sceneY
+      },
+      documents: Object.fromEntries(
+        types.map(type => [
+          type,
+          type === "Wall" ? walls : getPlaceableCollection(scene, type).map(document => document.toObject())
+        ])
+      )
+    };
+    return JSON.stringify(envelope, null, 2);
+  }
+
+  /**
+   * Get the data of the walls in a scene that match a selection
+   * @throws If the selection relies on the canvas and nothing suitable is controlled
+   */
+  static getSelectedWalls(scene: Scene, selection: WallSelection = {}): WallData[] {
+    let walls = scene.walls.map(wall => wall.toObject() as WallData);
+
+    if (selection.lastImport) {
+      const record = ImportHistory.getLastImport(scene);
+      if (!record) {
+        throw new Error("There is no import on this scene.");
+      }
+      walls = walls.filter(wall => ImportHistory.getImportId(wall) === record.id);
+    }
+    if (!selection.controlled && !selection.region && !selection.filter) return walls;
+
+    // Controlled walls and drawings only exist for the scene on the canvas
+    const board = canvas as any;
+    const onCanvas = board?.scene?.id === scene.id;
+    if ((selection.controlled || selection.region === "drawings") && !onCanvas) {
+      throw new Error("Selecting walls on the canvas requires viewing the scene.");
+    }
+
+    const controlledIds = new Set<string>(
+      selection.controlled ? board.walls.controlled.map((wall: any) => wall.document.id) : []
+    );
+    if (selection.controlled && controlledIds.size === 0) {
+      throw new Error("No walls are selected on the canvas.");
+    }
+
+    let regions: { x: number, y: number }[][] = [];
+    if (selection.region === "drawings") {
+      regions = board.drawings.controlled.map((drawing: any) => drawingToPolygon(drawing.document.toObject()));
+      if (regions.length === 0) {
+        throw new Error("Select one or more drawings to use as the export region.");
+      }
+    } else if (selection.region) {
+      regions = [selection.region];
+    }
+
+    return selectWalls(walls, selection, controlledIds, regions);
+  }
+
+  /**
+   * Set properties on many walls of the current scene at once
+   * @param changes The properties to set; properties left out are not changed
+   * @param selection Which walls to change (defaults to all)
+   * @returns The number of walls changed
+   */
+  static async editWalls(changes: WallPropertyChanges, selection: WallSelection = {}): Promise<number> {
+    try {
+      const scene = (game as Game).scenes?.current;
+      if (!scene) {
+        ui.notifications?.error("No active scene found.");
+        return 0;
+      }
+
+      const walls = this.getSelectedWalls(scene, selection);
+      if (walls.length === 0) {
+        ui.notifications?.warn("No walls match the selection.");
+        return 0;
+      }
+
+      const updates = planWallEdit(walls, changes);
+      if (updates.length === 0) {
+        ui.notifications?.info(`All ${walls.length} walls already have these properties.`);
+        return 0;
+      }
+
+      await this.checkpoint("Before editing walls");
+      await this.updateWalls(scene, updates);
+      ui.notifications?.info(`Updated ${updates.length} of ${walls.length} walls.`);
+      return updates.length;
+    } catch (error) {
+      console.error("Wall edit error:", error);
+      ui.notifications?.error("Error editing walls: " + (error instanceof Error ? error.message : String(error)));
+      return 0;
+    }
+  }
+
+  /**
+   * Open the bulk wall property editor
+   */
+  static openWallEditor(): void {
+    new WallEditDialog().render(true);
+  }
+
+  /**
+   * Save mapping rules as a named preset, replacing any preset with the same name
+   * @returns True if the preset was saved
+   */
+  static async saveMappingPreset(name: string, rules: WallMappingRule[]): Promise<boolean> {
+    try {
+      if (!name.trim()) {
+        ui.notifications?.warn("Enter a name for the mapping preset.");
+        return false;
+      }
+      await WallMappingPresets.save({ name: name.trim(), rules });
+      ui.notifications?.info(`Saved mapping preset "${name.trim()}" with ${rules.length} rules.`);
+      return true;
+    } catch (error) {
+      console.error("Mapping preset save error:", error);
+      ui.notifications?.error("Error saving mapping preset: " + (error instanceof Error ? error.message : String(error)));
+      return false;
+    }
+  }
+
+  /**
+   * Delete a mapping preset
+   * @returns True if the preset was deleted
+   */
+  static async deleteMappingPreset(name: string): Promise<boolean> {
+    try {
+      if (!WallMappingPresets.find(name)) {
+        ui.notifications?.warn(`No mapping preset named "${name}".`);
+        return false;
+      }
+      await WallMappingPresets.remove(name);
+      return true;
+    } catch (error) {
+      console.error("Mapping preset delete error:", error);
+      ui.notifications?.error("Error deleting mapping preset: " + (error instanceof Error ? error.message : String(error)));
+      return false;
+    }
+  }
+
+  /**
+   * Open the mapping preset editor
+   * @param name Preset to edit first
+   */
+  static openMappingPresets(name?: string): void {
+    WallMappingDialog.open(name);
+  }
+
+  /**
+   * Clean up the topology of the current scene's walls: snap endpoints, weld gaps, remove duplicate and
+   * zero-length walls and merge straight chains
+   * @returns A summary of the changes made, or that would be made for a dry run; null if nothing could be planned
+   */
+  static async cleanupWalls(options: WallCleanupOptions = {}): Promise<WallCleanupSummary | null> {
+    try {
+      const scene = (game as Game).scenes?.current;
+      if (!scene) {
+        ui.notifications?.error("No active scene found.");
+        return null;
+      }
+
+      const walls = this.getSelectedWalls(scene, options.selection)
+        .map(wall => ({ id: wall._id as string, wall }));
+      const plan = planWallCleanup(walls, options);
+      const changes = countCleanupChanges(plan.summary);
+
+      if (options.dryRun) return plan.summary;
+      if (changes === 0) {
+        ui.notifications?.info("The walls are already clean.");
+        return plan.summary;
+      }
+
+      await this.checkpoint("Before wall cleanup");
+
+      if (plan.updates.length > 0) {
+        await this.updateWalls(scene, plan.updates);
+      }
+      if (plan.toDelete.length > 0) {
+        await this.deleteWalls(scene, plan.toDelete);
+      }
+
+      ui.notifications?.info(`Wall cleanup complete: ${plan.updates.length} walls updated and ${plan.toDelete.length} removed.`);
+      return plan.summary;
+    } catch (error) {
+      console.error("Wall cleanup error:", error);
+      ui.notifications?.error("Error cleaning up walls: " + (error instanceof Error ? error.message : String(error)));
+      return null;
+    }
+  }
+
+  /**
+   * Audit the current scene's walls for gaps, unconnected junctions, crossings, unattached doors and
+   * dangling endpoints, and show the findings with markers on the canvas
+   * @returns The report, or null if the audit could not run
+   */
+  static async auditWalls(options: WallAuditOptions = {}): Promise<WallAuditReport | null> {
+    try {
+      const scene = (game as Game).scenes?.current;
+      if (!scene) {
+        ui.notifications?.error("No active scene found.");
+        return null;
+      }
+
+      const walls = this.getSelectedWalls(scene, options.selection)
+        .map(wall => ({ id: wall._id as string, wall }));
+      const report = auditWalls(walls, options);
+      await WallAuditDialog.show(report, options);
+      return report;
+    } catch (error) {
+      console.error("Wall audit error:", error);
+      ui.notifications?.error("Error auditing walls: " + (error instanceof Error ? error.message : String(error)));
+      return null;
+    }
+  }
+
+  /**
+   * Compare the current scene's walls with another scene's and show the differences
+   * @param sceneIdOrName The scene to compare with
+   * @returns The differences, or null if the comparison failed
+   */
+  static async diffWallsWithScene(sceneIdOrName: string, options: WallDiffOptions = {}): Promise<WallDiffReport | null> {
+    try {
+      const scenes = (game as Game).scenes;
+      const other = scenes?.get(sceneIdOrName) ?? scenes?.getName(sceneIdOrName);
+      if (!other) {
+        ui.notifications?.error(`Scene "${sceneIdOrName}" not found.`);
+        return null;
+      }
+
+      const walls = other.walls.map(wall => wall.toObject() as WallData);
+      return await this.compareWalls(walls, getSceneGeometry(other), `scene "${other.name}"`, options);
+    } catch (error) {
+      console.error("Wall diff error:", error);
+      ui.notifications?.error("Error comparing walls: " + (error instanceof Error ? error.message : String(error)));
+      return null;
+    }
+  }
+
+  /**
+   * Compare the current scene's walls with a wall file and show the differences
+   */
+  static diffWallsWithFile(options: WallDiffOptions = {}): void {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.json';
+    input.onchange = async (event: Event) => {
+      const file = (event.target as HTMLInputElement).files?.[0];
+      if (!file) return;
+
+      try {
+        // Files exported with scene information are lined up with this scene like another scene would be
+        const set = parseWallSet(await file.text());
+        await this.compareWalls(set.walls, set.scene ?? null, `file "${file.name}"`, options);
+      } catch (error) {
+        console.error("Wall diff error:", error);
+        ui.notifications?.error("Error comparing walls: " + (error instanceof Error ? error.message : String(error)));
+      }
+    };
+    input.click();
+  }
+
+  /**
+   * Compare the current scene's walls with a set of walls and show the differences
+   * @param walls The walls to compare with
+   * @param frame Padding and grid size of the scene the walls come from, or null if they are already in this scene's coordinates
+   * @param source Description of where the walls come from, for display
+   * @throws If there is no current scene
+   */
+  static async compareWalls(walls: WallData[], frame: WallDiffFrame | null, source: string, options: WallDiffOptions = {}): Promise<WallDiffReport> {
+    const scene = (game as Game).scenes?.current;
+    if (!scene) {
+      throw new Error("No active scene found.");
+    }
+
+    const report = validateWalls(walls);
+    if (report.rejected.length > 0) {
+      ui.notifications?.warn(`Skipping ${report.rejected.length} invalid walls in the ${source}.`);
+    }
+    const target = frame ? alignWalls(report.valid, frame, getSceneGeometry(scene)) : report.valid;
+    const current = scene.walls.map(wall => ({ id: wall.id as string, wall: wall.toObject() as WallData }));
+
+    const diff = diffWalls(current, target, options.tolerance ?? DEFAULT_DIFF_TOLERANCE, options.moveTolerance ?? DEFAULT_MOVE_TOLERANCE);
+    await WallDiffDialog.show(diff, { walls: target, source, options });
+    return diff;
+  }
+
+  /**
+   * Make the current scene match the compared walls for some differences
+   * @param entries The differences to apply, from a report of the current scene
+   * @returns True if the scene was changed
+   */
+  static async applyWallDiff(entries: WallDiffEntry[]): Promise<boolean> {
+    try {
+      const scene = (game as Game).scenes?.current;
+      if (!scene) {
+        ui.notifications?.error("No active scene found.");
+        return false;
+      }
+
+      // Skip walls deleted since the comparison
+      const plan = planWallDiff(entries);
+      const toDelete = plan.toDelete.filter(id => scene.walls.has(id));
+      const updates = plan.updates.filter(update => scene.walls.has(update._id));
+      if (plan.toCreate.length + toDelete.length + updates.length === 0) {
+        ui.notifications?.warn(entries.length > 0 ? "The selected differences need no changes." : "No changes selected.");
+        return false;
+      }
+
+      await this.checkpoint("Before applying wall diff");
+      if (plan.toCreate.length > 0) await this.createWalls(scene, plan.toCreate);
+      if (updates.length > 0) await this.updateWalls(scene, updates);
+      if (toDelete.length > 0) await this.deleteWalls(scene, toDelete);
+
+      // Differences that needed no update, or whose wall was deleted since the comparison
+      const skipped = entries.length - plan.toCreate.length - toDelete.length - updates.length;
+      ui.notifications?.info(`Applied changes: ${plan.toCreate.length} walls added, ${updates.length} updated, ${toDelete.length} removed`
+        + `${skipped > 0 ? `, ${skipped} skipped` : ""}.`);
+      return true;
+    } catch (error) {
+      console.error("Wall diff apply error:", error);
+      ui.notifications?.error("Error applying wall changes: " + (error instanceof Error ? error.message : String(error)));
+      return false;
+    }
+  }
+
+  /**
+   * Open the wall comparison window
+   */
+  static openWallDiff(): void {
+    WallDiffDialog.open();
+  }
+
+  /**
+   * Save a snapshot of the current scene's walls in the scene, to restore later
+   * @param name Name of the snapshot, defaulting to the date and time
+   * @returns The snapshot, or null if it could not be saved
+   */
+  static async snapshotWalls(name?: string): Promise<WallSnapshot | null> {
+    try {
+      const snapshot = await this.takeWallSnapshot(name?.trim() || `Snapshot ${new Date().toLocaleString()}`);
+      ui.notifications?.info(`Saved a snapshot of ${snapshot.wallCount} walls as "${snapshot.name}".`);
+      return snapshot;
+    } catch (error) {
+      console.error("Wall snapshot error:", error);
+      ui.notifications?.error("Error saving wall snapshot: " + (error instanceof Error ? error.message : String(error)));
+      return null;
+    }
+  }
+
+  /**
+   * Replace the current scene's walls with a snapshot's walls
+   * @param idOrName The snapshot's ID or name
+   * @param options.backup Snapshot the walls being replaced first (default true)
+   * @returns True if the walls were restored
+   */
+  static async restoreWallSnapshot(idOrName: string, options: { backup?: boolean } = {}): Promise<boolean> {
+    try {
+      const scene = (game as Game).scenes?.current;
+      if (!scene) {
+        ui.notifications?.error("No active scene found.");
+        return false;
+      }
+
+      const snapshot = WallSnapshots.find(scene, idOrName);
+      if (!snapshot) {
+        ui.notifications?.warn(`No wall snapshot named "${idOrName}" on this scene.`);
+        return false;
+      }
+
+      // Keep the current layout, so restoring can be undone by restoring again
+      if (options.backup ?? true) {
+        await this.takeWallSnapshot(`Before restoring "${snapshot.name}"`, true);
+      }
+
+      const walls = parseWallSet(snapshot.data).walls.map(wall => {
+        const { _id, ...wallData } = wall;
+        return wallData;
+      });
+      const existing = scene.walls.map(wall => wall.toObject() as WallData);
+
+      // Create the snapshot's walls first so a failed batch leaves the existing walls untouched
+      const createdIds = walls.length > 0 ? await this.createWalls(scene, walls) : [];
+      try {
+        if (existing.length > 0) await this.deleteWalls(scene, existing.map(wall => wall._id as string));
+      } catch (error) {
+        // Put the scene back as it was: remove the restored walls and recreate the ones already deleted
+        const restored = createdIds.filter(id => scene.walls.has(id));
+        if (restored.length > 0) await this.deleteWalls(scene, restored);
+        const deleted = existing
+          .filter(wall => !scene.walls.has(wall._id as string))
+          .map(({ _id, ...wallData }) => wallData);
+        if (deleted.length > 0) await this.createWalls(scene, deleted);
+        throw error;
+      }
+
+      ui.notifications?.info(`Restored ${walls.length} walls from "${snapshot.name}", replacing ${existing.length}.`);
+      return true;
+    } catch (error) {
+      console.error("Wall snapshot restore error:", error);
+      ui.notifications?.error("Error restoring wall snapshot: " + (error instanceof Error ? error.message : String(error)));
+      return false;
+    }
+  }
+
+  /**
+   * Delete a snapshot of the current scene
+   * @returns True if the snapshot was deleted
+   */
+  static async deleteWallSnapshot(idOrName: string): Promise<boolean> {
+    try {
+      const scene = (game as Game).scenes?.current;
+      const snapshot = scene ? WallSnapshots.find(scene, idOrName) : undefined;
+      if (!scene || !snapshot) {
+        ui.notifications?.warn(`No wall snapshot named "${idOrName}" on this scene.`);
+        return false;
+      }
+      await WallSnapshots.remove(scene, snapshot.id);
+      return true;
+    } catch (error) {
+      console.error("Wall snapshot delete error:", error);
+      ui.notifications?.error("Error deleting wall snapshot: " + (error instanceof Error ? error.message : String(error)));
+      return false;
+    }
+  }
+
+  /**
+   * Open the list of the current scene's wall snapshots
+   */
+  static openWallSnapshots(): void {
+    WallSnapshotDialog.open();
+  }
+
+  /**
+   * Store a scene's walls as a snapshot
+   * @param auto Whether the snapshot is taken automatically, making it the first to go when there are too many
+   * @param scene The scene to snapshot, defaulting to the current scene
+   * @throws If there is no scene or it can't be updated
+   */
+  private static async takeWallSnapshot(name: string, auto = false, scene: Scene | undefined = (game as Game).scenes?.current): Promise<WallSnapshot> {
+    if (!scene) {
+      throw new Error("No active scene found.");
+    }
+
+    const walls = this.getSelectedWalls(scene);
+    const snapshot: WallSnapshot = {
+      id: foundry.utils.randomID(),
+      name,
+      created: Date.now(),
+      wallCount: walls.length,
+      ...(auto ? { auto } : {}),
+      data: JSON.stringify(walls)
+    };
+
+    const removed = await WallSnapshots.add(scene, snapshot);
+    if (removed.length > 0) {
+      ModuleLogger.info(`Removed ${removed.length} old wall snapshots from ${scene.name}`);
+    }
+    return snapshot;
+  }
+
+  /**
+   * Snapshot a scene's walls before a change, if automatic snapshots are enabled
+   * @param scene The scene about to change, defaulting to the current scene
+   */
+  static async checkpoint(name: string, scene?: Scene): Promise<void> {
+    if (!WallSnapshots.automatic) return;
+    await this.takeWallSnapshot(name, true, scene);
+  }
+
+  /**
+   * Show warning about non-zero padding
+   * @param operation The operation being performed ("import" or "export")
+   * @returns True if user confirms to continue, false otherwise
+   */
+  private static async showPaddingWarning(operation: string): Promise<boolean> {
+    return new Promise((resolve) => {
+      const d = new Dialog({
+        title: "Scene Padding Warning",
+        content: `
+          <p>The current scene has non-zero padding. This can cause wall positions to be incorrect when ${operation}ing.</p>
+          <p>It is recommended to set the scene padding to 0 before ${operation}ing walls.</p>
+          <p>You can change the padding in the scene configuration settings.</p>
+        `,
+        buttons: {
+          continue: {
+            icon: '<i class="fas fa-exclamation-triangle"></i>',
+            label: `Continue ${operation} anyway`,
+            callback: () => resolve(true)
+          },
+          cancel: {
+            icon: '<i class="fas fa-times"></i>',
+            label: "Cancel",
+            callback: () => resolve(false)
+          }
+        },
+        default: "cancel"
+      });
+      d.render(true);
+    });
+  }
+
+  /**
+   * Copy the current scene's background image URL to clipboard
+   */
+  static async copySceneImageUrl(): Promise<void> {
+    try {
+      const scene = (game as Game).scenes?.viewed;
+      if (!scene) {
+        ui.notifications?.warn("No scene is currently viewed.");
+        return;
+      }
+
+      const imageUrl = (scene as any).background?.src;
+      if (!imageUrl) {
+        ui.notifications?.warn("The current scene has no background image.");
+        return;
       }
 
       // Prepend Foundry's base URL
@@ -391,240 +1652,606 @@ export class WallUtils {
   }
 
   /**
-   * Export all tiles in the current scene as a single image
+   * Send the current scene's background or tiles image to a local Auto-Wall instance and import the
+   * walls it detects
+   * @returns True if walls were created
    */
-  static async exportSceneTilesAsImage(): Promise<void> {
+  static async detectWallsWithAutoWall(options: AutoWallDetectOptions = {}): Promise<boolean> {
     try {
-      // Get the current scene
       const scene = (game as Game).scenes?.current;
       if (!scene) {
         ui.notifications?.error("No active scene found.");
-        return;
+        return false;
       }
 
-      // Check if there are any tiles
-      const tiles = scene.tiles.contents;
-      if (!tiles || tiles.length === 0) {
-        ui.notifications?.warn("The current scene has no tiles to export.");
-        return;
+      const settings = (game as Game).settings;
+      const url = (options.url ?? settings.get(moduleId, "autoWallUrl") as string).trim();
+      if (!url) {
+        ui.notifications?.warn("Set the Auto-Wall URL in the module settings to detect walls.");
+        return false;
       }
+      const timeout = options.timeout ?? settings.get(moduleId, "autoWallTimeout") as number;
+      const source = options.source ?? (getSceneBackgroundSrc(scene) ? "background" : "tiles");
 
-      // Create a canvas to combine all tiles
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
-      if (!ctx) {
-        ui.notifications?.error("Unable to create canvas context for tile export.");
-        return;
+      const progress = ProgressDialog.start("Detecting Walls");
+      const reporting = {
+        signal: progress.signal,
+        onProgress: progress.update.bind(progress)
+      };
+
+      let walls: WallData[];
+      try {
+        const image = await AutoWallBridge.prepareImage(scene, source, reporting);
+        if (!image) {
+          ui.notifications?.warn(source === "background"
+            ? "The current scene has no background image."
+            : "The current scene has no tiles to send.");
+          return false;
+        }
+
+        const detected = await AutoWallBridge.detect(url, image, scene, timeout * 1000, reporting);
+        walls = AutoWallBridge.toScene(detected, image, scene);
+      } finally {
+        await progress.finish();
       }
 
-      // Show progress notification
-      ui.notifications?.info(`Preparing to export ${tiles.length} tiles...`);
+      if (walls.length === 0) {
+        ui.notifications?.info("Auto-Wall found no walls.");
+        return false;
+      }
+      ui.notifications?.info(`Received ${walls.length} walls from Auto-Wall.`);
 
-      // Calculate the bounds of all tiles to determine canvas size
-      let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
-      
-      // First pass: determine canvas size based on all tile positions and dimensions
-      // This is more complex with rotation - we need to calculate the bounding box of rotated tiles
-      for (const tile of tiles) {
-        const tileData = (tile as any);
-        // Access properties safely with fallbacks
-        const tileWidth = tileData.width || tileData.document?.width || 0;
-        const tileHeight = tileData.height || tileData.document?.height || 0;
-        const tileX = tileData.x || tileData.document?.x || 0;
-        const tileY = tileData.y || tileData.document?.y || 0;
-        const rotation = tileData.rotation || tileData.document?.rotation || 0;
-        
-        // If no rotation, use simple bounds calculation
-        if (rotation === 0) {
-          minX = Math.min(minX, tileX);
-          minY = Math.min(minY, tileY);
-          maxX = Math.max(maxX, tileX + tileWidth);
-          maxY = Math.max(maxY, tileY + tileHeight);
-          continue;
+      return await this.processWallImport(JSON.stringify(walls), {
+        ...options,
+        preview: options.preview ?? settings.get(moduleId, "autoWallPreview") as boolean,
+        transform: {
+          ...options.transform,
+          applyPadding: true
         }
-        
-        // For rotated tiles, calculate the corners after rotation
-        // Convert rotation to radians (Foundry uses degrees)
-        const radians = (rotation * Math.PI) / 180;
-        
-        // Calculate the center of the tile (rotation pivot)
-        const centerX = tileX + tileWidth / 2;
-        const centerY = tileY + tileHeight / 2;
-        
-        // Calculate the four corners of the tile (relative to center)
-        const halfWidth = tileWidth / 2;
-        const halfHeight = tileHeight / 2;
-        
-        const corners = [
-          { x: -halfWidth, y: -halfHeight }, // top-left
-          { x: halfWidth, y: -halfHeight },  // top-right
-          { x: halfWidth, y: halfHeight },   // bottom-right
-          { x: -halfWidth, y: halfHeight }   // bottom-left
-        ];
-        
-        // Rotate each corner and find the new bounds
-        corners.forEach(corner => {
-          // Apply rotation matrix
-          const rotatedX = corner.x * Math.cos(radians) - corner.y * Math.sin(radians);
-          const rotatedY = corner.x * Math.sin(radians) + corner.y * Math.cos(radians);
-          
-          // Add center offset to get absolute position
-          const absoluteX = centerX + rotatedX;
-          const absoluteY = centerY + rotatedY;
-          
-          // Update bounds
-          minX = Math.min(minX, absoluteX);
-          minY = Math.min(minY, absoluteY);
-          maxX = Math.max(maxX, absoluteX);
-          maxY = Math.max(maxY, absoluteY);
+      });
+    } catch (error) {
+      if (isAbortError(error)) {
+        ui.notifications?.info("Wall detection cancelled.");
+        return false;
+      }
+      console.error("Auto-Wall detection error:", error);
+      ui.notifications?.error("Error detecting walls with Auto-Wall: " + (error instanceof Error ? error.message : String(error)));
+      return false;
+    }
+  }
+
+  /**
+   * Detect walls in the current scene's background or tiles image in the browser and import them
+   * @returns True if walls were created
+   */
+  static async detectWalls(options: WallDetectionOptions = {}): Promise<boolean> {
+    try {
+      const scene = (game as Game).scenes?.current;
+      if (!scene) {
+        ui.notifications?.error("No active scene found.");
+        return false;
+      }
+
+      const progress = ProgressDialog.start("Detecting Walls");
+      let walls: WallData[] | null;
+      try {
+        walls = await WallDetector.detect(scene, options, {
+          signal: progress.signal,
+          onProgress: progress.update.bind(progress)
         });
+      } finally {
+        await progress.finish();
       }
 
-      // Ensure we have valid dimensions (add 1px padding if needed)
-      if (maxX <= minX) maxX = minX + 1;
-      if (maxY <= minY) maxY = minY + 1;
-      
-      // Set canvas dimensions to contain all tiles
-      const canvasWidth = Math.ceil(maxX - minX);
-      const canvasHeight = Math.ceil(maxY - minY);
-      
-      // Check for excessively large canvas dimensions
-      const MAX_DIMENSION = 16384; // Most browsers' maximum canvas size
-      if (canvasWidth > MAX_DIMENSION || canvasHeight > MAX_DIMENSION) {
-        ui.notifications?.error(`Canvas size too large (${canvasWidth}x${canvasHeight}). Maximum supported dimensions are ${MAX_DIMENSION}x${MAX_DIMENSION}.`);
+      if (!walls) {
+        const source = options.source ?? (getSceneBackgroundSrc(scene) ? "background" : "tiles");
+        ui.notifications?.warn(source === "background"
+          ? "The current scene has no background image."
+          : "The current scene has no tiles to detect walls in.");
+        return false;
+      }
+      if (walls.length === 0) {
+        ui.notifications?.info("No walls were detected. Try another threshold or color.");
+        return false;
+      }
+      ui.notifications?.info(`Detected ${walls.length} walls.`);
+
+      return await this.processWallImport(JSON.stringify(walls), {
+        ...options,
+        transform: {
+          ...options.transform,
+          applyPadding: true
+        }
+      });
+    } catch (error) {
+      if (isAbortError(error)) {
+        ui.notifications?.info("Wall detection cancelled.");
+        return false;
+      }
+      console.error("Wall detection error:", error);
+      ui.notifications?.error("Error detecting walls: " + (error instanceof Error ? error.message : String(error)));
+      return false;
+    }
+  }
+
+  /**
+   * Export all tiles in the current scene as a single image, optionally scaled, cropped, in another
+   * format or over the scene background
+   */
+  static async exportSceneTilesAsImage(options: TileExportOptions = {}): Promise<void> {
+    try {
+      // Get the current scene
+      const scene = (game as Game).scenes?.current;
+      if (!scene) {
+        ui.notifications?.error("No active scene found.");
         return;
       }
-      
-      canvas.width = canvasWidth;
-      canvas.height = canvasHeight;
-      
-      // Fill with transparent background
-      ctx.clearRect(0, 0, canvasWidth, canvasHeight);
 
-      // Load and draw all tiles - using a more reliable approach
-      let loadedCount = 0;
-      let failedCount = 0;
-      
-      ui.notifications?.info(`Loading tile images...`);
-      
-      // Process tiles in sequence to ensure proper rendering order
-      for (const tile of tiles) {
-        try {
-          const tileData = (tile as any);
-          // Access key properties with fallbacks
-          const tileWidth = tileData.width || tileData.document?.width || 0;
-          const tileHeight = tileData.height || tileData.document?.height || 0;
-          const tileX = tileData.x || tileData.document?.x || 0;
-          const tileY = tileData.y || tileData.document?.y || 0;
-          const rotation = tileData.rotation || tileData.document?.rotation || 0;
-          
-          // Find the texture path
-          let textureSrc = null;
-          if (tileData.texture?.src) {
-            textureSrc = tileData.texture.src;
-          } else if (tileData.document?.texture?.src) {
-            textureSrc = tileData.document.texture.src;
-          } else if (tileData.img) {
-            textureSrc = tileData.img;
-          } else if (tileData.document?.img) {
-            textureSrc = tileData.document.img;
-          }
-          
-          if (!textureSrc) {
-            ModuleLogger.warn(`Tile doesn't have a valid texture source`);
-            failedCount++;
-            continue;
-          }
-          
-          // Load the image
-          await new Promise<void>((resolve) => {
-            const img = new Image();
-            img.crossOrigin = "anonymous";
-            
-            img.onload = () => {
-              try {
-                // Save the current canvas state
-                ctx.save();
-                
-                // Calculate center of tile (rotation pivot)
-                const centerX = tileX - minX + tileWidth / 2;
-                const centerY = tileY - minY + tileHeight / 2;
-                
-                // Move to the center, rotate, and move back
-                ctx.translate(centerX, centerY);
-                ctx.rotate((rotation * Math.PI) / 180); // Convert degrees to radians
-                ctx.translate(-centerX, -centerY);
-                
-                // Draw the image at its position, adjusted by the minimum bounds
-                ctx.drawImage(
-                  img,
-                  0, 0, img.width, img.height,
-                  tileX - minX, tileY - minY, tileWidth, tileHeight
-                );
-                
-                // Restore the canvas state
-                ctx.restore();
-                
-                loadedCount++;
-                resolve();
-              } catch (err) {
-                ModuleLogger.warn(`Error drawing tile image: ${err}`);
-                failedCount++;
-                resolve();
-              }
-            };
-            
-            img.onerror = () => {
-              ModuleLogger.warn(`Failed to load tile image: ${textureSrc}`);
-              failedCount++;
-              resolve();
-            };
-            
-            img.src = textureSrc;
-          });
-        } catch (err) {
-          ModuleLogger.warn(`Error processing tile: ${err}`);
-          failedCount++;
+      // Check if there are any tiles
+      const tiles = scene.tiles.contents;
+      if ((!tiles || tiles.length === 0) && !options.includeBackground) {
+        ui.notifications?.warn("The current scene has no tiles to export.");
+        return;
+      }
+
+      const region = this.getTileExportRegion(scene, options.crop);
+      const progress = ProgressDialog.start("Exporting Tiles");
+      const reporting = {
+        signal: progress.signal,
+        onProgress: progress.update.bind(progress)
+      };
+
+      let composite: TileComposite | null;
+      try {
+        if (options.chunkSize) {
+          await TileChunks.export(scene, {
+            region,
+            scale: options.scale,
+            chunkSize: options.chunkSize,
+            includeBackground: options.includeBackground,
+            layers: options.layers,
+            ...reporting
+          }, options.format, options.quality, options.backgroundColor);
+          return;
         }
+
+        composite = await TileCompositor.compose(scene, {
+          region,
+          scale: options.scale,
+          maxSize: options.maxSize,
+          includeBackground: options.includeBackground,
+          layers: options.layers,
+          ...reporting
+        });
+      } finally {
+        await progress.finish();
+      }
+      if (!composite) {
+        ui.notifications?.warn("No tiles match the export options.");
+        return;
       }
 
       // Status update before export
-      if (failedCount > 0) {
-        ui.notifications?.warn(`${failedCount} tiles could not be loaded or drawn.`);
+      if (composite.failedCount > 0) {
+        ui.notifications?.warn(`${composite.failedCount} tiles could not be loaded or drawn.`);
       }
       
       try {
         // Convert canvas to blob
-        const blob = await new Promise<Blob | null>((resolve) => {
-          canvas.toBlob(resolve, 'image/png');
-        });
+        let format = TILE_IMAGE_FORMATS[options.format ?? "png"];
+        const blob = await TileCompositor.toBlob(composite.canvas, format.type, options.quality, options.backgroundColor);
         
         if (!blob) {
           ui.notifications?.error("Failed to create image blob.");
           return;
         }
+
+        // Browsers fall back to PNG for formats they cannot encode
+        if (blob.type !== format.type) {
+          ui.notifications?.warn(`This browser cannot encode ${options.format?.toUpperCase()} images, exporting as PNG instead.`);
+          format = TILE_IMAGE_FORMATS.png;
+        }
         
         // Generate file name
         const sceneName = scene.name?.replace(/\s+/g, "_") || "scene";
-        const fileName = `${sceneName}_tiles.png`;
+        const fileName = `${sceneName}_tiles.${format.extension}`;
         
         // Create a File object
-        const file = new File([blob], fileName, { type: "image/png" });
+        const file = new File([blob], fileName, { type: format.type });
         
         // Create download link using FileSaver API
         const FileSaver = (await import('file-saver')).default;
         FileSaver.saveAs(file, fileName);
         
-        ui.notifications?.info(`Scene tiles exported successfully (${loadedCount} tiles).`);
+        ui.notifications?.info(`Scene tiles exported successfully (${composite.loadedCount} tiles, ${composite.canvas.width}x${composite.canvas.height}).`);
       } catch (exportErr) {
         console.error("Image export error:", exportErr);
         ui.notifications?.error(`Failed to export image: ${exportErr instanceof Error ? exportErr.message : String(exportErr)}`);
       }
     } catch (error) {
+      if (isAbortError(error)) {
+        ui.notifications?.info("Tile export cancelled.");
+        return;
+      }
       console.error("Error exporting scene tiles:", error);
       ui.notifications?.error("Error exporting scene tiles: " + (error instanceof Error ? error.message : String(error)));
     }
   }
+
+  /**
+   * Resolve a tile export crop option to a scene-space rectangle
+   * @returns The rectangle, or undefined to use the bounds of the tiles
+   * @throws If cropping to a drawing and no drawing is selected on the canvas
+   */
+  private static getTileExportRegion(scene: Scene, crop: TileExportOptions["crop"]): Rect | undefined {
+    if (!crop || crop === "tiles") return undefined;
+    if (crop === "scene") return getSceneRect(scene);
+    if (crop !== "drawing") return crop;
+
+    const board = canvas as any;
+    const drawing = board?.scene?.id === scene.id ? board.drawings.controlled[0] : undefined;
+    if (!drawing) {
+      throw new Error("Select a drawing on the canvas to crop the image to.");
+    }
+    return boundingRect(drawingToPolygon(drawing.document.toObject()));
+  }
+
+  /**
+   * Import walls traced on the chunks of a chunked tiles export, stitching them together at each chunk's offset
+   */
+  static importChunkWalls(options: WallImportOptions = {}): void {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.multiple = true;
+    input.accept = '.json,.zip,.dd2vtt,.uvtt,.df2vtt';
+    input.onchange = async (event: Event) => {
+      const target = event.target as HTMLInputElement;
+      const files = Array.from(target.files ?? []);
+      if (files.length === 0) return;
+
+      try {
+        await TileChunks.import(files, options);
+      } catch (error) {
+        console.error("Chunk wall import error:", error);
+        ui.notifications?.error("Error importing chunk walls: " + (error instanceof Error ? error.message : String(error)));
+      }
+    };
+    input.click();
+  }
+
+  /**
+   * Save walls of the current scene to the world's wall library under a name
+   * @param options Which walls and document types to save, as for exports
+   * @returns The saved entry, or null if nothing was saved
+   */
+  static async saveToWallLibrary(name: string, options: WallExportOptions = {}): Promise<WallLibraryEntry | null> {
+    try {
+      const scene = (game as Game).scenes?.current;
+      if (!scene) {
+        ui.notifications?.error("No active scene found.");
+        return null;
+      }
+      if (!name.trim()) {
+        ui.notifications?.warn("Enter a name for the wall set.");
+        return null;
+      }
+
+      // Library sets are placed by their bounds, so padding doesn't matter here
+      const data = await this.getWallsJson(options, false);
+      const { walls } = parseWallSet(data);
+      const bounds = wallSetBounds(walls);
+      if (!bounds) {
+        ui.notifications?.warn("Only wall sets with at least one wall can be saved.");
+        return null;
+      }
+
+      const entry: WallLibraryEntry = {
+        id: foundry.utils.randomID(),
+        name: name.trim(),
+        created: Date.now(),
+        data,
+        thumbnail: WallLibrary.createThumbnail(walls, bounds),
+        wallCount: walls.length,
+        bounds,
+        source: {
+          sceneId: scene.id,
+          sceneName: scene.name,
+          gridSize: getSceneGeometry(scene).gridSize
+        }
+      };
+      await WallLibrary.add(entry);
+
+      ui.notifications?.info(`Saved ${walls.length} walls to the wall library as "${entry.name}".`);
+      return entry;
+    } catch (error) {
+      console.error("Wall library save error:", error);
+      ui.notifications?.error("Error saving to the wall library: " + (error instanceof Error ? error.message : String(error)));
+      return null;
+    }
+  }
+
+  /**
+   * Stamp a wall set from the library into the current scene. The set is scaled to the scene's grid
+   * unless a scale or source grid size is given.
+   * @param idOrName The set's ID or name
+   * @returns True if walls were created
+   */
+  static async stampFromWallLibrary(idOrName: string, options: WallStampOptions = {}): Promise<boolean> {
+    try {
+      const scene = (game as Game).scenes?.current;
+      if (!scene) {
+        ui.notifications?.error("No active scene found.");
+        return false;
+      }
+
+      const entry = WallLibrary.find(idOrName);
+      if (!entry) {
+        ui.notifications?.error(`No wall set named "${idOrName}" in the wall library.`);
+        return false;
+      }
+
+      return await this.stampWallSet(scene, parseWallSet(entry.data), entry.bounds, entry.source.gridSize, options);
+    } catch (error) {
+      console.error("Wall library stamp error:", error);
+      ui.notifications?.error("Error stamping wall set: " + (error instanceof Error ? error.message : String(error)));
+      return false;
+    }
+  }
+
+  /**
+   * Stamp walls read from the clipboard into the current scene, placing them with the mouse
+   * unless another position is given
+   */
+  static async stampWallsFromClipboard(options: WallStampOptions = {}): Promise<boolean> {
+    try {
+      const text = await navigator.clipboard.readText();
+      return await this.stampWalls(text, options);
+    } catch (error) {
+      ui.notifications?.error("Failed to read clipboard: " + (error instanceof Error ? error.message : String(error)));
+      console.error("Clipboard read error:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Stamp walls from a file into the current scene, placing them with the mouse unless another
+   * position is given
+   */
+  static stampWallsFromFile(options: WallStampOptions = {}): void {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.json,.dd2vtt,.uvtt,.df2vtt,.svg';
+    input.onchange = async (event: Event) => {
+      const file = (event.target as HTMLInputElement).files?.[0];
+      if (!file) return;
+      await this.stampWalls(await file.text(), options);
+    };
+    input.click();
+  }
+
+  /**
+   * Stamp a wall set into the current scene. Unlike an import, the walls are placed by their bounds
+   * rather than their coordinates: by default they follow the mouse until clicked into place.
+   * @param text Walls in any format processWallImport reads
+   * @returns True if walls were created
+   */
+  static async stampWalls(text: string, options: WallStampOptions = {}): Promise<boolean> {
+    try {
+      const scene = (game as Game).scenes?.current;
+      if (!scene) {
+        ui.notifications?.error("No active scene found.");
+        return false;
+      }
+
+      // Universal VTT and SVG walls become a plain wall set; Universal VTT files also know their grid size
+      let set: WallSet;
+      let sourceGridSize = 0;
+      const data = isSvg(text) ? svgToWalls(text, options.curveTolerance ?? 1) : JSON.parse(text);
+      if (isUniversalVtt(data)) {
+        const converted = universalVttToWalls(data);
+        set = { walls: converted.walls, documents: [] };
+        sourceGridSize = converted.pixelsPerGrid;
+      } else {
+        set = parseWallSet(JSON.stringify(data));
+        sourceGridSize = set.scene?.gridSize ?? 0;
+      }
+      if (options.documentTypes) {
+        const types = options.documentTypes;
+        set = {
+          ...set,
+          walls: types.includes("Wall") ? set.walls : [],
+          documents: set.documents.filter(([type]) => types.includes(type))
+        };
+      }
+
+      const bounds = wallSetBounds(set.walls);
+      if (!bounds) {
+        ui.notifications?.error("No walls found to stamp.");
+        return false;
+      }
+
+      return await this.stampWallSet(scene, set, bounds, sourceGridSize, { position: "cursor", ...options });
+    } catch (error) {
+      console.error("Wall stamp error:", error);
+      ui.notifications?.error("Error stamping walls: " + (error instanceof Error ? error.message : String(error)));
+      return false;
+    }
+  }
+
+  /**
+   * Place a wall set and import it
+   * @param bounds The set's bounds before placement
+   * @param sourceGridSize Grid size the set was made for, or 0 if unknown
+   * @returns True if walls were created
+   */
+  private static async stampWallSet(scene: Scene, set: WallSet, bounds: Rect, sourceGridSize: number, options: WallStampOptions): Promise<boolean> {
+    let placement: WallSetPlacement | null = this.getStampPlacement(scene, bounds, sourceGridSize, options);
+    if (options.position === "cursor") {
+      placement = await WallStamp.place(set, bounds, placement, options.snap ?? true);
+      if (!placement) {
+        ui.notifications?.info("Wall stamp cancelled.");
+        return false;
+      }
+    }
+
+    // The import adds the padding back, so move the walls relative to the scene image without a padding warning
+    const { sceneX, sceneY } = getSceneGeometry(scene);
+    const placed = placeWallSet(set, bounds, { ...placement, x: placement.x - sceneX, y: placement.y - sceneY });
+
+    return await this.processWallImport(serializeWallSet(placed), {
+      ...options,
+      // Walls placed with the mouse have already been seen where they will go
+      preview: options.preview ?? (options.position === "cursor" ? false : undefined),
+      transform: { applyPadding: true }
+    });
+  }
+
+  /**
+   * Resolve stamp options into a placement in scene coordinates
+   * @param bounds The set's bounds before placement
+   * @param sourceGridSize Grid size the set was made for, or 0 to keep its size
+   */
+  static getStampPlacement(scene: Scene, bounds: Rect, sourceGridSize: number, options: WallStampOptions = {}): WallSetPlacement {
+    const transform = options.transform ?? {};
+    const geometry = getSceneGeometry(scene);
+
+    let scale = sourceGridSize > 0 ? geometry.gridSize / sourceGridSize : 1;
+    if (transform.scale && transform.scale > 0) {
+      scale = transform.scale;
+    } else if (transform.sourceGridSize && transform.sourceGridSize > 0) {
+      scale = geometry.gridSize / transform.sourceGridSize;
+    }
+    const rotation = normalizeRotation(transform.rotation ?? 0);
+    const size = placedSize(bounds, { scale, rotation });
+
+    let { x, y } = bounds;
+    if (options.position === "view") {
+      const pivot = (canvas as any)?.stage?.pivot ?? { x: geometry.width / 2, y: geometry.height / 2 };
+      x = pivot.x - size.width / 2;
+      y = pivot.y - size.height / 2;
+    } else if (typeof options.position === "object") {
+      ({ x, y } = options.position);
+    }
+
+    return {
+      x: Math.round(x + (transform.offsetX ?? 0)),
+      y: Math.round(y + (transform.offsetY ?? 0)),
+      scale,
+      rotation,
+      flipX: !!transform.flipX,
+      flipY: !!transform.flipY
+    };
+  }
+
+  /**
+   * Open the wall library browser
+   */
+  static openWallLibrary(): void {
+    WallLibraryDialog.open();
+  }
+
+  /**
+   * Export the current scene's walls, lights, tiles image and background as a single zip
+   */
+  static async exportSceneBundle(): Promise<void> {
+    try {
+      const scene = (game as Game).scenes?.current;
+      if (!scene) {
+        ui.notifications?.error("No active scene found.");
+        return;
+      }
+      await SceneBundle.export(scene);
+    } catch (error) {
+      console.error("Scene bundle export error:", error);
+      ui.notifications?.error("Error exporting scene bundle: " + (error instanceof Error ? error.message : String(error)));
+    }
+  }
+
+  /**
+   * Export the walls of several scenes, or of every scene in a folder, into one zip with a file per scene
+   * @returns True if the zip was downloaded
+   */
+  static async exportScenes(options: SceneBatchExportOptions = {}): Promise<boolean> {
+    try {
+      const scenes = SceneBatch.resolveScenes(options);
+      if (scenes.length === 0) {
+        ui.notifications?.warn("No scenes selected to export.");
+        return false;
+      }
+
+      const folder = options.folder ? SceneBatch.folders.find(folder => folder.id === options.folder) : undefined;
+      const name = folder?.path.split("/").pop() ?? (scenes.length === 1 ? scenes[0].name ?? "scene" : "scenes");
+
+      const progress = ProgressDialog.start("Exporting Scenes");
+      try {
+        await SceneBatch.export(scenes, name, options, {
+          signal: progress.signal,
+          onProgress: progress.update.bind(progress)
+        });
+      } finally {
+        await progress.finish();
+      }
+      return true;
+    } catch (error) {
+      if (isAbortError(error)) {
+        ui.notifications?.info("Scene export cancelled.");
+        return false;
+      }
+      console.error("Scene export error:", error);
+      ui.notifications?.error("Error exporting scenes: " + (error instanceof Error ? error.message : String(error)));
+      return false;
+    }
+  }
+
+  /**
+   * Import a multi-scene export zip into the matching scenes of this world
+   */
+  static importScenes(options: SceneBatchImportOptions = {}): void {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.zip';
+    input.onchange = async (event: Event) => {
+      const file = (event.target as HTMLInputElement).files?.[0];
+      if (!file) return;
+
+      try {
+        await SceneBatch.import(file, options);
+      } catch (error) {
+        console.error("Scene import error:", error);
+        ui.notifications?.error("Error importing scenes: " + (error instanceof Error ? error.message : String(error)));
+      }
+    };
+    input.click();
+  }
+
+  /**
+   * Open the multi-scene export and import window
+   */
+  static openSceneBatch(): void {
+    new SceneBatchDialog().render(true);
+  }
+
+  /**
+   * Import a scene bundle zip into the current scene
+   */
+  static importSceneBundle(options: BundleImportOptions = {}): void {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.zip';
+    input.onchange = async (event: Event) => {
+      const target = event.target as HTMLInputElement;
+      const file = target.files?.[0];
+      if (!file) return;
+
+      try {
+        await SceneBundle.import(file, options);
+      } catch (error) {
+        console.error("Scene bundle import error:", error);
+        ui.notifications?.error("Error importing scene bundle: " + (error instanceof Error ? error.message : String(error)));
+      }
+    };
+    input.click();
+  }
 }
 
 /**
@@ -0,0 +1,88 @@
+import { moduleId } from './constants';
+
+/**
+ * Dialog showing the progress of a long-running operation, with a button to cancel it
+ */
+export class ProgressDialog extends Dialog {
+  private readonly controller: AbortController;
+  private readonly state: { finished: boolean };
+
+  constructor(title: string) {
+    const controller = new AbortController();
+    const state = { finished: false };
+
+    super(
+      {
+        title,
+        content: `
+          <div class="progress-status">
+            <p class="progress-label">Starting...</p>
+            <progress value="0" max="1"></progress>
+          </div>
+        `,
+        buttons: {
+          cancel: {
+            icon: '<i class="fas fa-times"></i>',
+            label: "Cancel",
+            callback: () => controller.abort()
+          }
+        },
+        default: "cancel",
+        // Closing the window cancels too, unless the operation already finished
+        close: () => {
+          if (!state.finished) controller.abort();
+        }
+      },
+      {
+        // Several operations can run at once, each with its own window
+        id: `${moduleId}-progress-dialog-${foundry.utils.randomID()}`,
+        classes: ["auto-wall-dialog"],
+        width: 360
+      }
+    );
+
+    this.controller = controller;
+    this.state = state;
+  }
+
+  /**
+   * Open a progress dialog
+   */
+  static start(title: string): ProgressDialog {
+    const dialog = new ProgressDialog(title);
+    dialog.render(true);
+    return dialog;
+  }
+
+  override activateListeners(html: JQuery): void {
+    super.activateListeners(html);
+    // The operation may finish before the dialog has rendered
+    if (this.state.finished) this.close();
+  }
+
+  /**
+   * Aborted when the user cancels
+   */
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  /**
+   * Show the current stage and how far along it is
+   */
+  update(stage: string, done: number, total: number): void {
+    const element = this.element?.find('.progress-status');
+    if (!element?.length) return;
+
+    element.find('.progress-label').text(total > 0 ? `${stage} (${done} / ${total})` : stage);
+    element.find('progress').attr({ value: done, max: Math.max(total, 1) });
+  }
+
+  /**
+   * Close the dialog once the operation has finished or failed
+   */
+  async finish(): Promise<void> {
+    this.state.finished = true;
+    await this.close();
+  }
+}
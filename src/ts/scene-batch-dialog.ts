@@ -0,0 +1,132 @@
+import { moduleId } from './constants';
+import { WallUtils } from './module';
+import { SceneBatch, SceneBatchExportOptions } from './scene-batch';
+import { escapeHtml } from './utils/html';
+
+/**
+ * Window for choosing scenes, or a scene folder, to export together and for importing such exports
+ */
+export class SceneBatchDialog extends Dialog {
+  /**
+   * Options entered in the dialog, kept for the next time it opens
+   */
+  private static options: SceneBatchExportOptions = {};
+
+  constructor() {
+    super(
+      {
+        title: "Export/Import Multiple Scenes",
+        content: SceneBatchDialog.buildContent(),
+        buttons: {
+          export: {
+            icon: '<i class="fas fa-file-export"></i>',
+            label: "Export Selected",
+            callback: (html) => {
+              WallUtils.exportScenes(SceneBatchDialog.readOptions($(html as HTMLElement)));
+            }
+          },
+          import: {
+            icon: '<i class="fas fa-file-import"></i>',
+            label: "Import Zip",
+            callback: () => WallUtils.importScenes()
+          },
+          cancel: {
+            icon: '<i class="fas fa-times"></i>',
+            label: "Cancel"
+          }
+        },
+        default: "export"
+      },
+      {
+        id: `${moduleId}-scene-batch-dialog`,
+        classes: ["auto-wall-dialog"],
+        width: 460,
+        resizable: true
+      }
+    );
+  }
+
+  /**
+   * Build the dialog HTML
+   */
+  private static buildContent(): string {
+    const options = SceneBatchDialog.options;
+    const selected = new Set(options.scenes ?? []);
+    const scenes = ((game as Game).scenes?.contents ?? [])
+      .map(scene => {
+        const folder = (scene as any).folder as Folder | null;
+        return { scene, folder: folder ? SceneBatch.folderPath(folder) : "" };
+      })
+      .sort((a, b) => a.folder.localeCompare(b.folder) || (a.scene.name ?? "").localeCompare(b.scene.name ?? ""));
+
+    const rows = scenes.map(({ scene, folder }) => `
+      <li>
+        <label class="checkbox">
+          <input type="checkbox" name="scene" value="${scene.id}" ${selected.has(scene.id as string) ? "checked" : ""}>
+          ${escapeHtml(scene.name ?? "")}
+          ${folder ? `<span class="hint">${escapeHtml(folder)}</span>` : ""}
+        </label>
+      </li>
+    `).join("");
+
+    return `
+      <div class="form-group">
+        <label>Select folder</label>
+        <select name="folder">
+          <option value="">All scenes</option>
+          ${SceneBatch.folders.map(folder => `<option value="${folder.id}" ${folder.id === options.folder ? "selected" : ""}>${escapeHtml(folder.path)}</option>`).join("")}
+        </select>
+        <button type="button" class="select-folder"><i class="fas fa-check-double"></i> Select</button>
+        <button type="button" class="select-none"><i class="fas fa-times"></i> None</button>
+      </div>
+      <ul class="batch-scenes">${rows}</ul>
+      <div class="form-group">
+        <label>Include tiles images</label>
+        <input type="checkbox" name="includeTiles" ${options.includeTiles ? "checked" : ""}>
+      </div>
+      <div class="form-group">
+        <label>Max tiles image size (px)</label>
+        <input type="number" name="tilesMaxSize" value="${options.tilesMaxSize ?? ""}" step="1" min="1" placeholder="Full size">
+      </div>
+      <p class="hint">Every scene in the chosen folder is exported along with the checked scenes, and the zip is named after the folder.
+        Each scene's walls, and its tiles rendered into one PNG if chosen, go into a directory of the zip.
+        Import the zip into another world to restore them into the scenes with the same ID or name.</p>
+    `;
+  }
+
+  /**
+   * Read the chosen scenes, folder and options
+   */
+  private static readOptions(html: JQuery): SceneBatchExportOptions {
+    const maxSize = parseInt(html.find('[name="tilesMaxSize"]').val() as string);
+    const options: SceneBatchExportOptions = {
+      scenes: html.find('[name="scene"]:checked').toArray().map(input => (input as HTMLInputElement).value),
+      folder: html.find('[name="folder"]').val() as string || undefined,
+      includeTiles: html.find('[name="includeTiles"]').is(':checked'),
+      tilesMaxSize: Number.isFinite(maxSize) && maxSize > 0 ? maxSize : undefined
+    };
+    SceneBatchDialog.options = options;
+
+    return options;
+  }
+
+  /**
+   * @override
+   */
+  override activateListeners(html: JQuery) {
+    super.activateListeners(html);
+
+    html.find('.select-folder').on('click', () => {
+      const folderId = html.find('[name="folder"]').val() as string;
+      html.find('[name="scene"]').each((_, element) => {
+        const input = element as HTMLInputElement;
+        const scene = (game as Game).scenes?.get(input.value);
+        if (!folderId || (scene && SceneBatch.isInFolder(scene, folderId))) input.checked = true;
+      });
+    });
+
+    html.find('.select-none').on('click', () => {
+      html.find('[name="scene"]').prop('checked', false);
+    });
+  }
+}
@@ -0,0 +1,116 @@
+import { moduleId } from './constants';
+import { WallImportMode } from './types';
+import { escapeHtml } from './utils/html';
+import { SceneBatchEntry } from './utils/scene-batch';
+
+/**
+ * The scenes chosen for a multi-scene import
+ */
+export interface SceneBatchImportPlan {
+  /** World scene ID for each exported scene, or null to skip it */
+  targets: (string | null)[];
+  mode: WallImportMode;
+}
+
+/**
+ * Dialog matching the scenes of a multi-scene export to the scenes of this world before importing
+ */
+export class SceneBatchImportDialog extends Dialog {
+  constructor(entries: SceneBatchEntry[], targets: (string | null)[], mode: WallImportMode, resolve: (plan: SceneBatchImportPlan | null) => void) {
+    super(
+      {
+        title: "Import Multiple Scenes",
+        content: SceneBatchImportDialog.buildContent(entries, targets, mode),
+        buttons: {
+          import: {
+            icon: '<i class="fas fa-check"></i>',
+            label: "Import",
+            callback: (html) => resolve(SceneBatchImportDialog.readPlan($(html as HTMLElement), entries.length))
+          },
+          cancel: {
+            icon: '<i class="fas fa-times"></i>',
+            label: "Cancel",
+            callback: () => resolve(null)
+          }
+        },
+        default: "import",
+        close: () => resolve(null)
+      },
+      {
+        id: `${moduleId}-scene-batch-import-dialog`,
+        classes: ["auto-wall-dialog"],
+        width: 520,
+        resizable: true
+      }
+    );
+  }
+
+  /**
+   * Show the matches and wait for the user to correct them and import, or cancel
+   * @param targets The world scene initially chosen for each exported scene
+   * @returns The chosen scenes and import mode, or null if cancelled
+   */
+  static review(entries: SceneBatchEntry[], targets: (string | null)[], mode: WallImportMode): Promise<SceneBatchImportPlan | null> {
+    return new Promise((resolve) => {
+      new SceneBatchImportDialog(entries, targets, mode, resolve).render(true);
+    });
+  }
+
+  /**
+   * Build the dialog HTML
+   */
+  private static buildContent(entries: SceneBatchEntry[], targets: (string | null)[], mode: WallImportMode): string {
+    const scenes = [...((game as Game).scenes?.contents ?? [])].sort((a, b) => (a.name ?? "").localeCompare(b.name ?? ""));
+    const unmatched = targets.filter(target => !target).length;
+
+    const rows = entries.map((entry, index) => {
+      const target = targets[index];
+      const options = scenes
+        .map(scene => `<option value="${scene.id}" ${scene.id === target ? "selected" : ""}>${escapeHtml(scene.name ?? "")}</option>`)
+        .join("");
+      const folder = entry.folder ? `${escapeHtml(entry.folder)}, ` : "";
+
+      return `
+        <li class="batch-entry ${target ? "" : "unmatched"}">
+          <div class="details">
+            <strong>${escapeHtml(entry.name ?? "Unnamed scene")}</strong>
+            <span class="hint">${folder}${entry.counts.walls} walls${entry.files.tiles ? ", tiles image" : ""}</span>
+          </div>
+          <select name="target-${index}">
+            <option value="">Skip</option>
+            ${options}
+          </select>
+        </li>
+      `;
+    }).join("");
+
+    return `
+      <p>${entries.length} scenes in the export.
+        ${unmatched > 0
+          ? `${unmatched} have no scene with the same ID or name in this world; choose one or skip them.`
+          : "Every scene matched a scene in this world by ID or name."}</p>
+      <ul class="batch-entries">${rows}</ul>
+      <div class="form-group">
+        <label>Existing walls</label>
+        <select name="mode">
+          <option value="append" ${mode === "append" ? "selected" : ""}>Append</option>
+          <option value="replace" ${mode === "replace" ? "selected" : ""}>Replace</option>
+          <option value="merge" ${mode === "merge" ? "selected" : ""}>Merge</option>
+        </select>
+      </div>
+      <p class="hint">Walls are lined up with each scene's padding and grid size. Every scene's import can be undone on that scene.</p>
+    `;
+  }
+
+  /**
+   * Read the chosen scenes and mode
+   */
+  private static readPlan(html: JQuery, count: number): SceneBatchImportPlan {
+    const targets = Array.from({ length: count }, (_, index) =>
+      (html.find(`[name="target-${index}"]`).val() as string) || null);
+    return {
+      targets,
+      mode: html.find('[name="mode"]').val() as WallImportMode
+    };
+  }
+}
@@ -0,0 +1,294 @@
+import type JSZip from 'jszip';
+import { moduleId } from './constants';
+import { WallUtils } from './module';
+import { SceneBatchImportDialog } from './scene-batch-import-dialog';
+import { TileCompositor } from './tile-compositor';
+import { WallData, WallImportOptions } from './types';
+import { throwIfAborted } from './utils/concurrency';
+import { ModuleLogger } from './utils/logger';
+import { getSceneGeometry } from './utils/scene';
+import {
+  isSceneBatchManifest,
+  matchBatchScenes,
+  SCENE_BATCH_FORMAT,
+  SCENE_BATCH_MANIFEST,
+  SCENE_BATCH_VERSION,
+  sceneBatchDirectory,
+  SceneBatchEntry,
+  SceneBatchManifest
+} from './utils/scene-batch';
+import { alignWalls } from './utils/wall-diff';
+import { applyMappingRules } from './utils/wall-mapping';
+import { validateWalls } from './utils/wall-validation';
+import { WallMappingPresets } from './wall-mapping-presets';
+
+/**
+ * Options for exporting the walls of several scenes into one zip
+ */
+export interface SceneBatchExportOptions {
+  /** IDs or names of the scenes to export */
+  scenes?: string[];
+  /** ID or name of a scene folder; its scenes and those of its subfolders are exported */
+  folder?: string;
+  /** Also render each scene's tiles into a PNG (defaults to false) */
+  includeTiles?: boolean;
+  /** Downscale tiles images so neither side exceeds this many pixels */
+  tilesMaxSize?: number;
+}
+
+/**
+ * Options for importing a multi-scene export
+ */
+export interface SceneBatchImportOptions extends Pick<WallImportOptions, "mode" | "tolerance" | "mapping"> {
+  /**
+   * Show the exported scenes and the world scenes they will be imported into, to fix mismatches before
+   * importing (defaults to true). Without it, scenes that match no world scene are skipped.
+   */
+  review?: boolean;
+}
+
+/**
+ * Cancellation and progress reporting for a multi-scene export
+ */
+export interface SceneBatchReporting {
+  signal?: AbortSignal;
+  onProgress?: (stage: string, done: number, total: number) => void;
+}
+
+/**
+ * A scene folder, with its full path for display
+ */
+export interface SceneFolder {
+  id: string;
+  path: string;
+}
+
+/**
+ * Exports the walls of many scenes into one zip with a file per scene, and imports them back into
+ * the matching scenes of a world
+ */
+export class SceneBatch {
+  /**
+   * Every scene folder in the world, sorted by path
+   */
+  static get folders(): SceneFolder[] {
+    return ((game as Game).folders?.contents ?? [])
+      .filter(folder => ((folder as any).type ?? (folder as any).data?.type) === "Scene")
+      .map(folder => ({ id: folder.id as string, path: this.folderPath(folder) }))
+      .sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  /**
+   * The folder path of a folder, e.g. "Act 1/Dungeons"
+   */
+  static folderPath(folder: Folder | null): string {
+    const names: string[] = [];
+    for (let current: any = folder; current; current = this.parentFolder(current)) {
+      names.unshift(current.name);
+    }
+    return names.join("/");
+  }
+
+  /**
+   * The parent of a folder, handling both the v9 `parentFolder` and v10+ `folder` fields
+   */
+  private static parentFolder(folder: any): Folder | null {
+    return folder?.folder ?? folder?.parentFolder ?? null;
+  }
+
+  /**
+   * Whether a scene is in a folder or one of its subfolders
+   */
+  static isInFolder(scene: Scene, folderId: string): boolean {
+    for (let current: any = (scene as any).folder; current; current = this.parentFolder(current)) {
+      if (current.id === folderId) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Find the scenes an export covers: the scenes named, then those in the folder
+   * @throws If a scene or the folder doesn't exist
+   */
+  static resolveScenes(options: SceneBatchExportOptions): Scene[] {
+    const world = (game as Game).scenes;
+    const scenes = new Map<string, Scene>();
+
+    for (const idOrName of options.scenes ?? []) {
+      const scene = world?.get(idOrName) ?? world?.getName(idOrName);
+      if (!scene) {
+        throw new Error(`Scene "${idOrName}" not found.`);
+      }
+      scenes.set(scene.id as string, scene);
+    }
+
+    if (options.folder) {
+      const folder = this.folders.find(folder => folder.id === options.folder)
+        ?? this.folders.find(folder => folder.path.toLowerCase() === options.folder?.toLowerCase()
+          || folder.path.split("/").pop()?.toLowerCase() === options.folder?.toLowerCase());
+      if (!folder) {
+        throw new Error(`Scene folder "${options.folder}" not found.`);
+      }
+      for (const scene of world?.contents ?? []) {
+        if (this.isInFolder(scene, folder.id)) scenes.set(scene.id as string, scene);
+      }
+    }
+
+    return [...scenes.values()];
+  }
+
+  /**
+   * Export the walls of several scenes, and optionally their tiles images, as one zip with a
+   * directory per scene
+   * @param name Base name of the downloaded zip
+   * @throws An AbortError if cancelled through the reporting signal
+   */
+  static async export(scenes: Scene[], name: string, options: SceneBatchExportOptions = {}, reporting: SceneBatchReporting = {}): Promise<void> {
+    const JSZip = (await import('jszip')).default;
+    const zip = new JSZip();
+    const entries: SceneBatchEntry[] = [];
+    let tilesFailed = 0;
+
+    for (const [index, scene] of scenes.entries()) {
+      throwIfAborted(reporting.signal);
+      reporting.onProgress?.(`Exporting ${scene.name}`, index, scenes.length);
+
+      const directory = sceneBatchDirectory(index, scene.name);
+      const walls = scene.walls.map(wall => wall.toObject());
+      const folder = (scene as any).folder as Folder | null;
+      const entry: SceneBatchEntry = {
+        id: scene.id,
+        name: scene.name,
+        folder: folder ? this.folderPath(folder) : null,
+        geometry: getSceneGeometry(scene),
+        files: { walls: `${directory}/walls.json` },
+        counts: { walls: walls.length }
+      };
+      zip.file(entry.files.walls, JSON.stringify(walls, null, 2));
+
+      // A failed tiles image shouldn't stop the rest of the export
+      if (options.includeTiles && scene.tiles.size > 0) {
+        try {
+          const composite = await TileCompositor.compose(scene, { maxSize: options.tilesMaxSize, signal: reporting.signal });
+          const blob = composite ? await TileCompositor.toBlob(composite.canvas, 'image/png') : null;
+          if (composite && blob) {
+            entry.files.tiles = `${directory}/tiles.png`;
+            entry.tiles = { x: composite.x, y: composite.y, width: composite.width, height: composite.height };
+            zip.file(entry.files.tiles, blob);
+          }
+        } catch (err) {
+          throwIfAborted(reporting.signal);
+          ModuleLogger.warn(`Skipping tiles image of ${scene.name}: ${err}`);
+          tilesFailed++;
+        }
+      }
+
+      entries.push(entry);
+    }
+
+    const manifest: SceneBatchManifest = {
+      format: SCENE_BATCH_FORMAT,
+      version: SCENE_BATCH_VERSION,
+      moduleVersion: ((game as Game).modules.get(moduleId) as any)?.version ?? "",
+      foundryVersion: (game as Game).version,
+      created: new Date().toISOString(),
+      scenes: entries
+    };
+    zip.file(SCENE_BATCH_MANIFEST, JSON.stringify(manifest, null, 2));
+
+    reporting.onProgress?.("Compressing", scenes.length, scenes.length);
+    const blob = await zip.generateAsync({ type: "blob" });
+    throwIfAborted(reporting.signal);
+    const FileSaver = (await import('file-saver')).default;
+    FileSaver.saveAs(blob, `${name.replace(/\s+/g, "_")}_walls.zip`);
+
+    if (tilesFailed > 0) {
+      ui.notifications?.warn(`Tiles of ${tilesFailed} scenes could not be exported and were left out.`);
+    }
+    const wallCount = entries.reduce((total, entry) => total + entry.counts.walls, 0);
+    ui.notifications?.info(`Exported ${wallCount} walls from ${entries.length} scenes.`);
+  }
+
+  /**
+   * Import a multi-scene export into the scenes of this world. Scenes are matched by ID, then by
+   * name, and the matches can be reviewed and corrected before anything is created. A scene that
+   * fails to import is reported and the others are still imported.
+   * @returns The number of scenes walls were imported into
+   */
+  static async import(file: Blob, options: SceneBatchImportOptions = {}): Promise<number> {
+    const JSZip = (await import('jszip')).default;
+    const zip = await JSZip.loadAsync(file);
+
+    const manifestFile = zip.file(SCENE_BATCH_MANIFEST);
+    const manifest = manifestFile ? JSON.parse(await manifestFile.async("string")) : null;
+    if (!isSceneBatchManifest(manifest)) {
+      throw new Error("Not a multi-scene export: the manifest is missing or unrecognized.");
+    }
+    if (manifest.version > SCENE_BATCH_VERSION) {
+      ModuleLogger.warn(`Multi-scene export version ${manifest.version} is newer than supported version ${SCENE_BATCH_VERSION}`);
+    }
+
+    const worldScenes = (game as Game).scenes?.contents ?? [];
+    let targets = matchBatchScenes(manifest.scenes, worldScenes.map(scene => ({ id: scene.id, name: scene.name })));
+    let mode = options.mode ?? "append";
+
+    if (options.review ?? true) {
+      const reviewed = await SceneBatchImportDialog.review(manifest.scenes, targets, mode);
+      if (!reviewed) {
+        ui.notifications?.info("Scene import cancelled.");
+        return 0;
+      }
+      ({ targets, mode } = reviewed);
+    }
+
+    const rules = WallMappingPresets.resolve(options.mapping);
+    const failed: string[] = [];
+    let imported = 0;
+    let skipped = 0;
+
+    for (const [index, entry] of manifest.scenes.entries()) {
+      const scene = targets[index] ? (game as Game).scenes?.get(targets[index] as string) : undefined;
+      if (!scene) {
+        skipped++;
+        continue;
+      }
+
+      // One bad scene shouldn't stop the others, since earlier scenes have already changed
+      try {
+        const report = validateWalls(JSON.parse(await this.readFile(zip, entry.files.walls)));
+        if (report.rejected.length > 0) {
+          ui.notifications?.warn(`Skipping ${report.rejected.length} invalid walls for ${scene.name}.`);
+        }
+
+        // Line the walls up with the target scene, which may have other padding or grid size
+        let walls: WallData[] = alignWalls(report.valid, entry.geometry, getSceneGeometry(scene));
+        if (rules.length > 0) walls = applyMappingRules(walls, rules).walls;
+
+        await WallUtils.checkpoint("Before multi-scene import", scene);
+        const plan = await WallUtils.importWallsIntoScene(scene, walls, mode, options.tolerance ?? 2);
+        ModuleLogger.info(`Imported walls into ${scene.name}: ${plan.added} added, ${plan.skipped} skipped, ${plan.replaced} replaced`);
+        imported++;
+      } catch (error) {
+        console.error(`Scene import error for ${scene.name}:`, error);
+        failed.push(scene.name ?? scene.id as string);
+      }
+    }
+
+    ui.notifications?.info(`Imported walls into ${imported} scenes${skipped > 0 ? `, skipped ${skipped}` : ""}.`);
+    if (failed.length > 0) {
+      ui.notifications?.error(`Could not import walls into ${failed.length} scenes: ${failed.join(", ")}. See the console for details.`);
+    }
+    return imported;
+  }
+
+  /**
+   * Read a text file from the zip
+   */
+  private static async readFile(zip: JSZip, path: string): Promise<string> {
+    const entry = zip.file(path);
+    if (!entry) {
+      throw new Error(`Export is missing ${path}.`);
+    }
+    return entry.async("string");
+  }
+}
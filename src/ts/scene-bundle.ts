@@ -0,0 +1,251 @@
+import type JSZip from 'jszip';
+import { moduleId } from './constants';
+import { WallUtils } from './module';
+import { TileCompositor } from './tile-compositor';
+import { DocumentEnvelope, WallData, WallImportOptions } from './types';
+import { ModuleLogger } from './utils/logger';
+import { getSceneGeometry, SceneGeometry } from './utils/scene';
+import { ENVELOPE_FORMAT, ENVELOPE_VERSION, isValidPlaceable } from './utils/placeables';
+
+/**
+ * Identifies a zip as a scene bundle written by this module
+ */
+export const BUNDLE_FORMAT = `${moduleId}.scene-bundle`;
+export const BUNDLE_VERSION = 1;
+
+/**
+ * Describes the contents of a scene bundle
+ */
+export interface BundleManifest {
+  format: string;
+  version: number;
+  moduleVersion: string;
+  foundryVersion: string;
+  created: string;
+  scene: {
+    id: string | null;
+    name: string | null;
+  };
+  /** Paths of the files in the zip, by content */
+  files: {
+    walls: string;
+    lights: string;
+    scene: string;
+    tiles?: string;
+    background?: string;
+  };
+  counts: {
+    walls: number;
+    lights: number;
+    tiles: number;
+  };
+}
+
+/**
+ * Scene metadata stored in a bundle
+ */
+export interface BundleSceneData {
+  name: string | null;
+  geometry: SceneGeometry;
+  /** Scene-space placement of the tiles image */
+  tiles?: {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+  };
+}
+
+/**
+ * Whether a bundle entry is a wall with four finite coordinates
+ */
+function hasWallCoordinates(entry: unknown): entry is WallData {
+  const c = (entry as WallData | null)?.c;
+  return Array.isArray(c) && c.length === 4 && c.every(value => typeof value === "number" && Number.isFinite(value));
+}
+
+/**
+ * Options for importing a scene bundle
+ */
+export interface BundleImportOptions extends WallImportOptions {
+  /** Also create the bundle's ambient lights */
+  includeLights?: boolean;
+}
+
+/**
+ * Packages a scene's walls, lights, tiles image and background into a single zip and restores them
+ */
+export class SceneBundle {
+  /**
+   * Export a scene as a bundle zip
+   */
+  static async export(scene: Scene): Promise<void> {
+    const JSZip = (await import('jszip')).default;
+    const zip = new JSZip();
+    const sceneName = scene.name?.replace(/\s+/g, "_") || "scene";
+
+    ui.notifications?.info("Building scene bundle...");
+
+    const walls = scene.walls.map(wall => wall.toObject());
+    const lights = scene.lights.map(light => light.toObject());
+    const sceneData: BundleSceneData = {
+      name: scene.name,
+      geometry: getSceneGeometry(scene)
+    };
+
+    const files: BundleManifest["files"] = {
+      walls: "walls.json",
+      lights: "lights.json",
+      scene: "scene.json"
+    };
+    zip.file(files.walls, JSON.stringify(walls, null, 2));
+    zip.file(files.lights, JSON.stringify(lights, null, 2));
+
+    // The tiles image is optional - a failed composite shouldn't stop the rest of the bundle
+    try {
+      const composite = await TileCompositor.compose(scene);
+      if (composite) {
+        const blob = await TileCompositor.toBlob(composite.canvas, 'image/png');
+        if (blob) {
+          files.tiles = "tiles.png";
+          zip.file(files.tiles, blob);
+          sceneData.tiles = { x: composite.x, y: composite.y, width: composite.width, height: composite.height };
+        }
+      }
+    } catch (err) {
+      ModuleLogger.warn(`Skipping tiles image in bundle: ${err}`);
+      ui.notifications?.warn("Tiles could not be exported and were left out of the bundle.");
+    }
+
+    const background = await this.fetchBackground(scene);
+    if (background) {
+      files.background = `background.${background.extension}`;
+      zip.file(files.background, background.blob);
+    }
+
+    zip.file(files.scene, JSON.stringify(sceneData, null, 2));
+
+    const manifest: BundleManifest = {
+      format: BUNDLE_FORMAT,
+      version: BUNDLE_VERSION,
+      moduleVersion: ((game as Game).modules.get(moduleId) as any)?.version ?? "",
+      foundryVersion: (game as Game).version,
+      created: new Date().toISOString(),
+      scene: { id: scene.id, name: scene.name },
+      files,
+      counts: {
+        walls: walls.length,
+        lights: lights.length,
+        tiles: scene.tiles.size
+      }
+    };
+    zip.file("manifest.json", JSON.stringify(manifest, null, 2));
+
+    const blob = await zip.generateAsync({ type: "blob" });
+    const FileSaver = (await import('file-saver')).default;
+    FileSaver.saveAs(blob, `${sceneName}_bundle.zip`);
+
+    ui.notifications?.info(`Scene bundle exported (${walls.length} walls, ${lights.length} lights).`);
+  }
+
+  /**
+   * Import a bundle zip into the current scene, rebuilding its walls and optionally its lights.
+   * Positions are converted from the bundle's scene padding and grid size to the current scene.
+   */
+  static async import(file: Blob, options: BundleImportOptions = {}): Promise<void> {
+    const JSZip = (await import('jszip')).default;
+    const zip = await JSZip.loadAsync(file);
+
+    const manifestFile = zip.file("manifest.json");
+    if (!manifestFile) {
+      throw new Error("Not a scene bundle: manifest.json is missing.");
+    }
+    const manifest = JSON.parse(await manifestFile.async("string")) as BundleManifest;
+    if (manifest?.format !== BUNDLE_FORMAT) {
+      throw new Error("Not a scene bundle: unrecognized manifest format.");
+    }
+    if (typeof manifest.files?.scene !== "string" || typeof manifest.files.walls !== "string") {
+      throw new Error("Invalid scene bundle: the manifest does not list the scene and wall files.");
+    }
+    if (manifest.version > BUNDLE_VERSION) {
+      ModuleLogger.warn(`Bundle version ${manifest.version} is newer than supported version ${BUNDLE_VERSION}`);
+    }
+
+    const sceneData = JSON.parse(await this.readFile(zip, manifest.files.scene)) as BundleSceneData;
+    const source = sceneData?.geometry;
+    if (![source?.sceneX, source?.sceneY, source?.gridSize].every(value => typeof value === "number" && Number.isFinite(value))) {
+      throw new Error("Invalid scene bundle: the scene data has no padding or grid size.");
+    }
+
+    // Make positions relative to the source scene image, then let the import place them on this scene.
+    // Entries without usable coordinates are passed on untouched so the import's validation reports them.
+    const walls = this.readList(JSON.parse(await this.readFile(zip, manifest.files.walls)), "walls").map(wall => hasWallCoordinates(wall)
+      ? { ...wall, c: [wall.c[0] - source.sceneX, wall.c[1] - source.sceneY, wall.c[2] - source.sceneX, wall.c[3] - source.sceneY] }
+      : wall);
+    const lights = options.includeLights && typeof manifest.files.lights === "string"
+      ? this.readList(JSON.parse(await this.readFile(zip, manifest.files.lights)), "lights").map(light => isValidPlaceable(light)
+        ? { ...light, x: light.x - source.sceneX, y: light.y - source.sceneY }
+        : light)
+      : [];
+
+    const envelope: DocumentEnvelope = {
+      format: ENVELOPE_FORMAT,
+      version: ENVELOPE_VERSION,
+      documents: { Wall: walls, AmbientLight: lights }
+    };
+
+    await WallUtils.processWallImport(JSON.stringify(envelope), {
+      ...options,
+      documentTypes: options.includeLights ? ["Wall", "AmbientLight"] : ["Wall"],
+      transform: {
+        ...options.transform,
+        applyPadding: true,
+        sourceGridSize: options.transform?.scale ? undefined : source.gridSize
+      }
+    });
+  }
+
+  /**
+   * Check that a bundle file holds a list of documents
+   * @throws If it does not
+   */
+  private static readList(data: unknown, label: string): any[] {
+    if (!Array.isArray(data)) {
+      throw new Error(`Invalid scene bundle: the ${label} file is not a list.`);
+    }
+    return data;
+  }
+
+  /**
+   * Read a text file from the zip
+   */
+  private static async readFile(zip: JSZip, path: string): Promise<string> {
+    const entry = zip.file(path);
+    if (!entry) {
+      throw new Error(`Bundle is missing ${path}.`);
+    }
+    return entry.async("string");
+  }
+
+  /**
+   * Download the scene's background image
+   * @returns The image and its file extension, or null if the scene has none or it cannot be fetched
+   */
+  private static async fetchBackground(scene: Scene): Promise<{ blob: Blob, extension: string } | null> {
+    const src = (scene as any).background?.src;
+    if (!src) return null;
+
+    try {
+      const url = new URL(src, window.location.origin);
+      const response = await fetch(url.href);
+      if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+
+      const extension = url.pathname.split(".").pop()?.toLowerCase() || "png";
+      return { blob: await response.blob(), extension };
+    } catch (err) {
+      ModuleLogger.warn(`Could not fetch scene background ${src}: ${err}`);
+      ui.notifications?.warn("The scene background could not be fetched and was left out of the bundle.");
+      return null;
+    }
+  }
+}
@@ -0,0 +1,199 @@
+import { WallUtils } from './module';
+import { TILE_IMAGE_FORMATS, TileChunkOptions, TileCompositor } from './tile-compositor';
+import { TileImageFormat, WallData, WallImportOptions } from './types';
+import {
+  CHUNK_INDEX_FILE,
+  CHUNK_INDEX_FORMAT,
+  CHUNK_INDEX_VERSION,
+  chunkBaseName,
+  ChunkIndex,
+  ChunkIndexEntry,
+  chunkWallsToScene,
+  findChunkForFile,
+  isChunkIndex
+} from './utils/chunks';
+import { throwIfAborted } from './utils/concurrency';
+import { ModuleLogger } from './utils/logger';
+import { getSceneGeometry } from './utils/scene';
+import { isUniversalVtt, universalVttToWalls } from './utils/uvtt';
+
+/**
+ * Default chunk size in pixels, comfortably below every browser's canvas limit
+ */
+export const DEFAULT_CHUNK_SIZE = 4096;
+
+/**
+ * A text file selected for a chunk import, read lazily
+ */
+interface ChunkFile {
+  name: string;
+  read: () => Promise<string>;
+}
+
+/**
+ * Exports tiles too large for one canvas as a zip of chunk images, and stitches walls traced on the
+ * chunks back together
+ */
+export class TileChunks {
+  /**
+   * Render a scene's tiles in chunks and download them as a zip with an index of each chunk's position
+   * @param backgroundColor CSS color under areas without tiles in JPEG chunks
+   * @throws An AbortError if cancelled through the options' signal
+   */
+  static async export(scene: Scene, options: TileChunkOptions, format: TileImageFormat = "png", quality?: number, backgroundColor?: string): Promise<void> {
+    const JSZip = (await import('jszip')).default;
+    const zip = new JSZip();
+    const entries: ChunkIndexEntry[] = [];
+    let fallback = false;
+
+    const result = await TileCompositor.composeChunks(scene, options, async (chunk) => {
+      const requested = TILE_IMAGE_FORMATS[format];
+      const blob = await TileCompositor.toBlob(chunk.canvas, requested.type, quality, backgroundColor);
+      if (!blob) {
+        throw new Error(`Failed to create image for chunk ${chunk.row}, ${chunk.column}.`);
+      }
+
+      // Browsers fall back to PNG for formats they cannot encode
+      const actual = blob.type === requested.type ? requested : TILE_IMAGE_FORMATS.png;
+      fallback ||= actual !== requested;
+
+      const { canvas, ...rect } = chunk;
+      const file = `chunks/${chunkBaseName(chunk)}.${actual.extension}`;
+      zip.file(file, blob);
+      entries.push({ ...rect, file, pixelWidth: canvas.width, pixelHeight: canvas.height });
+    });
+
+    if (!result) {
+      ui.notifications?.warn("The current scene has no tiles to export.");
+      return;
+    }
+    if (fallback) {
+      ui.notifications?.warn(`This browser cannot encode ${format.toUpperCase()} images, chunks were exported as PNG instead.`);
+    }
+    if (result.failedCount > 0) {
+      ui.notifications?.warn(`${result.failedCount} tiles could not be loaded or drawn.`);
+    }
+
+    const index: ChunkIndex = {
+      format: CHUNK_INDEX_FORMAT,
+      version: CHUNK_INDEX_VERSION,
+      created: new Date().toISOString(),
+      scene: { id: scene.id, name: scene.name, geometry: getSceneGeometry(scene) },
+      scale: result.scale,
+      chunkSize: options.chunkSize,
+      region: { x: result.x, y: result.y, width: result.width, height: result.height },
+      rows: result.rows,
+      columns: result.columns,
+      chunks: entries
+    };
+    zip.file(CHUNK_INDEX_FILE, JSON.stringify(index, null, 2));
+
+    throwIfAborted(options.signal);
+    const blob = await zip.generateAsync({ type: "blob" }, (metadata) => {
+      options.onProgress?.("Compressing", Math.round(metadata.percent), 100);
+    });
+    throwIfAborted(options.signal);
+    const sceneName = scene.name?.replace(/\s+/g, "_") || "scene";
+    const FileSaver = (await import('file-saver')).default;
+    FileSaver.saveAs(blob, `${sceneName}_tiles_chunks.zip`);
+
+    ui.notifications?.info(`Scene tiles exported in ${entries.length} chunks (${result.loadedCount} tiles).`);
+  }
+
+  /**
+   * Import walls traced on the chunks of a chunked export. The files must include the export's
+   * index.json and one wall file per chunk named after the chunk image; a zip containing them is
+   * also accepted.
+   */
+  static async import(files: File[], options: WallImportOptions = {}): Promise<void> {
+    const chunkFiles = await this.readFiles(files);
+
+    let index: ChunkIndex | null = null;
+    const wallFiles: ChunkFile[] = [];
+    for (const file of chunkFiles) {
+      if ((file.name.split("/").pop() ?? file.name) === CHUNK_INDEX_FILE) {
+        const data = JSON.parse(await file.read());
+        if (isChunkIndex(data)) {
+          index = data;
+          continue;
+        }
+      }
+      wallFiles.push(file);
+    }
+
+    if (!index) {
+      throw new Error(`Select the chunked export's ${CHUNK_INDEX_FILE} together with the wall files.`);
+    }
+    if (index.version > CHUNK_INDEX_VERSION) {
+      ModuleLogger.warn(`Chunk index version ${index.version} is newer than supported version ${CHUNK_INDEX_VERSION}`);
+    }
+
+    const source = index.scene.geometry;
+    const walls: WallData[] = [];
+    const unmatched: string[] = [];
+    let stitched = 0;
+
+    for (const file of wallFiles) {
+      const chunk = findChunkForFile(index, file.name);
+      if (!chunk) {
+        unmatched.push(file.name);
+        continue;
+      }
+
+      const chunkWalls = this.parseWalls(await file.read(), file.name);
+      // Make positions relative to the source scene image, then let the import place them on this scene
+      const offset = { ...chunk, x: chunk.x - source.sceneX, y: chunk.y - source.sceneY };
+      walls.push(...chunkWallsToScene(chunkWalls, offset, index.scale));
+      stitched++;
+    }
+
+    if (unmatched.length > 0) {
+      ui.notifications?.warn(`Skipped ${unmatched.length} files that don't match a chunk: ${unmatched.join(", ")}`);
+    }
+    if (stitched === 0) {
+      throw new Error("None of the selected files match a chunk in the index.");
+    }
+
+    ui.notifications?.info(`Stitched ${walls.length} walls from ${stitched} chunks.`);
+
+    await WallUtils.processWallImport(JSON.stringify(walls), {
+      ...options,
+      transform: {
+        ...options.transform,
+        applyPadding: true
+      }
+    });
+  }
+
+  /**
+   * Read the wall data of a chunk wall file
+   * @throws If the file is not a wall array or Universal VTT file
+   */
+  private static parseWalls(text: string, name: string): WallData[] {
+    const data = JSON.parse(text);
+    if (Array.isArray(data)) return data;
+    if (isUniversalVtt(data)) return universalVttToWalls(data).walls;
+    throw new Error(`${name} is not a wall file.`);
+  }
+
+  /**
+   * List the selected files, expanding zips into their entries
+   */
+  private static async readFiles(files: File[]): Promise<ChunkFile[]> {
+    const result: ChunkFile[] = [];
+    for (const file of files) {
+      if (!file.name.toLowerCase().endsWith(".zip")) {
+        result.push({ name: file.name, read: () => file.text() });
+        continue;
+      }
+
+      const JSZip = (await import('jszip')).default;
+      const zip = await JSZip.loadAsync(file);
+      zip.forEach((path, entry) => {
+        if (entry.dir || !/\.(json|dd2vtt|uvtt|df2vtt)$/i.test(path)) return;
+        result.push({ name: path, read: () => entry.async("string") });
+      });
+    }
+    return result;
+  }
+}
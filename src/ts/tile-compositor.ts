@@ -0,0 +1,593 @@
+import { TileImageFormat, TileLayerFilter } from './types';
+import { ChunkRect, planChunks } from './utils/chunks';
+import { mapConcurrent, throwIfAborted } from './utils/concurrency';
+import { Rect } from './utils/geometry';
+import { ModuleLogger } from './utils/logger';
+import { getSceneBackgroundSrc, getSceneRect } from './utils/scene';
+import { isVideoSource, orderTilesForRender, readTileRenderData, TileRenderData } from './utils/tiles';
+
+/**
+ * Most browsers' maximum canvas size
+ */
+export const MAX_DIMENSION = 16384;
+
+/**
+ * MIME type and file extension of each export format
+ */
+export const TILE_IMAGE_FORMATS: Record<TileImageFormat, { type: string, extension: string }> = {
+  png: { type: "image/png", extension: "png" },
+  jpeg: { type: "image/jpeg", extension: "jpg" },
+  webp: { type: "image/webp", extension: "webp" }
+};
+
+/**
+ * Color filling areas without tiles in formats that have no transparency. White reads as open floor
+ * to wall detection, which treats dark pixels as walls by default.
+ */
+export const DEFAULT_OPAQUE_BACKGROUND = "#ffffff";
+
+/**
+ * Options for compositing tiles
+ */
+export interface TileComposeOptions {
+  /** Scene-space area to render (defaults to the bounds of the tiles) */
+  region?: Rect;
+  /** Output pixels per scene pixel (defaults to 1) */
+  scale?: number;
+  /** Downscale further if needed so neither side exceeds this many pixels */
+  maxSize?: number;
+  /** Draw the scene background under the tiles */
+  includeBackground?: boolean;
+  /** Which tiles to draw (defaults to all) */
+  layers?: TileLayerFilter;
+  /** Cancels loading and rendering when aborted */
+  signal?: AbortSignal;
+  /** Called as each texture loads and each chunk renders */
+  onProgress?: (stage: string, done: number, total: number) => void;
+}
+
+/**
+ * Options for compositing tiles in chunks
+ */
+export interface TileChunkOptions extends Omit<TileComposeOptions, "maxSize"> {
+  /** Width and height of each chunk in output pixels */
+  chunkSize: number;
+}
+
+/**
+ * One rendered chunk of a chunked composite
+ */
+export interface TileChunk extends ChunkRect {
+  canvas: HTMLCanvasElement;
+}
+
+/**
+ * A loaded texture: an image, a captured video frame or a tinted copy
+ */
+type TextureSource = HTMLImageElement | HTMLCanvasElement | ImageBitmap;
+
+/**
+ * A loaded image and how it is drawn in scene coordinates
+ */
+interface TileLayer {
+  image: TextureSource;
+  sourceWidth: number;
+  sourceHeight: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation: number;
+  flipX: boolean;
+  flipY: boolean;
+  alpha: number;
+}
+
+/**
+ * How long to wait for a video to produce a frame before giving up
+ */
+const VIDEO_TIMEOUT_MS = 10000;
+
+/**
+ * How many textures are downloaded at the same time
+ */
+const LOAD_CONCURRENCY = 6;
+
+/**
+ * The result of compositing a scene's tiles into one image
+ */
+export interface TileComposite {
+  canvas: HTMLCanvasElement;
+  /** Scene-space position of the composite's top-left corner */
+  x: number;
+  y: number;
+  /** Scene-space size of the rendered area */
+  width: number;
+  height: number;
+  /** Output pixels per scene pixel */
+  scale: number;
+  loadedCount: number;
+  failedCount: number;
+}
+
+/**
+ * Renders a scene's tiles into a single canvas
+ */
+export class TileCompositor {
+  /**
+   * Composite the tiles of a scene, and optionally its background, into a canvas
+   * @returns The composite, or null if there is nothing to draw
+   * @throws If the canvas cannot be created or would exceed MAX_DIMENSION, or an AbortError if cancelled
+   */
+  static async compose(scene: Scene, options: TileComposeOptions = {}): Promise<TileComposite | null> {
+    const region = this.resolveRegion(scene, options);
+    if (!region) return null;
+
+    let scale = options.scale && options.scale > 0 ? options.scale : 1;
+    if (options.maxSize && options.maxSize > 0) {
+      scale = Math.min(scale, options.maxSize / Math.max(region.width, region.height));
+    }
+
+    // Check for excessively large canvas dimensions before loading anything
+    const canvasWidth = Math.max(1, Math.ceil(region.width * scale));
+    const canvasHeight = Math.max(1, Math.ceil(region.height * scale));
+    if (canvasWidth > MAX_DIMENSION || canvasHeight > MAX_DIMENSION) {
+      throw new Error(`Canvas size too large (${canvasWidth}x${canvasHeight}). Maximum supported dimensions are ${MAX_DIMENSION}x${MAX_DIMENSION}; reduce the scale, set a maximum size or export in chunks.`);
+    }
+
+    const { layers, loadedCount, failedCount } = await this.loadLayers(scene, options);
+    throwIfAborted(options.signal);
+    const canvas = this.render(layers, region, scale);
+
+    return {
+      canvas,
+      x: region.x,
+      y: region.y,
+      width: region.width,
+      height: region.height,
+      scale,
+      loadedCount,
+      failedCount
+    };
+  }
+
+  /**
+   * Composite the tiles of a scene in fixed-size chunks, so scenes of any size can be rendered.
+   * Images are loaded once and each chunk is handed to a callback before the next is drawn,
+   * keeping only one chunk in memory.
+   * @param onChunk Called with each chunk, row by row
+   * @returns The rendered area and tile counts, or null if there is nothing to draw
+   * @throws An AbortError if cancelled
+   */
+  static async composeChunks(
+    scene: Scene,
+    options: TileChunkOptions,
+    onChunk: (chunk: TileChunk) => Promise<void>
+  ): Promise<Omit<TileComposite, "canvas"> & { rows: number, columns: number } | null> {
+    const region = this.resolveRegion(scene, options);
+    if (!region) return null;
+
+    const scale = options.scale && options.scale > 0 ? options.scale : 1;
+    const chunkSize = Math.min(Math.max(1, Math.floor(options.chunkSize)), MAX_DIMENSION);
+    const chunks = planChunks(region, chunkSize, scale);
+
+    const { layers, loadedCount, failedCount } = await this.loadLayers(scene, options);
+
+    for (const [index, chunk] of chunks.entries()) {
+      throwIfAborted(options.signal);
+      options.onProgress?.("Rendering chunks", index, chunks.length);
+      const canvas = this.render(layers, chunk, scale);
+      await onChunk({ ...chunk, canvas });
+    }
+    options.onProgress?.("Rendering chunks", chunks.length, chunks.length);
+
+    return {
+      ...region,
+      scale,
+      rows: Math.max(0, ...chunks.map(chunk => chunk.row + 1)),
+      columns: Math.max(0, ...chunks.map(chunk => chunk.column + 1)),
+      loadedCount,
+      failedCount
+    };
+  }
+
+  /**
+   * Determine the scene-space area to render
+   * @returns The area, or null if there is nothing to draw
+   */
+  private static resolveRegion(scene: Scene, options: TileComposeOptions): Rect | null {
+    // Check if there are any tiles
+    const tiles = this.getTiles(scene, options.layers);
+    const hasBackground = options.includeBackground && !!getSceneBackgroundSrc(scene);
+    if (tiles.length === 0 && !hasBackground) return null;
+
+    let region = options.region ?? this.getTileBounds(tiles);
+    if (!options.region && hasBackground) {
+      region = region ? this.union(region, getSceneRect(scene)) : getSceneRect(scene);
+    }
+    if (!region) return null;
+
+    // Ensure we have valid dimensions (add 1px padding if needed)
+    return { ...region, width: Math.max(region.width, 1), height: Math.max(region.height, 1) };
+  }
+
+  /**
+   * Read the scene's tiles in drawing order, keeping only the requested layer
+   */
+  private static getTiles(scene: Scene, filter: TileLayerFilter = "all"): TileRenderData[] {
+    const sceneData = scene as any;
+    const tiles = scene.tiles.contents.map(tile => readTileRenderData(tile, sceneData.foregroundElevation));
+    return orderTilesForRender(tiles, filter);
+  }
+
+  /**
+   * Load the images of the background (if requested) and every tile, in drawing order. Each texture is
+   * loaded once however many tiles share it, several at a time.
+   * @throws An AbortError if cancelled
+   */
+  private static async loadLayers(scene: Scene, options: TileComposeOptions): Promise<{ layers: TileLayer[], loadedCount: number, failedCount: number }> {
+    const layers: TileLayer[] = [];
+    let loadedCount = 0;
+    let failedCount = 0;
+
+    const tiles = this.getTiles(scene, options.layers);
+    const backgroundSrc = options.includeBackground ? getSceneBackgroundSrc(scene) : null;
+
+    // Unique texture paths, with a tile to capture video frames from
+    const sources = new Map<string, TileRenderData | null>();
+    if (backgroundSrc) sources.set(backgroundSrc, null);
+    for (const tile of tiles) {
+      if (tile.src && !sources.get(tile.src)) sources.set(tile.src, tile);
+    }
+
+    const textures = new Map<string, TextureSource | null>();
+    let loaded = 0;
+    options.onProgress?.("Loading textures", 0, sources.size);
+    await mapConcurrent([...sources], LOAD_CONCURRENCY, async ([src, tile]) => {
+      let texture: TextureSource | null = null;
+      try {
+        texture = tile && isVideoSource(src) ? await this.loadVideoFrame(tile) : await this.loadImage(src);
+      } catch (err) {
+        ModuleLogger.warn(`Error loading texture ${src}: ${err}`);
+      }
+      textures.set(src, texture);
+      options.onProgress?.("Loading textures", ++loaded, sources.size);
+    }, options.signal);
+
+    if (backgroundSrc) {
+      const image = textures.get(backgroundSrc);
+      if (image) {
+        layers.push({
+          image,
+          sourceWidth: image.width,
+          sourceHeight: image.height,
+          ...getSceneRect(scene),
+          rotation: 0,
+          flipX: false,
+          flipY: false,
+          alpha: 1
+        });
+      } else {
+        ui.notifications?.warn("The scene background could not be loaded and was left out of the image.");
+      }
+    }
+
+    // Tinted copies are shared by tiles with the same texture and tint
+    const tinted = new Map<string, HTMLCanvasElement>();
+    for (const tile of tiles) {
+      try {
+        if (!tile.src) {
+          ModuleLogger.warn(`Tile doesn't have a valid texture source`);
+          failedCount++;
+          continue;
+        }
+
+        const source = textures.get(tile.src);
+        if (!source) {
+          failedCount++;
+          continue;
+        }
+
+        let image: TextureSource = source;
+        if (tile.tint !== null) {
+          const key = `${tile.tint}:${tile.src}`;
+          if (!tinted.has(key)) tinted.set(key, this.applyTint(source, tile.tint));
+          image = tinted.get(key)!;
+        }
+
+        layers.push({
+          image,
+          sourceWidth: source.width,
+          sourceHeight: source.height,
+          x: tile.x,
+          y: tile.y,
+          width: tile.width,
+          height: tile.height,
+          rotation: tile.rotation,
+          flipX: tile.flipX,
+          flipY: tile.flipY,
+          alpha: tile.alpha
+        });
+        loadedCount++;
+      } catch (err) {
+        ModuleLogger.warn(`Error processing tile: ${err}`);
+        failedCount++;
+      }
+    }
+
+    return { layers, loadedCount, failedCount };
+  }
+
+  /**
+   * Draw loaded layers into a new canvas covering a scene-space region
+   * @throws If the canvas cannot be created
+   */
+  private static render(layers: TileLayer[], region: Rect, scale: number): HTMLCanvasElement {
+    // Create a canvas to combine all tiles
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error("Unable to create canvas context for tile export.");
+    }
+
+    // Set canvas dimensions to contain the region at the output scale
+    canvas.width = Math.max(1, Math.ceil(region.width * scale));
+    canvas.height = Math.max(1, Math.ceil(region.height * scale));
+
+    // Fill with transparent background
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.imageSmoothingQuality = "high";
+
+    // Draw in scene coordinates from here on
+    ctx.scale(scale, scale);
+    ctx.translate(-region.x, -region.y);
+
+    for (const layer of layers) {
+      try {
+        // Save the current canvas state
+        ctx.save();
+
+        // Calculate center of tile (rotation pivot)
+        const centerX = layer.x + layer.width / 2;
+        const centerY = layer.y + layer.height / 2;
+
+        // Move to the center, rotate and mirror, and move back
+        ctx.translate(centerX, centerY);
+        ctx.rotate((layer.rotation * Math.PI) / 180); // Convert degrees to radians
+        ctx.scale(layer.flipX ? -1 : 1, layer.flipY ? -1 : 1);
+        ctx.translate(-centerX, -centerY);
+        ctx.globalAlpha = layer.alpha;
+
+        // Draw the image at its position
+        ctx.drawImage(
+          layer.image,
+          0, 0, layer.sourceWidth, layer.sourceHeight,
+          layer.x, layer.y, layer.width, layer.height
+        );
+
+        // Restore the canvas state
+        ctx.restore();
+      } catch (err) {
+        ModuleLogger.warn(`Error drawing tile image: ${err}`);
+        ctx.restore();
+      }
+    }
+
+    return canvas;
+  }
+
+  /**
+   * Calculate the bounds of all tiles, accounting for rotation
+   * @returns The bounds, or null if there are no tiles
+   */
+  private static getTileBounds(tiles: TileRenderData[]): Rect | null {
+    if (tiles.length === 0) return null;
+
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+
+    // This is more complex with rotation - we need to calculate the bounding box of rotated tiles
+    for (const tile of tiles) {
+      const { width: tileWidth, height: tileHeight, x: tileX, y: tileY, rotation } = tile;
+
+      // If no rotation, use simple bounds calculation
+      if (rotation === 0) {
+        minX = Math.min(minX, tileX);
+        minY = Math.min(minY, tileY);
+        maxX = Math.max(maxX, tileX + tileWidth);
+        maxY = Math.max(maxY, tileY + tileHeight);
+        continue;
+      }
+
+      // For rotated tiles, calculate the corners after rotation
+      // Convert rotation to radians (Foundry uses degrees)
+      const radians = (rotation * Math.PI) / 180;
+
+      // Calculate the center of the tile (rotation pivot)
+      const centerX = tileX + tileWidth / 2;
+      const centerY = tileY + tileHeight / 2;
+
+      // Calculate the four corners of the tile (relative to center)
+      const halfWidth = tileWidth / 2;
+      const halfHeight = tileHeight / 2;
+
+      const corners = [
+        { x: -halfWidth, y: -halfHeight }, // top-left
+        { x: halfWidth, y: -halfHeight },  // top-right
+        { x: halfWidth, y: halfHeight },   // bottom-right
+        { x: -halfWidth, y: halfHeight }   // bottom-left
+      ];
+
+      // Rotate each corner and find the new bounds
+      corners.forEach(corner => {
+        // Apply rotation matrix
+        const rotatedX = corner.x * Math.cos(radians) - corner.y * Math.sin(radians);
+        const rotatedY = corner.x * Math.sin(radians) + corner.y * Math.cos(radians);
+
+        // Add center offset to get absolute position
+        const absoluteX = centerX + rotatedX;
+        const absoluteY = centerY + rotatedY;
+
+        // Update bounds
+        minX = Math.min(minX, absoluteX);
+        minY = Math.min(minY, absoluteY);
+        maxX = Math.max(maxX, absoluteX);
+        maxY = Math.max(maxY, absoluteY);
+      });
+    }
+
+    return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+  }
+
+  /**
+   * Smallest rectangle containing two rectangles
+   */
+  private static union(a: Rect, b: Rect): Rect {
+    const x = Math.min(a.x, b.x);
+    const y = Math.min(a.y, b.y);
+    return {
+      x,
+      y,
+      width: Math.max(a.x + a.width, b.x + b.width) - x,
+      height: Math.max(a.y + a.height, b.y + b.height) - y
+    };
+  }
+
+  /**
+   * Load an image, reusing the copy in Foundry's texture cache when the canvas has already loaded it
+   * @returns The image, or null if it could not be loaded
+   */
+  private static loadImage(src: string): Promise<TextureSource | null> {
+    const cached = this.getCachedTexture(src);
+    if (cached) return Promise.resolve(cached);
+
+    return new Promise((resolve) => {
+      const img = new Image();
+      img.crossOrigin = "anonymous";
+      img.onload = () => resolve(img);
+      img.onerror = () => {
+        ModuleLogger.warn(`Failed to load tile image: ${src}`);
+        resolve(null);
+      };
+      img.src = src;
+    });
+  }
+
+  /**
+   * Find an image in Foundry's texture cache
+   * @returns The image, or null if it is not cached
+   */
+  private static getCachedTexture(src: string): TextureSource | null {
+    const cached = (globalThis as any).TextureLoader?.loader?.getCache?.(src)
+      ?? (PIXI as any).utils?.BaseTextureCache?.[src];
+    const baseTexture = cached?.baseTexture ?? cached;
+    if (!baseTexture?.valid) return null;
+
+    const source = baseTexture.resource?.source;
+    if (source instanceof HTMLImageElement || source instanceof HTMLCanvasElement || source instanceof ImageBitmap) {
+      return source;
+    }
+    return null;
+  }
+
+  /**
+   * Capture the current frame of a video tile. The frame playing on the canvas is used when available,
+   * otherwise the video is loaded and its first frame captured.
+   * @returns The frame, or null if the video could not be loaded
+   */
+  private static async loadVideoFrame(tile: TileRenderData): Promise<HTMLCanvasElement | null> {
+    const playing = tile.document.object?.texture?.baseTexture?.resource?.source;
+    if (playing instanceof HTMLVideoElement && playing.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) {
+      return this.captureFrame(playing);
+    }
+
+    const video = document.createElement('video');
+    video.crossOrigin = "anonymous";
+    video.muted = true;
+    video.preload = "auto";
+
+    const loaded = await new Promise<boolean>((resolve) => {
+      const timeout = window.setTimeout(() => resolve(false), VIDEO_TIMEOUT_MS);
+      video.onloadeddata = () => {
+        window.clearTimeout(timeout);
+        resolve(true);
+      };
+      video.onerror = () => {
+        window.clearTimeout(timeout);
+        resolve(false);
+      };
+      video.src = tile.src!;
+    });
+
+    if (!loaded) {
+      ModuleLogger.warn(`Failed to load tile video: ${tile.src}`);
+      video.removeAttribute("src");
+      return null;
+    }
+
+    const frame = this.captureFrame(video);
+    video.removeAttribute("src");
+    video.load();
+    return frame;
+  }
+
+  /**
+   * Copy a video's current frame into a canvas
+   */
+  private static captureFrame(video: HTMLVideoElement): HTMLCanvasElement {
+    const frame = document.createElement('canvas');
+    frame.width = video.videoWidth;
+    frame.height = video.videoHeight;
+    frame.getContext('2d')?.drawImage(video, 0, 0, frame.width, frame.height);
+    return frame;
+  }
+
+  /**
+   * Multiply an image by a tint color the way Foundry tints textures, keeping its transparency
+   */
+  private static applyTint(source: TextureSource, tint: number): HTMLCanvasElement {
+    const tinted = document.createElement('canvas');
+    tinted.width = source.width;
+    tinted.height = source.height;
+    const ctx = tinted.getContext('2d');
+    if (!ctx) return tinted;
+
+    ctx.drawImage(source, 0, 0);
+    ctx.globalCompositeOperation = "multiply";
+    ctx.fillStyle = `#${tint.toString(16).padStart(6, "0")}`;
+    ctx.fillRect(0, 0, tinted.width, tinted.height);
+
+    // Multiply fills transparent pixels too, so restore the original alpha
+    ctx.globalCompositeOperation = "destination-in";
+    ctx.drawImage(source, 0, 0);
+    return tinted;
+  }
+
+  /**
+   * Encode a canvas as an image blob. JPEG has no transparency, so transparent areas are filled with
+   * a background color instead of turning black.
+   * @param quality Encoder quality from 0 to 1 for lossy formats
+   * @param background CSS color under transparent areas of JPEG images
+   */
+  static toBlob(canvas: HTMLCanvasElement, type = 'image/png', quality?: number, background = DEFAULT_OPAQUE_BACKGROUND): Promise<Blob | null> {
+    const source = type === TILE_IMAGE_FORMATS.jpeg.type ? this.flatten(canvas, background) : canvas;
+    return new Promise((resolve) => {
+      source.toBlob(resolve, type, quality);
+    });
+  }
+
+  /**
+   * Copy a canvas onto a solid background color
+   */
+  private static flatten(canvas: HTMLCanvasElement, background: string): HTMLCanvasElement {
+    const flat = document.createElement('canvas');
+    flat.width = canvas.width;
+    flat.height = canvas.height;
+    const ctx = flat.getContext('2d');
+    if (!ctx) return canvas;
+
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, flat.width, flat.height);
+    ctx.drawImage(canvas, 0, 0);
+    return flat;
+  }
+}
@@ -0,0 +1,138 @@
+import { moduleId } from './constants';
+import { WallUtils } from './module';
+import { DEFAULT_CHUNK_SIZE } from './tile-chunks';
+import { DEFAULT_OPAQUE_BACKGROUND, MAX_DIMENSION } from './tile-compositor';
+import { TileExportOptions, TileImageFormat, TileLayerFilter } from './types';
+
+/**
+ * Dialog for choosing how the scene's tiles are exported as an image
+ */
+export class TileExportDialog extends Dialog {
+  /**
+   * Options entered in the dialog, kept for the next time it opens
+   */
+  private static options: TileExportOptions = {};
+
+  constructor() {
+    super(
+      {
+        title: "Export Tiles as Image",
+        content: TileExportDialog.buildContent(),
+        buttons: {
+          export: {
+            icon: '<i class="fas fa-file-export"></i>',
+            label: "Export",
+            callback: (html) => {
+              WallUtils.exportSceneTilesAsImage(TileExportDialog.readOptions($(html as HTMLElement)));
+            }
+          },
+          cancel: {
+            icon: '<i class="fas fa-times"></i>',
+            label: "Cancel"
+          }
+        },
+        default: "export"
+      },
+      {
+        id: `${moduleId}-tile-export-dialog`,
+        classes: ["auto-wall-dialog"],
+        width: 420
+      }
+    );
+  }
+
+  /**
+   * Build the dialog HTML
+   */
+  private static buildContent(): string {
+    const options = TileExportDialog.options;
+    const crop = typeof options.crop === "string" ? options.crop : "tiles";
+    const format = options.format ?? "png";
+    const layers = options.layers ?? "all";
+    const option = (value: string, label: string, current: string) =>
+      `<option value="${value}" ${value === current ? "selected" : ""}>${label}</option>`;
+
+    return `
+      <div class="tile-export">
+        <div class="form-group">
+          <label>Area</label>
+          <select name="crop">
+            ${option("tiles", "All tiles", crop)}
+            ${option("scene", "Scene (without padding)", crop)}
+            ${option("drawing", "Selected drawing", crop)}
+          </select>
+        </div>
+        <div class="form-group">
+          <label>Tiles</label>
+          <select name="layers">
+            ${option("all", "All tiles", layers)}
+            ${option("background", "Background tiles only", layers)}
+            ${option("foreground", "Foreground (overhead) tiles only", layers)}
+          </select>
+        </div>
+        <div class="form-group">
+          <label>Include scene background</label>
+          <input type="checkbox" name="includeBackground" ${options.includeBackground ? "checked" : ""}>
+        </div>
+        <div class="form-group">
+          <label>Scale</label>
+          <input type="number" name="scale" value="${options.scale ?? ""}" step="any" min="0" placeholder="1">
+        </div>
+        <div class="form-group">
+          <label>Maximum size (px)</label>
+          <input type="number" name="maxSize" value="${options.maxSize ?? ""}" step="1" min="1" placeholder="No limit">
+        </div>
+        <div class="form-group">
+          <label>Format</label>
+          <select name="format">
+            ${option("png", "PNG", format)}
+            ${option("jpeg", "JPEG", format)}
+            ${option("webp", "WebP", format)}
+          </select>
+          <label>Quality</label>
+          <input type="number" name="quality" value="${options.quality ?? 0.92}" step="0.01" min="0" max="1">
+        </div>
+        <div class="form-group">
+          <label>JPEG background</label>
+          <input type="color" name="backgroundColor" value="${options.backgroundColor ?? DEFAULT_OPAQUE_BACKGROUND}">
+        </div>
+        <div class="form-group">
+          <label>Split into chunks</label>
+          <input type="checkbox" name="chunked" ${options.chunkSize ? "checked" : ""}>
+          <label>Chunk size (px)</label>
+          <input type="number" name="chunkSize" value="${options.chunkSize ?? DEFAULT_CHUNK_SIZE}" step="1" min="256" max="${MAX_DIMENSION}">
+        </div>
+        <p class="hint">Quality applies to JPEG and WebP. JPEG has no transparency, so areas without tiles get the JPEG background color.
+          The maximum size limits the longest side of the image.
+          Chunks are downloaded as a zip with an index of their positions, for scenes too large for one image.</p>
+      </div>
+    `;
+  }
+
+  /**
+   * Read the options entered in the dialog
+   */
+  private static readOptions(html: JQuery): TileExportOptions {
+    const section = html.find('.tile-export');
+    const number = (name: string) => {
+      const value = parseFloat(section.find(`[name="${name}"]`).val() as string);
+      return Number.isFinite(value) && value > 0 ? value : undefined;
+    };
+    const quality = parseFloat(section.find('[name="quality"]').val() as string);
+
+    const options: TileExportOptions = {
+      crop: section.find('[name="crop"]').val() as "tiles" | "scene" | "drawing",
+      includeBackground: section.find('[name="includeBackground"]').is(':checked'),
+      layers: section.find('[name="layers"]').val() as TileLayerFilter,
+      scale: number("scale"),
+      maxSize: number("maxSize"),
+      format: section.find('[name="format"]').val() as TileImageFormat,
+      quality: Number.isFinite(quality) ? Math.min(1, Math.max(0, quality)) : undefined,
+      backgroundColor: section.find('[name="backgroundColor"]').val() as string || undefined,
+      chunkSize: section.find('[name="chunked"]').is(':checked') ? number("chunkSize") ?? DEFAULT_CHUNK_SIZE : undefined
+    };
+    TileExportDialog.options = options;
+
+    return options;
+  }
+}
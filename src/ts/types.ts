@@ -1,3 +1,353 @@
-// Make sure TypeScript sees this file as a module
-export {};
+/**
+ * Plain wall data as produced by getWallsJson or Auto-Wall
+ */
+export interface WallData {
+  _id?: string;
+  c: number[];
+  move?: number;
+  sense?: number;
+  sight?: number;
+  light?: number;
+  sound?: number;
+  door?: number;
+  ds?: number;
+  dir?: number;
+  flags?: Record<string, any>;
+  [key: string]: any;
+}
 
+/**
+ * Embedded document types that can be exported and imported alongside walls
+ */
+export type PlaceableType = "Wall" | "AmbientLight" | "AmbientSound" | "Tile";
+
+/**
+ * Plain data of any placeable document
+ */
+export type PlaceableData = Record<string, any>;
+
+/**
+ * Versioned export format holding several document types. Plain wall arrays are still accepted on import.
+ */
+export interface DocumentEnvelope {
+  format: string;
+  version: number;
+  /** Source scene information, for reference */
+  scene?: {
+    name: string | null;
+    gridSize: number;
+    sceneX: number;
+    sceneY: number;
+  };
+  documents: Partial<Record<PlaceableType, PlaceableData[]>>;
+}
+
+/**
+ * Visual category of a wall, used for previews and styling
+ */
+export type WallCategory = "wall" | "door" | "secret" | "window" | "invisible" | "terrain" | "ethereal";
+
+/**
+ * User-facing transform options for placing imported walls
+ */
+export interface WallTransformOptions {
+  /** Translate walls by the scene padding so image coordinates line up with the background */
+  applyPadding?: boolean;
+  /** Explicit scale factor; takes precedence over sourceGridSize */
+  scale?: number;
+  /** Grid size the walls were traced at; walls are scaled to the scene's grid size */
+  sourceGridSize?: number;
+  /** Clockwise rotation in 90° steps */
+  rotation?: number;
+  /** Mirror horizontally */
+  flipX?: boolean;
+  /** Mirror vertically */
+  flipY?: boolean;
+  /** Additional translation in pixels */
+  offsetX?: number;
+  offsetY?: number;
+}
+
+/**
+ * How imported walls are combined with walls already on the scene
+ * - append: add all imported walls
+ * - replace: delete every existing wall first
+ * - merge: skip or unify walls that duplicate existing ones
+ */
+export type WallImportMode = "append" | "replace" | "merge";
+
+/**
+ * Options accepted by WallUtils.processWallImport
+ */
+export interface WallImportOptions {
+  /** Show the preview overlay and wait for confirmation before creating walls */
+  preview?: boolean;
+  /** Transform applied to wall coordinates before placement */
+  transform?: WallTransformOptions;
+  /** How to combine imported walls with existing ones (defaults to append) */
+  mode?: WallImportMode;
+  /** Pixel tolerance used by merge mode to match walls */
+  tolerance?: number;
+  /** Maximum deviation in pixels when flattening SVG curves into walls */
+  curveTolerance?: number;
+  /** Document types to import from an envelope (defaults to every type it contains) */
+  documentTypes?: PlaceableType[];
+  /** Mapping rules applied to the imported walls, or the name of a saved mapping preset */
+  mapping?: string | WallMappingRule[];
+}
+
+/**
+ * Criteria walls must match to be included
+ */
+export interface WallFilter {
+  /** Door types (CONST.WALL_DOOR_TYPES) */
+  door?: number[];
+  /** Movement restrictions (CONST.WALL_MOVEMENT_TYPES) */
+  move?: number[];
+  /** Sight restrictions (CONST.WALL_SENSE_TYPES) */
+  sight?: number[];
+  categories?: WallCategory[];
+}
+
+/**
+ * Limits which walls are used. Every criterion that is set must match.
+ */
+export interface WallSelection {
+  /** Only walls currently controlled on the canvas */
+  controlled?: boolean;
+  /** Only walls created by the scene's last import */
+  lastImport?: boolean;
+  /**
+   * Only walls with both endpoints inside a region: a polygon in scene coordinates,
+   * or "drawings" for the drawings currently controlled on the canvas
+   */
+  region?: { x: number, y: number }[] | "drawings";
+  /** Only walls matching a filter */
+  filter?: WallFilter;
+}
+
+/**
+ * Options accepted by the wall export functions
+ */
+export interface WallExportOptions {
+  /** Document types to export. Anything other than walls alone produces a versioned envelope. */
+  documentTypes?: PlaceableType[];
+  /** Which walls to export (defaults to all) */
+  selection?: WallSelection;
+}
+
+/**
+ * Options for cleaning up the topology of a scene's walls. A tolerance of 0 disables that step.
+ */
+export interface WallCleanupOptions {
+  /** Snap endpoints closer than this many pixels to a shared point */
+  snapTolerance?: number;
+  /** Close gaps up to this many pixels between a loose endpoint and a nearby wall */
+  weldTolerance?: number;
+  /** Remove walls that repeat or lie within another wall with the same properties */
+  removeDuplicates?: boolean;
+  /** Remove zero-length walls */
+  removeDegenerate?: boolean;
+  /** Merge chains of walls whose points deviate less than this many pixels from a straight line */
+  simplifyTolerance?: number;
+  /** Which walls to clean up (defaults to all) */
+  selection?: WallSelection;
+  /** Only report what would change without touching the scene */
+  dryRun?: boolean;
+}
+
+/**
+ * Options for auditing a scene's walls
+ */
+export interface WallAuditOptions {
+  /** Largest distance in pixels between a loose endpoint and another wall reported as a gap */
+  gapThreshold?: number;
+  /** Which walls to audit (defaults to all) */
+  selection?: WallSelection;
+}
+
+/**
+ * Options for comparing the current scene's walls with another set
+ */
+export interface WallDiffOptions {
+  /** Maximum endpoint distance in pixels for walls to be in the same place */
+  tolerance?: number;
+  /** Maximum endpoint distance in pixels for a wall to count as moved rather than removed and added */
+  moveTolerance?: number;
+}
+
+/**
+ * Image formats tiles can be exported as
+ */
+export type TileImageFormat = "png" | "jpeg" | "webp";
+
+/**
+ * Which tiles to render
+ * - all: every tile
+ * - background: tiles below the foreground (not overhead)
+ * - foreground: overhead tiles only
+ */
+export type TileLayerFilter = "all" | "background" | "foreground";
+
+/**
+ * Options for exporting a scene's tiles as an image
+ */
+export interface TileExportOptions {
+  /** Multiply the output size by this factor (defaults to 1) */
+  scale?: number;
+  /** Downscale further if needed so neither side exceeds this many pixels */
+  maxSize?: number;
+  /** Image format (defaults to PNG) */
+  format?: TileImageFormat;
+  /** Encoder quality from 0 to 1 for JPEG and WebP */
+  quality?: number;
+  /** CSS color filling areas without tiles in JPEG images, which have no transparency (defaults to white) */
+  backgroundColor?: string;
+  /**
+   * Area to render: the bounds of the tiles (the default), the scene image without padding,
+   * the selected drawing on the canvas, or a rectangle in scene coordinates
+   */
+  crop?: "tiles" | "scene" | "drawing" | { x: number, y: number, width: number, height: number };
+  /** Draw the scene background under the tiles */
+  includeBackground?: boolean;
+  /** Which tiles to draw (defaults to all) */
+  layers?: TileLayerFilter;
+  /**
+   * Render in square chunks of at most this many pixels and download them as a zip with an index,
+   * instead of a single image. The maximum size is ignored when exporting in chunks.
+   */
+  chunkSize?: number;
+}
+
+/**
+ * Image sent to Auto-Wall for wall detection
+ * - background: the scene background image
+ * - tiles: the scene's tiles composited into one image
+ */
+export type AutoWallImageSource = "background" | "tiles";
+
+/**
+ * Options for detecting walls with a local Auto-Wall instance. The walls received are imported with
+ * the remaining import options.
+ */
+export interface AutoWallDetectOptions extends WallImportOptions {
+  /** Image to send (defaults to the background, or the tiles if the scene has no background) */
+  source?: AutoWallImageSource;
+  /** Endpoint to send the image to (defaults to the module setting) */
+  url?: string;
+  /** Seconds to wait for walls before giving up (defaults to the module setting) */
+  timeout?: number;
+}
+
+/**
+ * How wall pixels are told apart from floor pixels
+ * - dark: pixels darker than the threshold, e.g. black lines on a light map
+ * - light: pixels lighter than the threshold
+ * - color: pixels within the threshold's distance of a color
+ */
+export type WallDetectionMatch = "dark" | "light" | "color";
+
+/**
+ * How walls are drawn from the wall pixels
+ * - centerline: one wall along the middle of each line
+ * - outline: walls along the edges of each filled area
+ */
+export type WallDetectionTrace = "centerline" | "outline";
+
+/**
+ * Options for detecting walls in the scene image in the browser. The walls found are imported with
+ * the remaining import options.
+ */
+export interface WallDetectionOptions extends WallImportOptions {
+  /** Image to detect walls in (defaults to the background, or the tiles if the scene has no background) */
+  source?: AutoWallImageSource;
+  /** How wall pixels are recognized (defaults to dark) */
+  match?: WallDetectionMatch;
+  /** Wall color for color matching, as "#rrggbb" */
+  color?: string;
+  /** Luminance cut-off from 0 to 255, or the maximum color distance when matching a color */
+  threshold?: number;
+  /** Whether walls follow the middle or the edges of wall lines (defaults to centerline) */
+  trace?: WallDetectionTrace;
+  /** Shortest wall created, in scene pixels */
+  minSegmentLength?: number;
+  /** Maximum deviation in scene pixels when straightening traced lines */
+  simplifyTolerance?: number;
+  /** Longest side in pixels the image is reduced to before detection, trading detail for speed */
+  maxSize?: number;
+}
+
+/**
+ * Options for stamping a wall set into the current scene. Rotation and mirroring pivot on the set
+ * itself; `transform.offsetX` / `offsetY` shift it from its position.
+ */
+export interface WallStampOptions extends WallImportOptions {
+  /**
+   * Where the set goes: its top-left corner at a point in scene coordinates, centered in the current
+   * view, where it was saved from, or wherever the user clicks. Library sets default to "original",
+   * other walls to "cursor".
+   */
+  position?: { x: number, y: number } | "view" | "original" | "cursor";
+  /** Snap the set's corner to the grid while placing it with the mouse (defaults to true) */
+  snap?: boolean;
+}
+
+/**
+ * Wall properties to set in bulk. Properties left undefined are not changed.
+ */
+export interface WallPropertyChanges {
+  /** Movement restriction (CONST.WALL_MOVEMENT_TYPES) */
+  move?: number;
+  /** Sight restriction (CONST.WALL_SENSE_TYPES), written to `sense` on v9 */
+  sight?: number;
+  /** Light restriction (CONST.WALL_SENSE_TYPES) */
+  light?: number;
+  /** Sound restriction (CONST.WALL_SENSE_TYPES) */
+  sound?: number;
+  /** Door type (CONST.WALL_DOOR_TYPES) */
+  door?: number;
+  /** Door state (CONST.WALL_DOOR_STATES) */
+  ds?: number;
+  /** Direction (CONST.WALL_DIRECTIONS) */
+  dir?: number;
+  /**
+   * Proximity thresholds in grid distance units, v11 and later only. Null removes a threshold.
+   */
+  threshold?: {
+    light?: number | null;
+    sight?: number | null;
+    sound?: number | null;
+    /** Whether sound is attenuated by the wall */
+    attenuation?: boolean;
+  };
+}
+
+/**
+ * Source properties a wall must have for a mapping rule to apply. Every criterion that is set must match.
+ */
+export interface WallMappingMatch extends WallFilter {
+  /** Light restrictions (CONST.WALL_SENSE_TYPES) */
+  light?: number[];
+  /** Sound restrictions (CONST.WALL_SENSE_TYPES) */
+  sound?: number[];
+  /** Directions (CONST.WALL_DIRECTIONS) */
+  dir?: number[];
+  /** Flag values, keyed by their path below `flags`, e.g. `{ "auto-wall.kind": "window" }` */
+  flags?: Record<string, unknown>;
+}
+
+/**
+ * Changes imported walls matching a set of source properties
+ */
+export interface WallMappingRule {
+  match: WallMappingMatch;
+  set: WallPropertyChanges;
+}
+
+/**
+ * Named list of mapping rules saved in the module settings
+ */
+export interface WallMappingPreset {
+  name: string;
+  rules: WallMappingRule[];
+}
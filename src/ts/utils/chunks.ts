@@ -0,0 +1,134 @@
+// src/ts/utils/chunks.ts
+import { moduleId } from "../constants";
+import { WallData } from "../types";
+import { Rect } from "./geometry";
+import { SceneGeometry } from "./scene";
+
+/**
+ * Identifies the index of a chunked tiles export written by this module
+ */
+export const CHUNK_INDEX_FORMAT = `${moduleId}.tile-chunks`;
+export const CHUNK_INDEX_VERSION = 1;
+
+/**
+ * Name of the index file inside a chunked export
+ */
+export const CHUNK_INDEX_FILE = "index.json";
+
+/**
+ * Scene-space area covered by one chunk, and its position in the chunk grid
+ */
+export interface ChunkRect extends Rect {
+  row: number;
+  column: number;
+}
+
+/**
+ * A chunk image listed in the index
+ */
+export interface ChunkIndexEntry extends ChunkRect {
+  /** Path of the chunk image in the zip */
+  file: string;
+  /** Size of the chunk image in pixels */
+  pixelWidth: number;
+  pixelHeight: number;
+}
+
+/**
+ * Describes how the chunks of a chunked tiles export fit together
+ */
+export interface ChunkIndex {
+  format: string;
+  version: number;
+  created: string;
+  scene: {
+    id: string | null;
+    name: string | null;
+    geometry: SceneGeometry;
+  };
+  /** Image pixels per scene pixel */
+  scale: number;
+  /** Maximum chunk width and height in image pixels */
+  chunkSize: number;
+  /** Scene-space area covered by all chunks together */
+  region: Rect;
+  rows: number;
+  columns: number;
+  chunks: ChunkIndexEntry[];
+}
+
+/**
+ * Split a region into a grid of chunks no larger than a size in output pixels
+ * @param region Scene-space area to cover
+ * @param chunkSize Maximum chunk width and height in output pixels
+ * @param scale Output pixels per scene pixel
+ */
+export function planChunks(region: Rect, chunkSize: number, scale: number): ChunkRect[] {
+  const step = chunkSize / scale;
+  const columns = Math.max(1, Math.ceil(region.width / step));
+  const rows = Math.max(1, Math.ceil(region.height / step));
+  const chunks: ChunkRect[] = [];
+
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const x = region.x + column * step;
+      const y = region.y + row * step;
+      chunks.push({
+        row,
+        column,
+        x,
+        y,
+        width: Math.min(step, region.x + region.width - x),
+        height: Math.min(step, region.y + region.height - y)
+      });
+    }
+  }
+  return chunks;
+}
+
+/**
+ * File name of a chunk image, without extension
+ */
+export function chunkBaseName(chunk: ChunkRect): string {
+  return `chunk_r${chunk.row}_c${chunk.column}`;
+}
+
+/**
+ * Check whether parsed JSON is a chunk index
+ */
+export function isChunkIndex(data: unknown): data is ChunkIndex {
+  return typeof data === "object"
+    && data !== null
+    && (data as ChunkIndex).format === CHUNK_INDEX_FORMAT
+    && Array.isArray((data as ChunkIndex).chunks);
+}
+
+/**
+ * Find the chunk a wall file belongs to. A wall file belongs to a chunk when its name starts with the
+ * chunk image's name, e.g. `chunk_r0_c1.json` or `chunk_r0_c1_walls.json` for `chunk_r0_c1.png`.
+ */
+export function findChunkForFile(index: ChunkIndex, fileName: string): ChunkIndexEntry | undefined {
+  const name = fileName.split("/").pop() ?? fileName;
+  return index.chunks.find(chunk => {
+    const base = (chunk.file.split("/").pop() ?? chunk.file).replace(/\.[^.]+$/, "");
+    // Stop chunk_r1_c1 from matching chunk_r1_c10
+    return name.startsWith(base) && !/^\d/.test(name.slice(base.length));
+  });
+}
+
+/**
+ * Convert walls traced on a chunk image from image pixels to scene coordinates
+ * @param scale Image pixels per scene pixel
+ */
+export function chunkWallsToScene(walls: WallData[], chunk: Rect, scale: number): WallData[] {
+  // Malformed walls are passed through for import validation to report
+  return walls.map(wall => !Array.isArray(wall?.c) ? wall : ({
+    ...wall,
+    c: [
+      Math.round(chunk.x + wall.c[0] / scale),
+      Math.round(chunk.y + wall.c[1] / scale),
+      Math.round(chunk.x + wall.c[2] / scale),
+      Math.round(chunk.y + wall.c[3] / scale)
+    ]
+  }));
+}
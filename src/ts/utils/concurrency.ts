@@ -0,0 +1,66 @@
+// src/ts/utils/concurrency.ts
+
+/**
+ * Throw an AbortError if a signal has been aborted
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new DOMException("The operation was cancelled.", "AbortError");
+  }
+}
+
+/**
+ * Whether an error was thrown because an operation was cancelled
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
+/**
+ * Wait for a number of milliseconds
+ * @throws An AbortError if the signal is aborted while waiting
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      window.clearTimeout(timer);
+      reject(new DOMException("The operation was cancelled.", "AbortError"));
+    };
+    const timer = window.setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    if (signal?.aborted) onAbort();
+    else signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Run a task for every item with at most `limit` tasks in flight
+ * @param signal Stops starting new tasks once aborted; tasks already running are awaited
+ * @returns The task results, in the order of the items
+ * @throws An AbortError if the signal is aborted, or the first error thrown by a task
+ */
+export async function mapConcurrent<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>,
+  signal?: AbortSignal
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      throwIfAborted(signal);
+      const index = next++;
+      results[index] = await task(items[index], index);
+    }
+  };
+
+  const workers = Math.max(1, Math.min(Math.floor(limit), items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  throwIfAborted(signal);
+  return results;
+}
@@ -0,0 +1,248 @@
+// src/ts/utils/geometry.ts
+
+/**
+ * A point in scene coordinates
+ */
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * A line segment in scene coordinates
+ */
+export interface Segment {
+  a: Point;
+  b: Point;
+}
+
+/**
+ * An axis-aligned rectangle in scene coordinates
+ */
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Convert a wall's `c` array into a segment
+ */
+export function toSegment(c: number[]): Segment {
+  return { a: { x: c[0], y: c[1] }, b: { x: c[2], y: c[3] } };
+}
+
+/**
+ * Convert a segment back into a wall `c` array
+ */
+export function toCoordinates(segment: Segment): number[] {
+  return [segment.a.x, segment.a.y, segment.b.x, segment.b.y];
+}
+
+/**
+ * Euclidean distance between two points
+ */
+export function distance(p: Point, q: Point): number {
+  return Math.hypot(q.x - p.x, q.y - p.y);
+}
+
+/**
+ * Length of a segment
+ */
+export function segmentLength(segment: Segment): number {
+  return distance(segment.a, segment.b);
+}
+
+/**
+ * Whether two points are within a tolerance of each other
+ */
+export function pointsEqual(p: Point, q: Point, tolerance: number): boolean {
+  return distance(p, q) <= tolerance;
+}
+
+/**
+ * Whether two segments share both endpoints (in either direction) within a tolerance
+ */
+export function segmentsEqual(s: Segment, t: Segment, tolerance: number): boolean {
+  return (pointsEqual(s.a, t.a, tolerance) && pointsEqual(s.b, t.b, tolerance))
+    || (pointsEqual(s.a, t.b, tolerance) && pointsEqual(s.b, t.a, tolerance));
+}
+
+/**
+ * Parametric position of the projection of a point onto the infinite line through a segment
+ * (0 at `a`, 1 at `b`)
+ */
+export function projectionParameter(p: Point, segment: Segment): number {
+  const dx = segment.b.x - segment.a.x;
+  const dy = segment.b.y - segment.a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  if (lengthSquared === 0) return 0;
+  return ((p.x - segment.a.x) * dx + (p.y - segment.a.y) * dy) / lengthSquared;
+}
+
+/**
+ * Point on a segment at a parametric position
+ */
+export function pointAt(segment: Segment, t: number): Point {
+  return {
+    x: segment.a.x + (segment.b.x - segment.a.x) * t,
+    y: segment.a.y + (segment.b.y - segment.a.y) * t
+  };
+}
+
+/**
+ * Closest point on a segment to a point
+ */
+export function closestPointOnSegment(p: Point, segment: Segment): Point {
+  const t = Math.max(0, Math.min(1, projectionParameter(p, segment)));
+  return pointAt(segment, t);
+}
+
+/**
+ * Shortest distance from a point to a segment
+ */
+export function pointToSegmentDistance(p: Point, segment: Segment): number {
+  return distance(p, closestPointOnSegment(p, segment));
+}
+
+/**
+ * Distance from a point to the infinite line through a segment
+ */
+export function pointToLineDistance(p: Point, segment: Segment): number {
+  const length = segmentLength(segment);
+  if (length === 0) return distance(p, segment.a);
+  const cross = (segment.b.x - segment.a.x) * (p.y - segment.a.y) - (segment.b.y - segment.a.y) * (p.x - segment.a.x);
+  return Math.abs(cross) / length;
+}
+
+/**
+ * Whether two segments lie on the same line (within a tolerance) and overlap along it
+ */
+export function segmentsOverlap(s: Segment, t: Segment, tolerance: number): boolean {
+  if (pointToLineDistance(t.a, s) > tolerance || pointToLineDistance(t.b, s) > tolerance) return false;
+
+  const length = segmentLength(s);
+  if (length === 0) return false;
+
+  // Compare extents along s, allowing the tolerance at each end
+  const slack = tolerance / length;
+  const t0 = projectionParameter(t.a, s);
+  const t1 = projectionParameter(t.b, s);
+  return Math.max(t0, t1) >= -slack && Math.min(t0, t1) <= 1 + slack;
+}
+
+/**
+ * Whether segment t lies entirely within segment s (within a tolerance)
+ */
+export function segmentContains(s: Segment, t: Segment, tolerance: number): boolean {
+  return pointToSegmentDistance(t.a, s) <= tolerance && pointToSegmentDistance(t.b, s) <= tolerance;
+}
+
+/**
+ * Union of two overlapping collinear segments, spanning the furthest extents of both along s
+ */
+export function segmentUnion(s: Segment, t: Segment): Segment {
+  const params = [0, 1, projectionParameter(t.a, s), projectionParameter(t.b, s)];
+  return {
+    a: pointAt(s, Math.min(...params)),
+    b: pointAt(s, Math.max(...params))
+  };
+}
+
+/**
+ * Intersection point of two segments, or null if they do not cross. Parallel segments never intersect.
+ */
+export function segmentIntersection(s: Segment, t: Segment): Point | null {
+  const rx = s.b.x - s.a.x;
+  const ry = s.b.y - s.a.y;
+  const qx = t.b.x - t.a.x;
+  const qy = t.b.y - t.a.y;
+  const denominator = rx * qy - ry * qx;
+  if (denominator === 0) return null;
+
+  const dx = t.a.x - s.a.x;
+  const dy = t.a.y - s.a.y;
+  const u = (dx * qy - dy * qx) / denominator;
+  const v = (dx * ry - dy * rx) / denominator;
+  if (u < 0 || u > 1 || v < 0 || v > 1) return null;
+
+  return pointAt(s, u);
+}
+
+/**
+ * Whether a point lies inside a polygon (even-odd rule)
+ */
+export function pointInPolygon(p: Point, polygon: Point[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > p.y) !== (b.y > p.y) && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Smallest rectangle containing a set of points
+ */
+export function boundingRect(points: Point[]): Rect {
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+/**
+ * Rotate a point around a center by an angle in degrees
+ */
+export function rotatePoint(p: Point, center: Point, degrees: number): Point {
+  const radians = (degrees * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const dx = p.x - center.x;
+  const dy = p.y - center.y;
+  return {
+    x: center.x + dx * cos - dy * sin,
+    y: center.y + dx * sin + dy * cos
+  };
+}
+
+/**
+ * Simplify a polyline with the Douglas–Peucker algorithm, keeping every point that deviates more than
+ * a tolerance from the simplified line. The first and last points are always kept.
+ */
+export function simplifyPolyline(points: Point[], tolerance: number): Point[] {
+  if (points.length <= 2) return [...points];
+
+  const keep = new Array<boolean>(points.length).fill(false);
+  keep[0] = true;
+  keep[points.length - 1] = true;
+
+  // Iterative to stay safe on chains of thousands of points
+  const stack: [number, number][] = [[0, points.length - 1]];
+  while (stack.length > 0) {
+    const [start, end] = stack.pop()!;
+    const chord = { a: points[start], b: points[end] };
+    let furthest = -1;
+    let maxDistance = tolerance;
+
+    for (let i = start + 1; i < end; i++) {
+      const d = pointToSegmentDistance(points[i], chord);
+      if (d > maxDistance) {
+        maxDistance = d;
+        furthest = i;
+      }
+    }
+
+    if (furthest !== -1) {
+      keep[furthest] = true;
+      stack.push([start, furthest], [furthest, end]);
+    }
+  }
+
+  return points.filter((_, i) => keep[i]);
+}
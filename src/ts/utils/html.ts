@@ -0,0 +1,8 @@
+// src/ts/utils/html.ts
+
+/**
+ * Escape text for use in dialog HTML, including attribute values
+ */
+export function escapeHtml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
@@ -0,0 +1,95 @@
+// src/ts/utils/placeables.ts
+import { moduleId } from "../constants";
+import { DocumentEnvelope, PlaceableData, PlaceableType } from "../types";
+import { TransformFrame, transformPoint, WallTransform } from "./wall-transform";
+
+export const ENVELOPE_FORMAT = `${moduleId}.documents`;
+export const ENVELOPE_VERSION = 1;
+
+/**
+ * Every supported placeable type, in the order they are created
+ */
+export const PLACEABLE_TYPES: PlaceableType[] = ["Wall", "AmbientLight", "AmbientSound", "Tile"];
+
+/**
+ * Human readable labels for each placeable type
+ */
+export const PLACEABLE_LABELS: Record<PlaceableType, string> = {
+  Wall: "Walls",
+  AmbientLight: "Lights",
+  AmbientSound: "Sounds",
+  Tile: "Tiles"
+};
+
+/**
+ * Check whether parsed JSON is a document envelope
+ */
+export function isDocumentEnvelope(data: unknown): data is DocumentEnvelope {
+  return typeof data === "object"
+    && data !== null
+    && !Array.isArray(data)
+    && (data as DocumentEnvelope).format === ENVELOPE_FORMAT
+    && typeof (data as DocumentEnvelope).documents === "object";
+}
+
+/**
+ * Get the embedded collection of a placeable type on a scene
+ */
+export function getPlaceableCollection(scene: Scene, type: PlaceableType): any[] {
+  return (scene as any).getEmbeddedCollection(type)?.contents ?? [];
+}
+
+/**
+ * Check that a non-wall placeable has a usable position
+ */
+export function isValidPlaceable(data: unknown): data is PlaceableData {
+  if (typeof data !== "object" || data === null || Array.isArray(data)) return false;
+  const { x, y } = data as PlaceableData;
+  return typeof x === "number" && Number.isFinite(x) && typeof y === "number" && Number.isFinite(y);
+}
+
+/**
+ * Rotate a document's own rotation by a transform. A single mirror reverses the direction of rotation.
+ */
+function transformRotation(rotation: number, transform: WallTransform): number {
+  const sign = transform.flipX !== transform.flipY ? -1 : 1;
+  return (((sign * rotation + transform.rotation) % 360) + 360) % 360;
+}
+
+/**
+ * Apply an import transform to a light, sound or tile
+ */
+export function transformPlaceable(type: PlaceableType, data: PlaceableData, transform: WallTransform, frame: TransformFrame): PlaceableData {
+  if (type !== "Tile") {
+    const [x, y] = transformPoint(data.x, data.y, transform, frame);
+    const result: PlaceableData = { ...data, x: Math.round(x), y: Math.round(y) };
+    if (type === "AmbientLight" && data.rotation !== undefined) {
+      result.rotation = transformRotation(data.rotation, transform);
+    }
+    return result;
+  }
+
+  // Tiles are positioned by their top-left corner, so transform the center and rebuild the corner
+  const width = (data.width ?? 0) * transform.scale;
+  const height = (data.height ?? 0) * transform.scale;
+  const [centerX, centerY] = transformPoint(
+    data.x + (data.width ?? 0) / 2,
+    data.y + (data.height ?? 0) / 2,
+    transform,
+    frame
+  );
+
+  const texture = data.texture ? { ...data.texture } : undefined;
+  if (texture && transform.flipX) texture.scaleX = -(texture.scaleX ?? 1);
+  if (texture && transform.flipY) texture.scaleY = -(texture.scaleY ?? 1);
+
+  return {
+    ...data,
+    ...(texture ? { texture } : {}),
+    x: Math.round(centerX - width / 2),
+    y: Math.round(centerY - height / 2),
+    width: Math.round(width),
+    height: Math.round(height),
+    rotation: transformRotation(data.rotation ?? 0, transform)
+  };
+}
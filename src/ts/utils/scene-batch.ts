@@ -0,0 +1,98 @@
+// src/ts/utils/scene-batch.ts
+import { moduleId } from "../constants";
+import { Rect } from "./geometry";
+import { SceneGeometry } from "./scene";
+
+/**
+ * Identifies the manifest of a multi-scene export written by this module
+ */
+export const SCENE_BATCH_FORMAT = `${moduleId}.scene-batch`;
+export const SCENE_BATCH_VERSION = 1;
+
+/**
+ * Name of the manifest file inside a multi-scene export
+ */
+export const SCENE_BATCH_MANIFEST = "manifest.json";
+
+/**
+ * A scene in a multi-scene export
+ */
+export interface SceneBatchEntry {
+  id: string | null;
+  name: string | null;
+  /** Folder path of the scene, e.g. "Act 1/Dungeons" */
+  folder: string | null;
+  geometry: SceneGeometry;
+  /** Paths of the scene's files in the zip */
+  files: {
+    walls: string;
+    tiles?: string;
+  };
+  counts: {
+    walls: number;
+  };
+  /** Scene-space area covered by the tiles image */
+  tiles?: Rect;
+}
+
+/**
+ * Describes the scenes in a multi-scene export
+ */
+export interface SceneBatchManifest {
+  format: string;
+  version: number;
+  moduleVersion: string;
+  foundryVersion: string;
+  created: string;
+  scenes: SceneBatchEntry[];
+}
+
+/**
+ * Check whether parsed JSON is a multi-scene export manifest
+ */
+export function isSceneBatchManifest(data: unknown): data is SceneBatchManifest {
+  return typeof data === "object"
+    && data !== null
+    && (data as SceneBatchManifest).format === SCENE_BATCH_FORMAT
+    && Array.isArray((data as SceneBatchManifest).scenes);
+}
+
+/**
+ * Directory in the zip holding one scene's files. The position keeps scenes with the same name apart.
+ */
+export function sceneBatchDirectory(index: number, name: string | null): string {
+  const slug = (name ?? "").trim().replace(/[^\w-]+/g, "_").replace(/^_+|_+$/g, "") || "scene";
+  return `scenes/${String(index + 1).padStart(3, "0")}_${slug}`;
+}
+
+/**
+ * Normalize a scene name for matching
+ */
+function nameKey(name: string | null | undefined): string {
+  return (name ?? "").trim().toLowerCase();
+}
+
+/**
+ * Match exported scenes to scenes in the world, first by ID and then by name, using each world
+ * scene at most once
+ * @returns The ID of the matching world scene for each entry, or null if there is none
+ */
+export function matchBatchScenes(entries: { id: string | null, name: string | null }[], scenes: { id: string | null, name: string | null }[]): (string | null)[] {
+  const used = new Set<string>();
+  const matches: (string | null)[] = entries.map(entry => {
+    const scene = entry.id ? scenes.find(scene => scene.id === entry.id) : undefined;
+    if (!scene?.id) return null;
+    used.add(scene.id);
+    return scene.id;
+  });
+
+  entries.forEach((entry, i) => {
+    if (matches[i] || !nameKey(entry.name)) return;
+    const scene = scenes.find(scene => scene.id && !used.has(scene.id) && nameKey(scene.name) === nameKey(entry.name));
+    if (!scene?.id) return;
+    used.add(scene.id);
+    matches[i] = scene.id;
+  });
+
+  return matches;
+}
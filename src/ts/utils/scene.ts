@@ -0,0 +1,58 @@
+// src/ts/utils/scene.ts
+import { Rect } from "./geometry";
+
+/**
+ * Size and placement information for a scene, independent of the Foundry version
+ */
+export interface SceneGeometry {
+  /** Grid size in pixels */
+  gridSize: number;
+  /** Scene padding as a fraction of the scene size */
+  padding: number;
+  /** Top-left corner of the scene image in canvas coordinates */
+  sceneX: number;
+  sceneY: number;
+  /** Size of the scene image in pixels */
+  sceneWidth: number;
+  sceneHeight: number;
+  /** Size of the whole canvas including padding */
+  width: number;
+  height: number;
+}
+
+/**
+ * Read a scene's grid size and dimensions
+ */
+export function getSceneGeometry(scene: Scene): SceneGeometry {
+  const sceneData = scene as any;
+  const dimensions = sceneData.dimensions;
+  const sceneWidth = dimensions?.sceneWidth ?? sceneData.width ?? 0;
+  const sceneHeight = dimensions?.sceneHeight ?? sceneData.height ?? 0;
+
+  return {
+    gridSize: sceneData.grid?.size ?? sceneData.grid ?? 100,
+    padding: sceneData.padding ?? 0,
+    sceneX: dimensions?.sceneX ?? 0,
+    sceneY: dimensions?.sceneY ?? 0,
+    sceneWidth,
+    sceneHeight,
+    width: dimensions?.width ?? sceneWidth,
+    height: dimensions?.height ?? sceneHeight
+  };
+}
+
+/**
+ * Get the path of a scene's background image, handling both the v9 `img` and v10+ `background.src` fields
+ */
+export function getSceneBackgroundSrc(scene: Scene): string | null {
+  const sceneData = scene as any;
+  return sceneData.background?.src ?? sceneData.img ?? null;
+}
+
+/**
+ * The rectangle covered by the scene image, excluding padding
+ */
+export function getSceneRect(scene: Scene): Rect {
+  const geometry = getSceneGeometry(scene);
+  return { x: geometry.sceneX, y: geometry.sceneY, width: geometry.sceneWidth, height: geometry.sceneHeight };
+}
@@ -0,0 +1,103 @@
+// src/ts/utils/spatial-index.ts
+import { Point, Segment } from "./geometry";
+
+/**
+ * Uniform grid for finding items near a point without comparing every pair
+ */
+export class SpatialIndex<T> {
+  private readonly cells = new Map<string, T[]>();
+
+  /**
+   * @param cellSize Grid cell size in pixels; use roughly the largest search radius
+   */
+  constructor(private readonly cellSize: number) {
+    this.cellSize = Math.max(1, cellSize);
+  }
+
+  private key(cx: number, cy: number): string {
+    return `${cx},${cy}`;
+  }
+
+  /**
+   * Add an item covering a bounding box
+   */
+  insert(item: T, minX: number, minY: number, maxX: number, maxY: number): void {
+    const x0 = Math.floor(minX / this.cellSize);
+    const y0 = Math.floor(minY / this.cellSize);
+    const x1 = Math.floor(maxX / this.cellSize);
+    const y1 = Math.floor(maxY / this.cellSize);
+
+    for (let cx = x0; cx <= x1; cx++) {
+      for (let cy = y0; cy <= y1; cy++) {
+        const key = this.key(cx, cy);
+        const cell = this.cells.get(key);
+        if (cell) {
+          cell.push(item);
+        } else {
+          this.cells.set(key, [item]);
+        }
+      }
+    }
+  }
+
+  /**
+   * Add a point item
+   */
+  insertPoint(item: T, point: Point): void {
+    this.insert(item, point.x, point.y, point.x, point.y);
+  }
+
+  /**
+   * Add a segment item
+   */
+  insertSegment(item: T, segment: Segment): void {
+    this.insert(
+      item,
+      Math.min(segment.a.x, segment.b.x),
+      Math.min(segment.a.y, segment.b.y),
+      Math.max(segment.a.x, segment.b.x),
+      Math.max(segment.a.y, segment.b.y)
+    );
+  }
+
+  /**
+   * Get the items whose cells overlap a bounding box. Results may include items outside the box
+   * and are de-duplicated.
+   */
+  queryBox(minX: number, minY: number, maxX: number, maxY: number): T[] {
+    const x0 = Math.floor(minX / this.cellSize);
+    const y0 = Math.floor(minY / this.cellSize);
+    const x1 = Math.floor(maxX / this.cellSize);
+    const y1 = Math.floor(maxY / this.cellSize);
+    const found = new Set<T>();
+
+    for (let cx = x0; cx <= x1; cx++) {
+      for (let cy = y0; cy <= y1; cy++) {
+        for (const item of this.cells.get(this.key(cx, cy)) ?? []) {
+          found.add(item);
+        }
+      }
+    }
+    return [...found];
+  }
+
+  /**
+   * Get the items whose cells are within a radius of a point. Results may include items further away
+   * than the radius and are de-duplicated.
+   */
+  query(point: Point, radius: number): T[] {
+    return this.queryBox(point.x - radius, point.y - radius, point.x + radius, point.y + radius);
+  }
+
+  /**
+   * Get the items whose cells overlap a segment's bounding box
+   */
+  querySegment(segment: Segment): T[] {
+    return this.queryBox(
+      Math.min(segment.a.x, segment.b.x),
+      Math.min(segment.a.y, segment.b.y),
+      Math.max(segment.a.x, segment.b.x),
+      Math.max(segment.a.y, segment.b.y)
+    );
+  }
+}
@@ -0,0 +1,510 @@
+// src/ts/utils/svg.ts
+import { WallData } from "../types";
+import { Point, pointToLineDistance } from "./geometry";
+import { getWallCategory, WALL_CATEGORY_COLORS } from "./wall-types";
+
+/**
+ * Scene information needed to write an SVG file
+ */
+export interface SvgExportOptions {
+  /** Scene image width and height in pixels */
+  width: number;
+  height: number;
+  /** Top-left corner of the scene image in canvas coordinates (the scene padding) */
+  offsetX: number;
+  offsetY: number;
+  /** Stroke width for walls */
+  strokeWidth: number;
+  /** Absolute URL of the scene background to draw underneath the walls */
+  backgroundUrl?: string;
+}
+
+/**
+ * Wall properties written as data attributes so they survive a round trip through a vector editor
+ */
+const WALL_ATTRIBUTES = ["move", "sight", "sense", "light", "sound", "door", "ds", "dir"] as const;
+
+/**
+ * Maximum subdivision depth when flattening curves
+ */
+const MAX_CURVE_DEPTH = 12;
+
+/**
+ * Maximum number of segments an arc is flattened into
+ */
+const MAX_ARC_SEGMENTS = 1024;
+
+/**
+ * Elements whose shapes are not drawn where they appear, such as symbols and clip paths
+ */
+const UNRENDERED_CONTAINERS = "defs, symbol, clipPath, mask, pattern, marker";
+
+/**
+ * A 2D affine transform [a, b, c, d, e, f], mapping (x, y) to (a·x + c·y + e, b·x + d·y + f) as in SVG
+ */
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+/**
+ * Check whether text looks like an SVG document
+ */
+export function isSvg(text: string): boolean {
+  return /^\s*(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*(<!DOCTYPE[^>]*>\s*)?<svg[\s>]/i.test(text);
+}
+
+/**
+ * Escape a value for use in an XML attribute
+ */
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;");
+}
+
+/**
+ * Convert walls to an SVG document with one line per wall, styled by wall type
+ */
+export function wallsToSvg(walls: WallData[], options: SvgExportOptions): string {
+  const lines = walls.map(wall => {
+    const [x0, y0, x1, y1] = wall.c;
+    const category = getWallCategory(wall);
+    const color = `#${WALL_CATEGORY_COLORS[category].toString(16).padStart(6, "0")}`;
+    const dashed = category === "secret" || category === "invisible" ? ` stroke-dasharray="${options.strokeWidth * 3} ${options.strokeWidth * 2}"` : "";
+    const width = category === "door" || category === "secret" ? options.strokeWidth * 2 : options.strokeWidth;
+    const data = WALL_ATTRIBUTES
+      .filter(key => wall[key] !== undefined)
+      .map(key => ` data-${key}="${wall[key]}"`)
+      .join("");
+
+    return `    <line class="${category}" x1="${x0 - options.offsetX}" y1="${y0 - options.offsetY}" x2="${x1 - options.offsetX}" y2="${y1 - options.offsetY}" stroke="${color}" stroke-width="${width}"${dashed}${data}/>`;
+  });
+
+  const background = options.backgroundUrl
+    ? `  <image id="background" href="${escapeAttribute(options.backgroundUrl)}" x="0" y="0" width="${options.width}" height="${options.height}"/>\n`
+    : "";
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" width="${options.width}" height="${options.height}" viewBox="0 0 ${options.width} ${options.height}">
+${background}  <g id="walls" stroke-linecap="round" fill="none">
+${lines.join("\n")}
+  </g>
+</svg>
+`;
+}
+
+/**
+ * Read wall properties stored as data attributes on an element
+ */
+function readWallAttributes(element: Element): Partial<WallData> {
+  const properties: Partial<WallData> = {};
+  for (const key of WALL_ATTRIBUTES) {
+    const value = element.getAttribute(`data-${key}`);
+    if (value !== null && value !== "" && Number.isFinite(Number(value))) {
+      properties[key] = Number(value);
+    }
+  }
+  return properties;
+}
+
+/**
+ * Parse an SVG points attribute ("x1,y1 x2,y2 ...")
+ */
+function parsePoints(value: string | null): Point[] {
+  const numbers = (value ?? "").match(/-?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?/gi)?.map(Number) ?? [];
+  const points: Point[] = [];
+  for (let i = 0; i + 1 < numbers.length; i += 2) {
+    points.push({ x: numbers[i], y: numbers[i + 1] });
+  }
+  return points;
+}
+
+/**
+ * Flatten a cubic Bézier curve into points (excluding the start point) by recursive subdivision
+ */
+function flattenCubic(p0: Point, p1: Point, p2: Point, p3: Point, tolerance: number, depth = 0): Point[] {
+  const chord = { a: p0, b: p3 };
+  const flat = Math.max(pointToLineDistance(p1, chord), pointToLineDistance(p2, chord)) <= tolerance;
+  if (flat || depth >= MAX_CURVE_DEPTH) return [p3];
+
+  const mid = (p: Point, q: Point): Point => ({ x: (p.x + q.x) / 2, y: (p.y + q.y) / 2 });
+  const p01 = mid(p0, p1);
+  const p12 = mid(p1, p2);
+  const p23 = mid(p2, p3);
+  const p012 = mid(p01, p12);
+  const p123 = mid(p12, p23);
+  const center = mid(p012, p123);
+
+  return [
+    ...flattenCubic(p0, p01, p012, center, tolerance, depth + 1),
+    ...flattenCubic(center, p123, p23, p3, tolerance, depth + 1)
+  ];
+}
+
+/**
+ * Flatten a quadratic Bézier curve by raising it to a cubic
+ */
+function flattenQuadratic(p0: Point, p1: Point, p2: Point, tolerance: number): Point[] {
+  const c1 = { x: p0.x + (2 / 3) * (p1.x - p0.x), y: p0.y + (2 / 3) * (p1.y - p0.y) };
+  const c2 = { x: p2.x + (2 / 3) * (p1.x - p2.x), y: p2.y + (2 / 3) * (p1.y - p2.y) };
+  return flattenCubic(p0, c1, c2, p2, tolerance);
+}
+
+/**
+ * Flatten an elliptical arc into points (excluding the start point), converting it from the endpoint
+ * form used in path data to its center form as described in the SVG specification
+ * @param rotation Rotation of the ellipse's x axis in degrees
+ */
+function flattenArc(p0: Point, rx: number, ry: number, rotation: number, largeArc: boolean, sweep: boolean, p1: Point, tolerance: number): Point[] {
+  if (p0.x === p1.x && p0.y === p1.y) return [];
+  rx = Math.abs(rx);
+  ry = Math.abs(ry);
+  if (rx === 0 || ry === 0) return [p1];
+
+  const phi = rotation * Math.PI / 180;
+  const cos = Math.cos(phi);
+  const sin = Math.sin(phi);
+
+  // Start point in the ellipse's own axes, relative to the midpoint of the chord
+  const dx = (p0.x - p1.x) / 2;
+  const dy = (p0.y - p1.y) / 2;
+  const x1 = cos * dx + sin * dy;
+  const y1 = -sin * dx + cos * dy;
+
+  // Radii too small to reach the end point are scaled up just enough
+  const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+
+  const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+  const denominator = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+  const factor = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, numerator / denominator));
+  const cx1 = factor * rx * y1 / ry;
+  const cy1 = -factor * ry * x1 / rx;
+  const cx = cos * cx1 - sin * cy1 + (p0.x + p1.x) / 2;
+  const cy = sin * cx1 + cos * cy1 + (p0.y + p1.y) / 2;
+
+  const angle = (ux: number, uy: number, vx: number, vy: number) => Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+  const start = angle(1, 0, (x1 - cx1) / rx, (y1 - cy1) / ry);
+  let delta = angle((x1 - cx1) / rx, (y1 - cy1) / ry, (-x1 - cx1) / rx, (-y1 - cy1) / ry);
+  if (!sweep && delta > 0) delta -= 2 * Math.PI;
+  if (sweep && delta < 0) delta += 2 * Math.PI;
+
+  // Each segment's chord may stray at most the tolerance from the arc
+  const radius = Math.max(rx, ry);
+  const step = tolerance > 0 && tolerance < radius ? 2 * Math.acos(1 - tolerance / radius) : Math.PI / 2;
+  const segments = Math.min(MAX_ARC_SEGMENTS, Math.max(1, Math.ceil(Math.abs(delta) / step)));
+
+  const points: Point[] = [];
+  for (let i = 1; i < segments; i++) {
+    const theta = start + delta * i / segments;
+    const ex = rx * Math.cos(theta);
+    const ey = ry * Math.sin(theta);
+    points.push({ x: cos * ex - sin * ey + cx, y: sin * ex + cos * ey + cy });
+  }
+  points.push(p1);
+  return points;
+}
+
+/**
+ * Parse SVG path data into polylines, flattening curves and arcs.
+ */
+export function parsePathData(d: string, tolerance: number): Point[][] {
+  const tokens = d.match(/[MmLlHhVvCcSsQqTtAaZz]|-?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?/gi) ?? [];
+  const polylines: Point[][] = [];
+  let current: Point[] = [];
+  let position: Point = { x: 0, y: 0 };
+  let subpathStart: Point = { x: 0, y: 0 };
+  let lastControl: Point | null = null;
+  let command = "";
+  let index = 0;
+
+  const isCommand = (token: string) => /^[a-z]$/i.test(token);
+  const next = () => Number(tokens[index++]);
+  // Arc flags may be written without separators, e.g. "a10 10 0 011 20"
+  const nextFlag = () => {
+    const token = tokens[index] ?? "";
+    if (/^[01]./.test(token)) {
+      tokens[index] = token.slice(1);
+      return token[0] === "1";
+    }
+    index++;
+    return Number(token) !== 0;
+  };
+  const finish = () => {
+    if (current.length > 1) polylines.push(current);
+    current = [];
+  };
+
+  while (index < tokens.length) {
+    if (isCommand(tokens[index])) {
+      command = tokens[index++];
+    } else if (!command) {
+      // Numbers without a command are invalid, skip them
+      index++;
+      continue;
+    }
+
+    const relative = command === command.toLowerCase();
+    const base = relative ? position : { x: 0, y: 0 };
+    const point = (x: number, y: number): Point => ({ x: base.x + x, y: base.y + y });
+
+    switch (command.toUpperCase()) {
+      case "M": {
+        finish();
+        position = point(next(), next());
+        subpathStart = position;
+        current = [position];
+        // Further coordinate pairs are implicit line commands
+        command = relative ? "l" : "L";
+        lastControl = null;
+        break;
+      }
+      case "L":
+        position = point(next(), next());
+        current.push(position);
+        lastControl = null;
+        break;
+      case "H":
+        position = { x: (relative ? position.x : 0) + next(), y: position.y };
+        current.push(position);
+        lastControl = null;
+        break;
+      case "V":
+        position = { x: position.x, y: (relative ? position.y : 0) + next() };
+        current.push(position);
+        lastControl = null;
+        break;
+      case "C": {
+        const c1 = point(next(), next());
+        const c2 = point(next(), next());
+        const end = point(next(), next());
+        current.push(...flattenCubic(position, c1, c2, end, tolerance));
+        lastControl = c2;
+        position = end;
+        break;
+      }
+      case "S": {
+        const c1: Point = lastControl ? { x: 2 * position.x - lastControl.x, y: 2 * position.y - lastControl.y } : position;
+        const c2 = point(next(), next());
+        const end = point(next(), next());
+        current.push(...flattenCubic(position, c1, c2, end, tolerance));
+        lastControl = c2;
+        position = end;
+        break;
+      }
+      case "Q": {
+        const control = point(next(), next());
+        const end = point(next(), next());
+        current.push(...flattenQuadratic(position, control, end, tolerance));
+        lastControl = control;
+        position = end;
+        break;
+      }
+      case "T": {
+        const control: Point = lastControl ? { x: 2 * position.x - lastControl.x, y: 2 * position.y - lastControl.y } : position;
+        const end = point(next(), next());
+        current.push(...flattenQuadratic(position, control, end, tolerance));
+        lastControl = control;
+        position = end;
+        break;
+      }
+      case "A": {
+        const rx = next();
+        const ry = next();
+        const rotation = next();
+        const largeArc = nextFlag();
+        const sweep = nextFlag();
+        const end = point(next(), next());
+        if (Number.isFinite(end.x) && Number.isFinite(end.y)) {
+          current.push(...flattenArc(position, rx, ry, rotation, largeArc, sweep, end, tolerance));
+        }
+        position = end;
+        lastControl = null;
+        break;
+      }
+      case "Z": {
+        if (current.length > 0) current.push(subpathStart);
+        position = subpathStart;
+        finish();
+        current = [position];
+        lastControl = null;
+        // Z takes no arguments; stop any numbers that follow being read as another Z
+        command = "";
+        break;
+      }
+    }
+
+    // Stop on malformed data such as missing arguments
+    if (!Number.isFinite(position.x) || !Number.isFinite(position.y)) break;
+  }
+
+  finish();
+  return polylines;
+}
+
+/**
+ * Combine two transforms, applying `n` first and then `m`
+ */
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5]
+  ];
+}
+
+/**
+ * Apply a transform to a point
+ */
+function applyMatrix(m: Matrix, p: Point): Point {
+  return { x: m[0] * p.x + m[2] * p.y + m[4], y: m[1] * p.x + m[3] * p.y + m[5] };
+}
+
+/**
+ * Parse an SVG transform attribute, e.g. "translate(10 20) rotate(45)"
+ */
+function parseTransform(value: string | null): Matrix {
+  let matrix: Matrix = IDENTITY;
+  for (const [, name, args] of (value ?? "").matchAll(/(\w+)\s*\(([^)]*)\)/g)) {
+    const n = args.match(/-?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?/gi)?.map(Number) ?? [];
+    const radians = (degrees: number) => degrees * Math.PI / 180;
+    let next: Matrix = IDENTITY;
+
+    switch (name) {
+      case "matrix":
+        if (n.length >= 6) next = [n[0], n[1], n[2], n[3], n[4], n[5]];
+        break;
+      case "translate":
+        next = [1, 0, 0, 1, n[0] ?? 0, n[1] ?? 0];
+        break;
+      case "scale":
+        next = [n[0] ?? 1, 0, 0, n[1] ?? n[0] ?? 1, 0, 0];
+        break;
+      case "rotate": {
+        const a = radians(n[0] ?? 0);
+        const [cx, cy] = [n[1] ?? 0, n[2] ?? 0];
+        next = multiply(multiply([1, 0, 0, 1, cx, cy], [Math.cos(a), Math.sin(a), -Math.sin(a), Math.cos(a), 0, 0]), [1, 0, 0, 1, -cx, -cy]);
+        break;
+      }
+      case "skewX":
+        next = [1, 0, Math.tan(radians(n[0] ?? 0)), 1, 0, 0];
+        break;
+      case "skewY":
+        next = [1, Math.tan(radians(n[0] ?? 0)), 0, 1, 0, 0];
+        break;
+    }
+    matrix = multiply(matrix, next);
+  }
+  return matrix;
+}
+
+/**
+ * The transform from the root element's viewBox to pixels, following its width, height and
+ * preserveAspectRatio. Without a width and height, viewBox units are taken as pixels.
+ */
+function viewBoxMatrix(root: Element): Matrix {
+  const viewBox = (root.getAttribute("viewBox") ?? "").trim().split(/[\s,]+/).map(Number);
+  if (viewBox.length !== 4 || !viewBox.every(Number.isFinite) || viewBox[2] <= 0 || viewBox[3] <= 0) return IDENTITY;
+  const [minX, minY, viewWidth, viewHeight] = viewBox;
+
+  // Only absolute sizes say how large the drawing is; percentages fill whatever contains it
+  const size = (name: string) => {
+    const value = root.getAttribute(name) ?? "";
+    return /%/.test(value) ? NaN : parseFloat(value);
+  };
+  const width = size("width");
+  const height = size("height");
+  if (!Number.isFinite(width) || !Number.isFinite(height)) return [1, 0, 0, 1, -minX, -minY];
+
+  let scaleX = width / viewWidth;
+  let scaleY = height / viewHeight;
+  let offsetX = 0;
+  let offsetY = 0;
+  const aspect = (root.getAttribute("preserveAspectRatio") ?? "").trim();
+  if (!aspect.startsWith("none")) {
+    // Uniform scaling, aligned as requested (centered by default)
+    const scale = /\bslice\b/.test(aspect) ? Math.max(scaleX, scaleY) : Math.min(scaleX, scaleY);
+    const align = (aspect.match(/x(Min|Mid|Max)Y(Min|Mid|Max)/) ?? [, "Mid", "Mid"]) as string[];
+    const fraction = (position: string) => position === "Min" ? 0 : position === "Max" ? 1 : 0.5;
+    offsetX = (width - viewWidth * scale) * fraction(align[1]);
+    offsetY = (height - viewHeight * scale) * fraction(align[2]);
+    scaleX = scale;
+    scaleY = scale;
+  }
+  return [scaleX, 0, 0, scaleY, offsetX - minX * scaleX, offsetY - minY * scaleY];
+}
+
+/**
+ * The transform from an element's coordinates to the document's pixels, combining the viewBox and
+ * the transforms of the element and its ancestors
+ */
+function elementMatrix(element: Element, root: Element): Matrix {
+  const transforms: Matrix[] = [];
+  for (let current: Element | null = element; current && current !== root; current = current.parentElement) {
+    transforms.unshift(parseTransform(current.getAttribute("transform")));
+  }
+  return transforms.reduce(multiply, multiply(viewBoxMatrix(root), parseTransform(root.getAttribute("transform"))));
+}
+
+/**
+ * Convert an SVG document into walls. Lines, polylines, polygons and paths are supported, with
+ * element and group transforms and the document's viewBox applied.
+ * @param text The SVG document
+ * @param tolerance Maximum distance in pixels between a flattened curve and the original
+ */
+export function svgToWalls(text: string, tolerance: number): WallData[] {
+  const doc = new DOMParser().parseFromString(text, "image/svg+xml");
+  if (doc.querySelector("parsererror")) {
+    throw new Error("Invalid SVG document");
+  }
+
+  const root = doc.documentElement;
+  const walls: WallData[] = [];
+  const addPolyline = (points: Point[], properties: Partial<WallData>, matrix: Matrix) => {
+    const placed = points.map(point => applyMatrix(matrix, point));
+    for (let i = 0; i < placed.length - 1; i++) {
+      const a = placed[i];
+      const b = placed[i + 1];
+      walls.push({ ...properties, c: [a.x, a.y, b.x, b.y].map(Math.round) });
+    }
+  };
+
+  doc.querySelectorAll("line, polyline, polygon, path").forEach(element => {
+    if (element.closest(UNRENDERED_CONTAINERS)) return;
+
+    const properties = readWallAttributes(element);
+    const matrix = elementMatrix(element, root);
+
+    switch (element.tagName.toLowerCase()) {
+      case "line": {
+        const value = (name: string) => parseFloat(element.getAttribute(name) ?? "0") || 0;
+        addPolyline([{ x: value("x1"), y: value("y1") }, { x: value("x2"), y: value("y2") }], properties, matrix);
+        break;
+      }
+      case "polyline":
+        addPolyline(parsePoints(element.getAttribute("points")), properties, matrix);
+        break;
+      case "polygon": {
+        const points = parsePoints(element.getAttribute("points"));
+        if (points.length > 2) points.push(points[0]);
+        addPolyline(points, properties, matrix);
+        break;
+      }
+      case "path": {
+        // Flatten finely enough that the tolerance still holds once the path is scaled up
+        const scale = Math.max(Math.hypot(matrix[0], matrix[1]), Math.hypot(matrix[2], matrix[3]), 1e-6);
+        for (const polyline of parsePathData(element.getAttribute("d") ?? "", tolerance / scale)) {
+          addPolyline(polyline, properties, matrix);
+        }
+        break;
+      }
+    }
+  });
+
+  // Drop segments that collapsed to a point after rounding
+  return walls.filter(wall => wall.c[0] !== wall.c[2] || wall.c[1] !== wall.c[3]);
+}
@@ -0,0 +1,112 @@
+// src/ts/utils/tiles.ts
+import { TileLayerFilter } from "../types";
+
+/**
+ * Everything needed to draw a tile, independent of the Foundry version
+ */
+export interface TileRenderData {
+  src: string | null;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Rotation in degrees around the tile's center */
+  rotation: number;
+  flipX: boolean;
+  flipY: boolean;
+  /** Opacity from 0 to 1 */
+  alpha: number;
+  /** Tint color as a PIXI hex value, or null for none */
+  tint: number | null;
+  elevation: number;
+  sort: number;
+  /** Whether the tile is drawn above tokens (overhead / foreground) */
+  foreground: boolean;
+  /** The tile document, for access to its canvas object */
+  document: any;
+}
+
+/**
+ * File extensions Foundry plays as video
+ */
+const VIDEO_EXTENSIONS = ["mp4", "m4v", "webm", "ogv", "ogg", "mov"];
+
+/**
+ * Whether a texture path points to a video
+ */
+export function isVideoSource(src: string): boolean {
+  const extension = src.split(/[?#]/)[0].split(".").pop()?.toLowerCase() ?? "";
+  return VIDEO_EXTENSIONS.includes(extension);
+}
+
+/**
+ * Parse a tint stored as a "#rrggbb" string or a number
+ * @returns The color, or null for no tint (white)
+ */
+export function parseTint(tint: unknown): number | null {
+  let color: number | null = null;
+  if (typeof tint === "number" && Number.isFinite(tint)) {
+    color = tint;
+  } else if (typeof tint === "string" && /^#?[0-9a-f]{6}$/i.test(tint.trim())) {
+    color = parseInt(tint.trim().replace("#", ""), 16);
+  } else if (tint && typeof (tint as any).valueOf === "function" && typeof (tint as any).valueOf() === "number") {
+    // v11+ Color objects
+    color = (tint as any).valueOf();
+  }
+  return color === null || color === 0xffffff ? null : color;
+}
+
+/**
+ * Read how a tile document is drawn, handling v9 fields (`img`, `tint`, `overhead`, `z`, negative sizes)
+ * and v10+ fields (`texture`, `elevation`, `sort`)
+ * @param foregroundElevation The scene's foreground elevation, for versions that place overhead tiles by elevation
+ */
+export function readTileRenderData(tile: any, foregroundElevation?: number): TileRenderData {
+  // Canvas placeables wrap the document; documents have the fields directly
+  const data = tile.document ?? tile;
+  const texture = data.texture ?? {};
+  const width = data.width ?? 0;
+  const height = data.height ?? 0;
+  const elevation = data.elevation ?? 0;
+
+  // v9 mirrors with negative sizes, v10+ with negative texture scales
+  const flipX = width < 0 !== (texture.scaleX ?? 1) < 0;
+  const flipY = height < 0 !== (texture.scaleY ?? 1) < 0;
+
+  let foreground = !!data.overhead;
+  if (data.overhead === undefined && foregroundElevation !== undefined) {
+    foreground = elevation >= foregroundElevation;
+  }
+
+  return {
+    src: texture.src ?? data.img ?? null,
+    x: data.x ?? 0,
+    y: data.y ?? 0,
+    width: Math.abs(width),
+    height: Math.abs(height),
+    rotation: data.rotation ?? 0,
+    flipX,
+    flipY,
+    alpha: data.alpha ?? 1,
+    tint: parseTint(texture.tint ?? data.tint),
+    elevation,
+    sort: data.sort ?? data.z ?? 0,
+    foreground,
+    document: data
+  };
+}
+
+/**
+ * Filter tiles by layer and sort them into drawing order: background before foreground, then by
+ * elevation, then by sort order
+ */
+export function orderTilesForRender(tiles: TileRenderData[], filter: TileLayerFilter = "all"): TileRenderData[] {
+  return tiles
+    .filter(tile => filter === "all" || tile.foreground === (filter === "foreground"))
+    .map((tile, index) => ({ tile, index }))
+    .sort((a, b) => Number(a.tile.foreground) - Number(b.tile.foreground)
+      || a.tile.elevation - b.tile.elevation
+      || a.tile.sort - b.tile.sort
+      || a.index - b.index)
+    .map(({ tile }) => tile);
+}
@@ -0,0 +1,146 @@
+// src/ts/utils/uvtt.ts
+import { WALL_DOOR, WALL_DOOR_STATE, WALL_SENSE } from "../constants";
+import { WallData } from "../types";
+import { getSightRestriction } from "./wall-types";
+
+/**
+ * A point in Universal VTT grid units
+ */
+interface UniversalVttPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * A door or window in a Universal VTT file
+ */
+interface UniversalVttPortal {
+  position: UniversalVttPoint;
+  bounds: UniversalVttPoint[];
+  rotation: number;
+  closed: boolean;
+  freestanding: boolean;
+}
+
+/**
+ * The parts of a Universal VTT (.dd2vtt / .uvtt) file used for walls
+ */
+export interface UniversalVttData {
+  format: number;
+  resolution: {
+    map_origin: UniversalVttPoint;
+    map_size: UniversalVttPoint;
+    pixels_per_grid: number;
+  };
+  line_of_sight: UniversalVttPoint[][];
+  objects_line_of_sight?: UniversalVttPoint[][];
+  portals: UniversalVttPortal[];
+  lights: any[];
+  environment?: Record<string, any>;
+  image?: string;
+}
+
+/**
+ * Scene information needed to write a Universal VTT file
+ */
+export interface UniversalVttExportOptions {
+  /** Scene grid size in pixels */
+  gridSize: number;
+  /** Scene image width and height in pixels */
+  width: number;
+  height: number;
+  /** Top-left corner of the scene image in canvas coordinates (the scene padding) */
+  offsetX: number;
+  offsetY: number;
+}
+
+const UNIVERSAL_VTT_FORMAT = 0.3;
+
+/**
+ * Check whether parsed JSON looks like a Universal VTT file
+ */
+export function isUniversalVtt(data: unknown): data is UniversalVttData {
+  return typeof data === "object"
+    && data !== null
+    && !Array.isArray(data)
+    && "resolution" in data
+    && ("line_of_sight" in data || "portals" in data);
+}
+
+/**
+ * Convert a Universal VTT file to Foundry wall data in image pixels
+ * @returns The walls and the grid size they were converted at
+ */
+export function universalVttToWalls(data: UniversalVttData): { walls: WallData[], pixelsPerGrid: number } {
+  const pixelsPerGrid = data.resolution?.pixels_per_grid || 100;
+  const origin = data.resolution?.map_origin ?? { x: 0, y: 0 };
+  const toPixels = (point: UniversalVttPoint): [number, number] => [
+    Math.round((point.x - origin.x) * pixelsPerGrid),
+    Math.round((point.y - origin.y) * pixelsPerGrid)
+  ];
+
+  const walls: WallData[] = [];
+
+  // Each line of sight entry is a polyline; every consecutive pair of points becomes a wall
+  const polylines = [...(data.line_of_sight ?? []), ...(data.objects_line_of_sight ?? [])];
+  for (const polyline of polylines) {
+    for (let i = 0; i < polyline.length - 1; i++) {
+      walls.push({ c: [...toPixels(polyline[i]), ...toPixels(polyline[i + 1])] });
+    }
+  }
+
+  for (const portal of data.portals ?? []) {
+    if (!portal.bounds || portal.bounds.length < 2) continue;
+    walls.push({
+      c: [...toPixels(portal.bounds[0]), ...toPixels(portal.bounds[1])],
+      door: WALL_DOOR.DOOR,
+      ds: portal.closed === false ? WALL_DOOR_STATE.OPEN : WALL_DOOR_STATE.CLOSED
+    });
+  }
+
+  return { walls, pixelsPerGrid };
+}
+
+/**
+ * Convert Foundry wall data to a Universal VTT file. Doors become portals, walls that block sight
+ * become line of sight segments, and walls that don't block sight are left out.
+ */
+export function wallsToUniversalVtt(walls: WallData[], options: UniversalVttExportOptions): UniversalVttData {
+  const toGrid = (x: number, y: number): UniversalVttPoint => ({
+    x: (x - options.offsetX) / options.gridSize,
+    y: (y - options.offsetY) / options.gridSize
+  });
+
+  const lineOfSight: UniversalVttPoint[][] = [];
+  const portals: UniversalVttPortal[] = [];
+
+  for (const wall of walls) {
+    const [x0, y0, x1, y1] = wall.c;
+    const start = toGrid(x0, y0);
+    const end = toGrid(x1, y1);
+
+    if (wall.door === WALL_DOOR.DOOR || wall.door === WALL_DOOR.SECRET) {
+      portals.push({
+        position: { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 },
+        bounds: [start, end],
+        rotation: Math.atan2(end.y - start.y, end.x - start.x),
+        closed: wall.ds !== WALL_DOOR_STATE.OPEN,
+        freestanding: false
+      });
+    } else if (getSightRestriction(wall) !== WALL_SENSE.NONE) {
+      lineOfSight.push([start, end]);
+    }
+  }
+
+  return {
+    format: UNIVERSAL_VTT_FORMAT,
+    resolution: {
+      map_origin: { x: 0, y: 0 },
+      map_size: { x: options.width / options.gridSize, y: options.height / options.gridSize },
+      pixels_per_grid: options.gridSize
+    },
+    line_of_sight: lineOfSight,
+    portals,
+    lights: []
+  };
+}
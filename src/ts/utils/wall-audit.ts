@@ -0,0 +1,189 @@
+// src/ts/utils/wall-audit.ts
+import { WALL_DOOR } from "../constants";
+import { WallAuditOptions } from "../types";
+import { distance, Point, pointToSegmentDistance, Segment, segmentIntersection, toSegment } from "./geometry";
+import { SpatialIndex } from "./spatial-index";
+import { ExistingWall } from "./wall-merge";
+
+/**
+ * Kinds of problems found by an audit
+ * - gap: two loose endpoints close enough that they were probably meant to meet
+ * - t-junction: a loose endpoint that stops just short of another wall
+ * - crossing: two walls that cross without sharing a point
+ * - unattached-door: a door end that no wall touches
+ * - dangling: a loose endpoint with nothing nearby
+ */
+export type WallAuditIssueType = "gap" | "t-junction" | "crossing" | "unattached-door" | "dangling";
+
+/**
+ * A problem found by an audit, located at a point on the scene
+ */
+export interface WallAuditIssue {
+  type: WallAuditIssueType;
+  x: number;
+  y: number;
+  /** IDs of the walls involved */
+  wallIds: string[];
+  /** Size of the gap in pixels, for gaps and T-junctions */
+  distance?: number;
+}
+
+/**
+ * Result of auditing a set of walls
+ */
+export interface WallAuditReport {
+  wallCount: number;
+  gapThreshold: number;
+  counts: Record<WallAuditIssueType, number>;
+  issues: WallAuditIssue[];
+}
+
+/**
+ * Issue types in order of severity, with display labels
+ */
+export const WALL_AUDIT_LABELS: Record<WallAuditIssueType, string> = {
+  gap: "Gaps",
+  "t-junction": "Unconnected T-Junctions",
+  crossing: "Crossing Walls",
+  "unattached-door": "Unattached Doors",
+  dangling: "Dangling Endpoints"
+};
+
+/**
+ * Marker colors for each issue type (PIXI hex values)
+ */
+export const WALL_AUDIT_COLORS: Record<WallAuditIssueType, number> = {
+  gap: 0xff3030,
+  "t-junction": 0xff8c00,
+  crossing: 0xffd700,
+  "unattached-door": 0x4fa3ff,
+  dangling: 0xb36bff
+};
+
+/**
+ * Default largest gap reported as a leak rather than a dangling endpoint
+ */
+export const DEFAULT_GAP_THRESHOLD = 10;
+
+/**
+ * Distance within which endpoints and walls are considered to touch. Foundry stores integer coordinates,
+ * so anything closer than half a pixel is the same point.
+ */
+const TOUCH_TOLERANCE = 0.5;
+
+/**
+ * Grid cell size for segment lookups
+ */
+const SEGMENT_CELL_SIZE = 100;
+
+interface AuditEndpoint {
+  id: string;
+  point: Point;
+  isDoor: boolean;
+}
+
+/**
+ * Analyze walls for problems that let light and vision leak through or indicate broken topology
+ * @param walls Walls on the scene
+ * @param options Gap threshold
+ */
+export function auditWalls(walls: ExistingWall[], options: WallAuditOptions = {}): WallAuditReport {
+  const gapThreshold = options.gapThreshold ?? DEFAULT_GAP_THRESHOLD;
+  const segments = new Map<string, Segment>(walls.map(({ id, wall }) => [id, toSegment(wall.c)]));
+  const issues: WallAuditIssue[] = [];
+
+  const segmentIndex = new SpatialIndex<string>(SEGMENT_CELL_SIZE);
+  segments.forEach((segment, id) => segmentIndex.insertSegment(id, segment));
+
+  const endpoints: AuditEndpoint[] = walls.flatMap(({ id, wall }) => {
+    const segment = segments.get(id)!;
+    const isDoor = (wall.door ?? WALL_DOOR.NONE) !== WALL_DOOR.NONE;
+    return [{ id, point: segment.a, isDoor }, { id, point: segment.b, isDoor }];
+  });
+
+  // An endpoint is connected when it lies on any other wall, including that wall's endpoints
+  const isConnected = (endpoint: AuditEndpoint) => segmentIndex.query(endpoint.point, TOUCH_TOLERANCE)
+    .some(id => id !== endpoint.id && pointToSegmentDistance(endpoint.point, segments.get(id)!) <= TOUCH_TOLERANCE);
+
+  const loose = endpoints.filter(endpoint => !isConnected(endpoint));
+  const looseIndex = new SpatialIndex<AuditEndpoint>(Math.max(gapThreshold, 1));
+  loose.forEach(endpoint => looseIndex.insertPoint(endpoint, endpoint.point));
+
+  const reportedGaps = new Set<AuditEndpoint>();
+
+  for (const endpoint of loose) {
+    if (endpoint.isDoor) {
+      issues.push({ type: "unattached-door", x: endpoint.point.x, y: endpoint.point.y, wallIds: [endpoint.id] });
+      continue;
+    }
+    if (reportedGaps.has(endpoint)) continue;
+
+    // The nearest loose endpoint of another wall marks a gap between two walls
+    let partner: AuditEndpoint | null = null;
+    let best = gapThreshold;
+    for (const other of looseIndex.query(endpoint.point, gapThreshold)) {
+      if (other.id === endpoint.id) continue;
+      const d = distance(endpoint.point, other.point);
+      if (d <= best) {
+        best = d;
+        partner = other;
+      }
+    }
+    if (partner) {
+      reportedGaps.add(endpoint);
+      reportedGaps.add(partner);
+      issues.push({
+        type: "gap",
+        x: (endpoint.point.x + partner.point.x) / 2,
+        y: (endpoint.point.y + partner.point.y) / 2,
+        wallIds: [endpoint.id, partner.id],
+        distance: best
+      });
+      continue;
+    }
+
+    // Otherwise the nearest wall within the threshold marks a T-junction that stops short
+    let target: string | null = null;
+    best = gapThreshold;
+    for (const id of segmentIndex.query(endpoint.point, gapThreshold)) {
+      if (id === endpoint.id) continue;
+      const d = pointToSegmentDistance(endpoint.point, segments.get(id)!);
+      if (d <= best) {
+        best = d;
+        target = id;
+      }
+    }
+    if (target) {
+      issues.push({ type: "t-junction", x: endpoint.point.x, y: endpoint.point.y, wallIds: [endpoint.id, target], distance: best });
+      continue;
+    }
+
+    issues.push({ type: "dangling", x: endpoint.point.x, y: endpoint.point.y, wallIds: [endpoint.id] });
+  }
+
+  // Walls crossing away from their endpoints; meeting at an endpoint is a junction, not a crossing
+  segments.forEach((segment, id) => {
+    for (const otherId of segmentIndex.querySegment(segment)) {
+      if (otherId <= id) continue;
+      const other = segments.get(otherId)!;
+      const point = segmentIntersection(segment, other);
+      if (!point) continue;
+
+      const atEndpoint = [segment.a, segment.b, other.a, other.b]
+        .some(end => distance(point, end) <= TOUCH_TOLERANCE);
+      if (!atEndpoint) {
+        issues.push({ type: "crossing", x: point.x, y: point.y, wallIds: [id, otherId] });
+      }
+    }
+  });
+
+  const types = Object.keys(WALL_AUDIT_LABELS) as WallAuditIssueType[];
+  issues.sort((a, b) => types.indexOf(a.type) - types.indexOf(b.type));
+
+  const counts = Object.fromEntries(types.map(type => [type, 0])) as Record<WallAuditIssueType, number>;
+  for (const issue of issues) {
+    counts[issue.type]++;
+  }
+
+  return { wallCount: walls.length, gapThreshold, counts, issues };
+}
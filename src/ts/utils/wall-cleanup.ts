@@ -0,0 +1,396 @@
+// src/ts/utils/wall-cleanup.ts
+import { moduleId, WALL_DIRECTION, WALL_DOOR } from "../constants";
+import { WallCleanupOptions, WallData } from "../types";
+import {
+  closestPointOnSegment,
+  distance,
+  Point,
+  pointToSegmentDistance,
+  segmentContains,
+  segmentLength,
+  simplifyPolyline,
+  toSegment
+} from "./geometry";
+import { SpatialIndex } from "./spatial-index";
+import { ExistingWall } from "./wall-merge";
+import { getSightRestriction, wallPropertiesMatch } from "./wall-types";
+
+/**
+ * Default tolerances used when an option is not given
+ */
+export const DEFAULT_CLEANUP_OPTIONS: Required<Omit<WallCleanupOptions, "selection" | "dryRun">> = {
+  snapTolerance: 2,
+  weldTolerance: 6,
+  removeDuplicates: true,
+  removeDegenerate: true,
+  simplifyTolerance: 1
+};
+
+/**
+ * What a cleanup would change
+ */
+export interface WallCleanupSummary {
+  /** Endpoints moved onto a shared point */
+  snapped: number;
+  /** Gaps closed by moving a loose endpoint onto a nearby wall */
+  welded: number;
+  /** Zero-length walls removed */
+  degenerate: number;
+  /** Walls removed because another wall already covers them */
+  duplicates: number;
+  /** Walls removed by merging collinear chains */
+  simplified: number;
+}
+
+/**
+ * Changes to apply to the scene's walls
+ */
+export interface WallCleanupPlan {
+  /** New coordinates for walls that are kept */
+  updates: { _id: string, c: number[] }[];
+  /** IDs of walls to delete */
+  toDelete: string[];
+  summary: WallCleanupSummary;
+}
+
+interface CleanupEntry {
+  id: string;
+  wall: WallData;
+  c: number[];
+  deleted: boolean;
+}
+
+interface Endpoint {
+  entry: CleanupEntry;
+  /** 0 for the start of the wall, 1 for the end */
+  end: 0 | 1;
+}
+
+/**
+ * Grid cell size for segment lookups; walls are usually much longer than any tolerance
+ */
+const SEGMENT_CELL_SIZE = 100;
+
+function getPoint({ entry, end }: Endpoint): Point {
+  return { x: entry.c[end * 2], y: entry.c[end * 2 + 1] };
+}
+
+function setPoint({ entry, end }: Endpoint, point: Point): void {
+  entry.c[end * 2] = Math.round(point.x);
+  entry.c[end * 2 + 1] = Math.round(point.y);
+}
+
+function pointKey(point: Point): string {
+  return `${point.x},${point.y}`;
+}
+
+function liveEndpoints(entries: CleanupEntry[]): Endpoint[] {
+  return entries
+    .filter(entry => !entry.deleted)
+    .flatMap(entry => [{ entry, end: 0 as const }, { entry, end: 1 as const }]);
+}
+
+/**
+ * Count the live walls meeting at each point
+ */
+function countDegrees(entries: CleanupEntry[]): Map<string, number> {
+  const degrees = new Map<string, number>();
+  for (const endpoint of liveEndpoints(entries)) {
+    const key = pointKey(getPoint(endpoint));
+    degrees.set(key, (degrees.get(key) ?? 0) + 1);
+  }
+  return degrees;
+}
+
+/**
+ * Move clusters of endpoints within a tolerance of each other onto their average position
+ * @returns The number of endpoints moved
+ */
+function snapEndpoints(entries: CleanupEntry[], tolerance: number): number {
+  const endpoints = liveEndpoints(entries);
+  const parent = endpoints.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  const index = new SpatialIndex<number>(tolerance);
+  endpoints.forEach((endpoint, i) => {
+    const point = getPoint(endpoint);
+    for (const j of index.query(point, tolerance)) {
+      if (distance(point, getPoint(endpoints[j])) <= tolerance) {
+        parent[find(i)] = find(j);
+      }
+    }
+    index.insertPoint(i, point);
+  });
+
+  const clusters = new Map<number, Endpoint[]>();
+  endpoints.forEach((endpoint, i) => {
+    const root = find(i);
+    clusters.set(root, [...(clusters.get(root) ?? []), endpoint]);
+  });
+
+  let moved = 0;
+  for (const cluster of clusters.values()) {
+    if (cluster.length < 2) continue;
+
+    const points = cluster.map(getPoint);
+    const center = {
+      x: Math.round(points.reduce((sum, p) => sum + p.x, 0) / points.length),
+      y: Math.round(points.reduce((sum, p) => sum + p.y, 0) / points.length)
+    };
+    cluster.forEach((endpoint, i) => {
+      if (points[i].x !== center.x || points[i].y !== center.y) {
+        setPoint(endpoint, center);
+        moved++;
+      }
+    });
+  }
+  return moved;
+}
+
+/**
+ * Close gaps by moving endpoints that no other wall touches onto the nearest loose endpoint or wall
+ * within a tolerance
+ * @returns The number of gaps closed
+ */
+function weldGaps(entries: CleanupEntry[], tolerance: number): number {
+  const degrees = countDegrees(entries);
+  const loose = liveEndpoints(entries).filter(endpoint => degrees.get(pointKey(getPoint(endpoint))) === 1);
+  const looseIndex = new SpatialIndex<Endpoint>(tolerance);
+  loose.forEach(endpoint => looseIndex.insertPoint(endpoint, getPoint(endpoint)));
+
+  const segmentIndex = new SpatialIndex<CleanupEntry>(SEGMENT_CELL_SIZE);
+  entries.filter(entry => !entry.deleted).forEach(entry => segmentIndex.insertSegment(entry, toSegment(entry.c)));
+
+  const welded = new Set<Endpoint>();
+  let count = 0;
+
+  for (const endpoint of loose) {
+    if (welded.has(endpoint)) continue;
+    const point = getPoint(endpoint);
+
+    // Prefer joining another loose endpoint so both gaps close at once
+    let target: Point | null = null;
+    let partner: Endpoint | null = null;
+    let best = tolerance;
+    for (const other of looseIndex.query(point, tolerance)) {
+      if (other.entry === endpoint.entry || welded.has(other)) continue;
+      const d = distance(point, getPoint(other));
+      if (d > 0 && d <= best) {
+        best = d;
+        target = getPoint(other);
+        partner = other;
+      }
+    }
+
+    if (!target) {
+      best = tolerance;
+      for (const entry of segmentIndex.query(point, tolerance)) {
+        if (entry === endpoint.entry || entry.deleted) continue;
+        const segment = toSegment(entry.c);
+        const d = pointToSegmentDistance(point, segment);
+        if (d > 0 && d <= best) {
+          best = d;
+          target = closestPointOnSegment(point, segment);
+        }
+      }
+    }
+
+    if (target) {
+      setPoint(endpoint, target);
+      welded.add(endpoint);
+      if (partner) welded.add(partner);
+      count++;
+    }
+  }
+  return count;
+}
+
+/**
+ * Delete walls whose endpoints coincide
+ * @returns The number of walls removed
+ */
+function removeDegenerateWalls(entries: CleanupEntry[]): number {
+  let removed = 0;
+  for (const entry of entries) {
+    if (!entry.deleted && segmentLength(toSegment(entry.c)) === 0) {
+      entry.deleted = true;
+      removed++;
+    }
+  }
+  return removed;
+}
+
+/**
+ * Whether two walls block the same way in the same direction. One-way walls only match when their
+ * endpoints run the same way.
+ */
+function behavesAlike(a: CleanupEntry, b: CleanupEntry): boolean {
+  if (!wallPropertiesMatch(a.wall, b.wall)) return false;
+  if ((a.wall.dir ?? WALL_DIRECTION.BOTH) === WALL_DIRECTION.BOTH) return true;
+
+  const da = { x: a.c[2] - a.c[0], y: a.c[3] - a.c[1] };
+  const db = { x: b.c[2] - b.c[0], y: b.c[3] - b.c[1] };
+  return da.x * db.x + da.y * db.y > 0;
+}
+
+/**
+ * Delete walls that lie entirely within another wall with the same properties
+ * @returns The number of walls removed
+ */
+function removeDuplicateWalls(entries: CleanupEntry[]): number {
+  const index = new SpatialIndex<CleanupEntry>(SEGMENT_CELL_SIZE);
+  entries.filter(entry => !entry.deleted).forEach(entry => index.insertSegment(entry, toSegment(entry.c)));
+
+  let removed = 0;
+  for (const entry of entries) {
+    if (entry.deleted) continue;
+    const segment = toSegment(entry.c);
+
+    for (const other of index.query(segment.a, 0.5)) {
+      if (other === entry || other.deleted || !behavesAlike(entry, other)) continue;
+      if (segmentContains(toSegment(other.c), segment, 0.5)) {
+        entry.deleted = true;
+        removed++;
+        break;
+      }
+    }
+  }
+  return removed;
+}
+
+/**
+ * Key for the properties walls need in common to be merged into one: restrictions, proximity
+ * thresholds and the import that created them, which undoing that import relies on
+ */
+function chainSignature(wall: WallData): string {
+  const threshold = wall.threshold ?? {};
+  return JSON.stringify([
+    getSightRestriction(wall), wall.move ?? 0, wall.light ?? 0, wall.sound ?? 0,
+    threshold.light ?? null, threshold.sight ?? null, threshold.sound ?? null, !!threshold.attenuation,
+    wall.flags?.[moduleId]?.importId ?? null
+  ]);
+}
+
+/**
+ * Merge chains of walls joined end to end into fewer walls where the chain is straight within a tolerance.
+ * Only plain two-way walls are merged, and only through points where exactly two such walls with the same
+ * properties meet, so junctions, doors and one-way walls are left intact.
+ * @returns The number of walls removed
+ */
+function simplifyChains(entries: CleanupEntry[], tolerance: number): number {
+  const eligible = (entry: CleanupEntry) => !entry.deleted
+    && (entry.wall.door ?? WALL_DOOR.NONE) === WALL_DOOR.NONE
+    && (entry.wall.dir ?? WALL_DIRECTION.BOTH) === WALL_DIRECTION.BOTH;
+
+  const atPoint = new Map<string, Endpoint[]>();
+  for (const endpoint of liveEndpoints(entries)) {
+    const key = pointKey(getPoint(endpoint));
+    atPoint.set(key, [...(atPoint.get(key) ?? []), endpoint]);
+  }
+
+  // The wall continuing a chain through a point, if the point is a simple joint
+  const continuation = (key: string, from: CleanupEntry): Endpoint | null => {
+    const incident = atPoint.get(key) ?? [];
+    if (incident.length !== 2) return null;
+    const next = incident.find(endpoint => endpoint.entry !== from);
+    if (!next || !eligible(next.entry) || chainSignature(next.entry.wall) !== chainSignature(from.wall)) return null;
+    return next;
+  };
+  const farEnd = ({ entry, end }: Endpoint): Endpoint => ({ entry, end: end === 0 ? 1 : 0 });
+
+  const visited = new Set<CleanupEntry>();
+  let removed = 0;
+
+  for (const start of entries) {
+    if (visited.has(start) || !eligible(start)) continue;
+    visited.add(start);
+
+    const chain = [start];
+    const points = [getPoint({ entry: start, end: 0 }), getPoint({ entry: start, end: 1 })];
+
+    // Extend forwards from the end of the first wall, then backwards from its start
+    for (const forwards of [true, false]) {
+      let current = start;
+      let key = pointKey(points[forwards ? points.length - 1 : 0]);
+      let next = continuation(key, current);
+      while (next && !visited.has(next.entry)) {
+        visited.add(next.entry);
+        const far = getPoint(farEnd(next));
+        if (forwards) {
+          chain.push(next.entry);
+          points.push(far);
+        } else {
+          chain.unshift(next.entry);
+          points.unshift(far);
+        }
+        current = next.entry;
+        key = pointKey(far);
+        next = continuation(key, current);
+      }
+    }
+
+    if (chain.length < 2) continue;
+
+    const simplified = simplifyPolyline(points, tolerance);
+    if (simplified.length - 1 >= chain.length) continue;
+
+    // Reuse the first walls of the chain for the simplified segments and delete the rest
+    chain.forEach((entry, i) => {
+      if (i < simplified.length - 1) {
+        const a = simplified[i];
+        const b = simplified[i + 1];
+        entry.c = [a.x, a.y, b.x, b.y];
+      } else {
+        entry.deleted = true;
+        removed++;
+      }
+    });
+  }
+  return removed;
+}
+
+/**
+ * Plan a topology cleanup of a set of walls: snap nearby endpoints together, remove zero-length and
+ * duplicate walls, weld small gaps, then merge straight chains. Steps run in that order so later steps
+ * see the repaired topology.
+ * @param walls Walls on the scene
+ * @param options Tolerances and steps to run
+ */
+export function planWallCleanup(walls: ExistingWall[], options: WallCleanupOptions = {}): WallCleanupPlan {
+  const settings = { ...DEFAULT_CLEANUP_OPTIONS, ...options };
+  const entries: CleanupEntry[] = walls.map(({ id, wall }) => ({
+    id,
+    wall,
+    c: wall.c.map(Math.round),
+    deleted: false
+  }));
+
+  const summary: WallCleanupSummary = { snapped: 0, welded: 0, degenerate: 0, duplicates: 0, simplified: 0 };
+
+  if (settings.snapTolerance > 0) summary.snapped = snapEndpoints(entries, settings.snapTolerance);
+  if (settings.removeDegenerate) summary.degenerate = removeDegenerateWalls(entries);
+  if (settings.removeDuplicates) summary.duplicates = removeDuplicateWalls(entries);
+  if (settings.weldTolerance > 0) summary.welded = weldGaps(entries, settings.weldTolerance);
+  if (settings.simplifyTolerance > 0) summary.simplified = simplifyChains(entries, settings.simplifyTolerance);
+
+  return {
+    updates: entries
+      .filter(entry => !entry.deleted && entry.c.some((value, i) => value !== entry.wall.c[i]))
+      .map(entry => ({ _id: entry.id, c: entry.c })),
+    toDelete: entries.filter(entry => entry.deleted).map(entry => entry.id),
+    summary
+  };
+}
+
+/**
+ * Total number of changes in a cleanup summary
+ */
+export function countCleanupChanges(summary: WallCleanupSummary): number {
+  return Object.values(summary).reduce((sum, count) => sum + count, 0);
+}
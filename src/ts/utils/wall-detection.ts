@@ -0,0 +1,274 @@
+// src/ts/utils/wall-detection.ts
+import { WallDetectionMatch, WallDetectionTrace } from "../types";
+import { distance, Point, simplifyPolyline } from "./geometry";
+
+/**
+ * Detection settings, with lengths in pixels of the image being processed
+ */
+export interface WallDetectionParameters {
+  match: WallDetectionMatch;
+  /** Target color for color matching, as a PIXI hex value */
+  color: number;
+  /** Luminance cut-off from 0 to 255, or the maximum color distance when matching a color */
+  threshold: number;
+  trace: WallDetectionTrace;
+  /** Shortest wall kept; shorter pieces are merged into their neighbors or dropped */
+  minSegmentLength: number;
+  /** Maximum deviation when straightening traced lines */
+  simplifyTolerance: number;
+}
+
+/**
+ * Reports how far detection has got
+ */
+export type WallDetectionProgress = (stage: string, done: number, total: number) => void;
+
+/**
+ * Pixels sent to the detection worker
+ */
+export interface WallDetectionRequest {
+  width: number;
+  height: number;
+  /** RGBA pixel data */
+  pixels: ArrayBuffer;
+  params: WallDetectionParameters;
+}
+
+/**
+ * Messages sent back by the detection worker
+ */
+export type WallDetectionResponse =
+  | { type: "progress", stage: string, done: number, total: number }
+  | { type: "result", segments: number[][] }
+  | { type: "error", message: string };
+
+/**
+ * Offsets of the 8 neighbors of a pixel, clockwise from north
+ */
+const NEIGHBORS: [number, number][] = [[0, -1], [1, -1], [1, 0], [1, 1], [0, 1], [-1, 1], [-1, 0], [-1, -1]];
+
+/**
+ * Detect walls in RGBA pixel data
+ * @returns Wall coordinates [x1, y1, x2, y2] in pixels of the image
+ */
+export function detectWallSegments(
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  params: WallDetectionParameters,
+  onProgress?: WallDetectionProgress
+): number[][] {
+  onProgress?.("Finding wall pixels", 0, 4);
+  let mask = buildMask(pixels, width, height, params);
+
+  onProgress?.("Extracting edges", 1, 4);
+  if (params.trace === "outline") mask = outlineMask(mask, width, height);
+  thinMask(mask, width);
+
+  onProgress?.("Tracing lines", 2, 4);
+  const paths = tracePaths(mask, width);
+
+  onProgress?.("Simplifying walls", 3, 4);
+  const segments: number[][] = [];
+  for (const path of paths) {
+    const points = enforceMinLength(simplifyPolyline(path, params.simplifyTolerance), params.minSegmentLength);
+    for (let i = 0; i < points.length - 1; i++) {
+      segments.push([points[i].x, points[i].y, points[i + 1].x, points[i + 1].y]);
+    }
+  }
+
+  onProgress?.("Simplifying walls", 4, 4);
+  return segments;
+}
+
+/**
+ * Mark the pixels that belong to walls. Transparent pixels never do.
+ */
+export function buildMask(pixels: Uint8ClampedArray, width: number, height: number, params: WallDetectionParameters): Uint8Array {
+  const mask = new Uint8Array(width * height);
+  const targetR = (params.color >> 16) & 0xff;
+  const targetG = (params.color >> 8) & 0xff;
+  const targetB = params.color & 0xff;
+
+  for (let i = 0; i < mask.length; i++) {
+    const r = pixels[i * 4];
+    const g = pixels[i * 4 + 1];
+    const b = pixels[i * 4 + 2];
+    if (pixels[i * 4 + 3] < 128) continue;
+
+    if (params.match === "color") {
+      mask[i] = Math.hypot(r - targetR, g - targetG, b - targetB) <= params.threshold ? 1 : 0;
+    } else {
+      const luminance = 0.299 * r + 0.587 * g + 0.114 * b;
+      mask[i] = (params.match === "dark" ? luminance <= params.threshold : luminance >= params.threshold) ? 1 : 0;
+    }
+  }
+
+  // Leave a blank border so neighbor lookups never leave the image
+  for (let x = 0; x < width; x++) {
+    mask[x] = 0;
+    mask[(height - 1) * width + x] = 0;
+  }
+  for (let y = 0; y < height; y++) {
+    mask[y * width] = 0;
+    mask[y * width + width - 1] = 0;
+  }
+  return mask;
+}
+
+/**
+ * Keep only the wall pixels on the edge of their area
+ */
+function outlineMask(mask: Uint8Array, width: number, height: number): Uint8Array {
+  const outline = new Uint8Array(mask.length);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      if (mask[i] && (!mask[i - 1] || !mask[i + 1] || !mask[i - width] || !mask[i + width])) {
+        outline[i] = 1;
+      }
+    }
+  }
+  return outline;
+}
+
+/**
+ * Thin wall areas to lines one pixel wide in place (Zhang-Suen thinning)
+ */
+export function thinMask(mask: Uint8Array, width: number): void {
+  // Only pixels still set can be removed
+  let active: number[] = [];
+  for (let i = 0; i < mask.length; i++) {
+    if (mask[i]) active.push(i);
+  }
+
+  const remove: number[] = [];
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (let pass = 0; pass < 2; pass++) {
+      for (const i of active) {
+        // Neighbors clockwise from north
+        const n = mask[i - width], ne = mask[i - width + 1], e = mask[i + 1], se = mask[i + width + 1];
+        const s = mask[i + width], sw = mask[i + width - 1], w = mask[i - 1], nw = mask[i - width - 1];
+
+        const count = n + ne + e + se + s + sw + w + nw;
+        if (count < 2 || count > 6) continue;
+
+        // Number of 0 -> 1 transitions around the pixel
+        const transitions = (!n && ne ? 1 : 0) + (!ne && e ? 1 : 0) + (!e && se ? 1 : 0) + (!se && s ? 1 : 0)
+          + (!s && sw ? 1 : 0) + (!sw && w ? 1 : 0) + (!w && nw ? 1 : 0) + (!nw && n ? 1 : 0);
+        if (transitions !== 1) continue;
+
+        if (pass === 0 ? (n && e && s) || (e && s && w) : (n && e && w) || (n && s && w)) continue;
+        remove.push(i);
+      }
+
+      if (remove.length > 0) {
+        changed = true;
+        for (const i of remove) mask[i] = 0;
+        active = active.filter(i => mask[i]);
+        remove.length = 0;
+      }
+    }
+  }
+}
+
+/**
+ * Follow lines one pixel wide into polylines. Lines are split where they meet, so each polyline runs
+ * between two ends or junctions; closed loops are traced as a polyline ending where it starts.
+ */
+export function tracePaths(mask: Uint8Array, width: number): Point[][] {
+  const offsets = NEIGHBORS.map(([dx, dy]) => dy * width + dx);
+  const degree = new Uint8Array(mask.length);
+  for (let i = 0; i < mask.length; i++) {
+    if (mask[i]) degree[i] = offsets.reduce((sum, offset) => sum + (mask[i + offset] ?? 0), 0);
+  }
+
+  const isNode = (i: number) => degree[i] !== 2;
+  const toPoint = (i: number): Point => ({ x: i % width, y: Math.floor(i / width) });
+  const visited = new Uint8Array(mask.length);
+  const paths: Point[][] = [];
+
+  // Junctions are often several touching pixels; lines meeting there all end at the cluster's center
+  const junctions = new Map<number, Point>();
+  for (let i = 0; i < mask.length; i++) {
+    if (!mask[i] || !isNode(i) || junctions.has(i)) continue;
+    const cluster = [i];
+    const center = { x: 0, y: 0 };
+    junctions.set(i, center);
+    for (let k = 0; k < cluster.length; k++) {
+      for (const offset of offsets) {
+        const j = cluster[k] + offset;
+        if (mask[j] && isNode(j) && !junctions.has(j)) {
+          junctions.set(j, center);
+          cluster.push(j);
+        }
+      }
+    }
+    center.x = cluster.reduce((sum, j) => sum + j % width, 0) / cluster.length;
+    center.y = cluster.reduce((sum, j) => sum + Math.floor(j / width), 0) / cluster.length;
+  }
+  const pointAt = (i: number): Point => junctions.get(i) ?? toPoint(i);
+
+  const walk = (start: number, first: number): Point[] => {
+    const path = [pointAt(start)];
+    let previous = start;
+    let current = first;
+
+    while (true) {
+      path.push(pointAt(current));
+      if (isNode(current) || current === start) break;
+      visited[current] = 1;
+
+      const next = offsets
+        .map(offset => current + offset)
+        .find(j => mask[j] && j !== previous && (!visited[j] || j === start || isNode(j)));
+      if (next === undefined) break;
+      previous = current;
+      current = next;
+    }
+    return path;
+  };
+
+  // Lines between ends and junctions
+  for (let i = 0; i < mask.length; i++) {
+    if (!mask[i] || !isNode(i)) continue;
+    for (const offset of offsets) {
+      const j = i + offset;
+      if (mask[j] && !isNode(j) && !visited[j]) paths.push(walk(i, j));
+    }
+  }
+
+  // Closed loops have no ends or junctions
+  for (let i = 0; i < mask.length; i++) {
+    if (!mask[i] || visited[i] || isNode(i)) continue;
+    visited[i] = 1;
+    const first = offsets.map(offset => i + offset).find(j => mask[j]);
+    if (first !== undefined) paths.push(walk(i, first));
+  }
+
+  return paths;
+}
+
+/**
+ * Drop vertices closer than a minimum length to the previous one, then drop the whole polyline if it
+ * is still shorter than that length
+ */
+export function enforceMinLength(points: Point[], minLength: number): Point[] {
+  if (points.length < 2) return [];
+  if (minLength <= 0) return points;
+
+  const result = [points[0]];
+  for (let i = 1; i < points.length - 1; i++) {
+    if (distance(result[result.length - 1], points[i]) >= minLength) result.push(points[i]);
+  }
+
+  // Always end at the last point, replacing a vertex that ended up too close to it
+  const last = points[points.length - 1];
+  if (result.length > 1 && distance(result[result.length - 1], last) < minLength) result.pop();
+  result.push(last);
+
+  if (result.length === 2 && distance(result[0], result[1]) < minLength) return [];
+  return result;
+}
@@ -0,0 +1,248 @@
+// src/ts/utils/wall-diff.ts
+import { PlaceableData, WallData, WallPropertyChanges } from "../types";
+import { distance, Segment, segmentsEqual, toSegment } from "./geometry";
+import { SpatialIndex } from "./spatial-index";
+import { planWallEdit } from "./wall-edit";
+import { ExistingWall } from "./wall-merge";
+import { getSightRestriction, wallPropertiesMatch } from "./wall-types";
+
+/**
+ * How a wall differs between the scene and the walls it is compared with
+ * - added: only in the compared walls
+ * - removed: only on the scene
+ * - moved: on both, with endpoints further apart than the tolerance but within the move tolerance
+ * - changed: on both in the same place, with different restrictions, door type, door state or direction
+ */
+export type WallDiffType = "added" | "removed" | "moved" | "changed";
+
+/**
+ * One difference between the scene and the compared walls
+ */
+export interface WallDiffEntry {
+  type: WallDiffType;
+  /** The wall on the scene, for removed, moved and changed walls */
+  current?: ExistingWall;
+  /** The compared wall, for added, moved and changed walls */
+  target?: WallData;
+  /** For moved walls, whether the properties differ as well */
+  propertiesChanged?: boolean;
+}
+
+/**
+ * Result of comparing the scene's walls with another set
+ */
+export interface WallDiffReport {
+  currentCount: number;
+  targetCount: number;
+  /** Walls that are the same on both sides */
+  unchanged: number;
+  tolerance: number;
+  moveTolerance: number;
+  counts: Record<WallDiffType, number>;
+  entries: WallDiffEntry[];
+}
+
+/**
+ * Difference types with display labels
+ */
+export const WALL_DIFF_LABELS: Record<WallDiffType, string> = {
+  added: "Added",
+  removed: "Removed",
+  moved: "Moved",
+  changed: "Properties Changed"
+};
+
+/**
+ * Overlay colors for each difference type (PIXI hex values)
+ */
+export const WALL_DIFF_COLORS: Record<WallDiffType, number> = {
+  added: 0x30d030,
+  removed: 0xff3030,
+  moved: 0xff8c00,
+  changed: 0x4fa3ff
+};
+
+/**
+ * Default matching tolerances in pixels
+ */
+export const DEFAULT_DIFF_TOLERANCE = 2;
+export const DEFAULT_MOVE_TOLERANCE = 50;
+
+/**
+ * Where a scene's image sits on its canvas and its grid size, used to line up walls from two scenes
+ */
+export interface WallDiffFrame {
+  sceneX: number;
+  sceneY: number;
+  gridSize: number;
+}
+
+/**
+ * Move walls from one scene's coordinates into another's, so the same spot on the map lines up
+ * despite different padding or grid sizes
+ */
+export function alignWalls(walls: WallData[], from: WallDiffFrame, to: WallDiffFrame): WallData[] {
+  const scale = from.gridSize > 0 && to.gridSize > 0 ? to.gridSize / from.gridSize : 1;
+  if (scale === 1 && from.sceneX === to.sceneX && from.sceneY === to.sceneY) return walls;
+
+  return walls.map(wall => ({
+    ...wall,
+    c: wall.c.map((value, i) => i % 2 === 0
+      ? Math.round((value - from.sceneX) * scale + to.sceneX)
+      : Math.round((value - from.sceneY) * scale + to.sceneY))
+  }));
+}
+
+/**
+ * Total distance between the endpoints of two segments, pairing them in whichever direction is closer
+ */
+function endpointDistance(s: Segment, t: Segment): number {
+  return Math.min(
+    distance(s.a, t.a) + distance(s.b, t.b),
+    distance(s.a, t.b) + distance(s.b, t.a)
+  );
+}
+
+/**
+ * Whether two walls have the same properties, including whether a door is open or locked
+ */
+function diffPropertiesMatch(a: WallData, b: WallData): boolean {
+  return wallPropertiesMatch(a, b) && (a.ds ?? 0) === (b.ds ?? 0);
+}
+
+/**
+ * Compare the scene's walls with another set of walls in the same coordinates
+ * @param current Walls on the scene
+ * @param target Walls to compare with, such as a revised version of the map
+ * @param tolerance Maximum endpoint distance in pixels for walls to be in the same place
+ * @param moveTolerance Maximum endpoint distance in pixels for a wall to count as moved rather than
+ * removed and added
+ */
+export function diffWalls(current: ExistingWall[], target: WallData[], tolerance: number = DEFAULT_DIFF_TOLERANCE, moveTolerance: number = DEFAULT_MOVE_TOLERANCE): WallDiffReport {
+  moveTolerance = Math.max(moveTolerance, tolerance);
+  const index = new SpatialIndex<number>(Math.max(moveTolerance, 32));
+  const segments = current.map(entry => toSegment(entry.wall.c));
+  segments.forEach((segment, i) => index.insertSegment(i, segment));
+
+  const matched = new Set<number>();
+  const entries: WallDiffEntry[] = [];
+  const unmatchedTargets: WallData[] = [];
+  let unchanged = 0;
+
+  // Find the wall on the scene closest to a compared wall, within a tolerance
+  const findMatch = (wall: WallData, radius: number, sameProperties: boolean): number => {
+    const segment = toSegment(wall.c);
+    let best = -1;
+    let bestDistance = Infinity;
+    const candidates = index.queryBox(
+      Math.min(segment.a.x, segment.b.x) - radius,
+      Math.min(segment.a.y, segment.b.y) - radius,
+      Math.max(segment.a.x, segment.b.x) + radius,
+      Math.max(segment.a.y, segment.b.y) + radius
+    );
+    for (const i of candidates) {
+      if (matched.has(i) || !segmentsEqual(segment, segments[i], radius)) continue;
+      if (sameProperties && !diffPropertiesMatch(wall, current[i].wall)) continue;
+      const gap = endpointDistance(segment, segments[i]);
+      if (gap < bestDistance) {
+        best = i;
+        bestDistance = gap;
+      }
+    }
+    return best;
+  };
+
+  // Walls in the same place, preferring one with the same properties
+  for (const wall of target) {
+    let i = findMatch(wall, tolerance, true);
+    if (i !== -1) {
+      matched.add(i);
+      unchanged++;
+      continue;
+    }
+
+    i = findMatch(wall, tolerance, false);
+    if (i !== -1) {
+      matched.add(i);
+      entries.push({ type: "changed", current: current[i], target: wall });
+      continue;
+    }
+    unmatchedTargets.push(wall);
+  }
+
+  // Walls that are close enough to have been moved
+  for (const wall of unmatchedTargets) {
+    const i = findMatch(wall, moveTolerance, false);
+    if (i === -1) {
+      entries.push({ type: "added", target: wall });
+      continue;
+    }
+    matched.add(i);
+    entries.push({
+      type: "moved",
+      current: current[i],
+      target: wall,
+      propertiesChanged: !diffPropertiesMatch(wall, current[i].wall)
+    });
+  }
+
+  current.forEach((entry, i) => {
+    if (!matched.has(i)) entries.push({ type: "removed", current: entry });
+  });
+
+  const counts: Record<WallDiffType, number> = { added: 0, removed: 0, moved: 0, changed: 0 };
+  for (const entry of entries) counts[entry.type]++;
+
+  return {
+    currentCount: current.length,
+    targetCount: target.length,
+    unchanged,
+    tolerance,
+    moveTolerance,
+    counts,
+    entries
+  };
+}
+
+/**
+ * The changes that give a wall on the scene the compared wall's properties
+ */
+function propertiesOf(wall: WallData): WallPropertyChanges {
+  return {
+    move: wall.move,
+    // Read the same way wallPropertiesMatch does, so v9 and v10+ walls compare equal
+    sight: getSightRestriction(wall),
+    light: wall.light,
+    sound: wall.sound,
+    door: wall.door,
+    ds: wall.ds ?? 0,
+    dir: wall.dir,
+    ...(wall.threshold && typeof wall.threshold === "object" ? { threshold: wall.threshold } : {})
+  };
+}
+
+/**
+ * Work out the document changes that make the scene match the compared walls for some differences
+ * @returns Walls to create, IDs of walls to delete and updates for WallUtils.updateWalls
+ */
+export function planWallDiff(entries: WallDiffEntry[]): { toCreate: WallData[], toDelete: string[], updates: PlaceableData[] } {
+  const toCreate: WallData[] = [];
+  const toDelete: string[] = [];
+  const updates: PlaceableData[] = [];
+
+  for (const entry of entries) {
+    if (entry.type === "added" && entry.target) {
+      const { _id, ...wallData } = entry.target;
+      toCreate.push(wallData);
+    } else if (entry.type === "removed" && entry.current) {
+      toDelete.push(entry.current.id);
+    } else if (entry.current && entry.target) {
+      const wall = { ...entry.current.wall, _id: entry.current.id };
+      const update: PlaceableData = planWallEdit([wall], propertiesOf(entry.target))[0] ?? { _id: entry.current.id };
+      if (entry.type === "moved") update.c = [...entry.target.c];
+      if (Object.keys(update).length > 1) updates.push(update);
+    }
+  }
+
+  return { toCreate, toDelete, updates };
+}
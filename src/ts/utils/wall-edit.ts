@@ -0,0 +1,79 @@
+// src/ts/utils/wall-edit.ts
+import { PlaceableData, WallData, WallPropertyChanges } from "../types";
+
+/**
+ * Properties copied as they are from the changes to each wall
+ */
+const SIMPLE_KEYS = ["move", "light", "sound", "door", "ds", "dir"] as const;
+
+/**
+ * Threshold properties, stored in the wall's `threshold` object
+ */
+const THRESHOLD_KEYS = ["light", "sight", "sound", "attenuation"] as const;
+
+/**
+ * Apply property changes to a wall's data
+ * @returns A copy of the wall with the changes applied
+ */
+export function applyWallChanges(wall: WallData, changes: WallPropertyChanges): WallData {
+  const result: WallData = { ...wall };
+
+  for (const key of SIMPLE_KEYS) {
+    const value = changes[key];
+    if (value !== undefined) result[key] = value;
+  }
+
+  // v9 calls the sight restriction `sense`
+  if (changes.sight !== undefined) {
+    result["sight" in wall || !("sense" in wall) ? "sight" : "sense"] = changes.sight;
+  }
+
+  if (changes.threshold) {
+    const changed = Object.fromEntries(
+      THRESHOLD_KEYS.filter(key => changes.threshold?.[key] !== undefined).map(key => [key, changes.threshold?.[key]])
+    );
+    if (Object.keys(changed).length > 0) result.threshold = { ...wall.threshold, ...changed };
+  }
+
+  return result;
+}
+
+/**
+ * Work out the updates that apply property changes to walls. Walls that already have every value
+ * are left out.
+ * @param walls Wall data including `_id`
+ * @returns Partial wall data for WallUtils.updateWalls, each including `_id`
+ */
+export function planWallEdit(walls: WallData[], changes: WallPropertyChanges): PlaceableData[] {
+  const updates: PlaceableData[] = [];
+
+  for (const wall of walls) {
+    const update: PlaceableData = {};
+
+    for (const key of SIMPLE_KEYS) {
+      const value = changes[key];
+      if (value !== undefined && wall[key] !== value) update[key] = value;
+    }
+
+    // v9 calls the sight restriction `sense`
+    if (changes.sight !== undefined) {
+      const key = "sight" in wall || !("sense" in wall) ? "sight" : "sense";
+      if (wall[key] !== changes.sight) update[key] = changes.sight;
+    }
+
+    // Thresholds only exist on walls that have them (v11+)
+    const threshold = wall.threshold;
+    if (changes.threshold && threshold && typeof threshold === "object") {
+      const changed: Record<string, number | boolean | null> = {};
+      for (const key of THRESHOLD_KEYS) {
+        const value = changes.threshold[key];
+        if (value !== undefined && (threshold[key] ?? null) !== value) changed[key] = value;
+      }
+      if (Object.keys(changed).length > 0) update.threshold = { ...threshold, ...changed };
+    }
+
+    if (Object.keys(update).length > 0) updates.push({ _id: wall._id, ...update });
+  }
+
+  return updates;
+}
@@ -0,0 +1,46 @@
+// src/ts/utils/wall-mapping.ts
+import { WALL_DIRECTION, WALL_SENSE } from "../constants";
+import { WallData, WallMappingMatch, WallMappingRule } from "../types";
+import { applyWallChanges } from "./wall-edit";
+import { wallMatchesFilter } from "./wall-selection";
+
+/**
+ * Read a value from nested objects by a dot-separated path
+ */
+function getPath(source: unknown, path: string): unknown {
+  return path.split(".").reduce<any>((value, key) => value?.[key], source);
+}
+
+/**
+ * Check whether a wall has every source property a rule matches on
+ */
+export function wallMatchesMapping(wall: WallData, match: WallMappingMatch): boolean {
+  if (!wallMatchesFilter(wall, match)) return false;
+  if (match.light?.length && !match.light.includes(wall.light ?? WALL_SENSE.NORMAL)) return false;
+  if (match.sound?.length && !match.sound.includes(wall.sound ?? WALL_SENSE.NORMAL)) return false;
+  if (match.dir?.length && !match.dir.includes(wall.dir ?? WALL_DIRECTION.BOTH)) return false;
+
+  for (const [path, expected] of Object.entries(match.flags ?? {})) {
+    if (JSON.stringify(getPath(wall.flags, path)) !== JSON.stringify(expected)) return false;
+  }
+  return true;
+}
+
+/**
+ * Apply mapping rules to walls. Rules match the walls as they were imported and are applied in
+ * order, so a later rule overrides properties set by an earlier one.
+ * @returns The mapped walls and how many of them matched at least one rule
+ */
+export function applyMappingRules(walls: WallData[], rules: WallMappingRule[]): { walls: WallData[], mapped: number } {
+  let mapped = 0;
+
+  const result = walls.map(wall => {
+    const matching = rules.filter(rule => wallMatchesMapping(wall, rule.match ?? {}));
+    if (matching.length === 0) return wall;
+
+    mapped++;
+    return matching.reduce((current, rule) => applyWallChanges(current, rule.set ?? {}), wall);
+  });
+
+  return { walls: result, mapped };
+}
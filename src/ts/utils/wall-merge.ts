@@ -0,0 +1,101 @@
+// src/ts/utils/wall-merge.ts
+import { WallData } from "../types";
+import { segmentContains, segmentsEqual, segmentsOverlap, segmentUnion, toCoordinates, toSegment } from "./geometry";
+import { wallPropertiesMatch } from "./wall-types";
+
+/**
+ * A wall already on the scene
+ */
+export interface ExistingWall {
+  id: string;
+  wall: WallData;
+}
+
+/**
+ * Result of merging incoming walls into an existing wall set
+ */
+export interface WallMergePlan {
+  /** Walls to create, including unified replacements */
+  toCreate: WallData[];
+  /** IDs of existing walls replaced by unified or incoming walls */
+  toDelete: string[];
+  /** Incoming walls that are new */
+  added: number;
+  /** Incoming walls already covered by an existing wall */
+  skipped: number;
+  /** Existing walls replaced by a unified or incoming wall */
+  replaced: number;
+}
+
+interface MergeEntry {
+  id?: string;
+  wall: WallData;
+}
+
+/**
+ * Merge incoming walls into an existing set. Incoming walls that match or lie within an existing wall
+ * with the same properties are skipped; an incoming wall in the same place as one with other
+ * properties, such as a door over a plain wall, replaces it; collinear walls that partially overlap one
+ * with the same properties are unified into a single wall spanning both.
+ * @param incoming Walls being imported
+ * @param existing Walls already on the scene
+ * @param tolerance Maximum distance in pixels for endpoints and lines to be considered the same
+ */
+export function planWallMerge(incoming: WallData[], existing: ExistingWall[], tolerance: number): WallMergePlan {
+  const entries: MergeEntry[] = existing.map(({ id, wall }) => ({ id, wall }));
+  const toDelete = new Set<string>();
+  let added = 0;
+  let skipped = 0;
+
+  for (const wall of incoming) {
+    const segment = toSegment(wall.c);
+    let handled = false;
+
+    // The same wall is already there
+    if (entries.some(entry => segmentsEqual(segment, toSegment(entry.wall.c), tolerance) && wallPropertiesMatch(wall, entry.wall))) {
+      skipped++;
+      continue;
+    }
+
+    // A wall in the same place with other properties gives way to the incoming one
+    const same = entries.find(entry => segmentsEqual(segment, toSegment(entry.wall.c), tolerance));
+    if (same) {
+      if (same.id) toDelete.add(same.id);
+      same.id = undefined;
+      same.wall = wall;
+      continue;
+    }
+
+    for (const entry of entries) {
+      const other = toSegment(entry.wall.c);
+      if (!wallPropertiesMatch(wall, entry.wall) || !segmentsOverlap(other, segment, tolerance)) continue;
+
+      if (segmentContains(other, segment, tolerance)) {
+        skipped++;
+      } else {
+        // Replace the existing wall with one covering both
+        if (entry.id) toDelete.add(entry.id);
+        entry.id = undefined;
+        entry.wall = { ...entry.wall, c: toCoordinates(segmentUnion(other, segment)).map(Math.round) };
+      }
+      handled = true;
+      break;
+    }
+
+    if (!handled) {
+      entries.push({ wall });
+      added++;
+    }
+  }
+
+  return {
+    toCreate: entries.filter(entry => !entry.id).map(entry => {
+      const { _id, ...wallData } = entry.wall;
+      return wallData;
+    }),
+    toDelete: [...toDelete],
+    added,
+    skipped,
+    replaced: toDelete.size
+  };
+}
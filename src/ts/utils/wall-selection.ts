@@ -0,0 +1,89 @@
+// src/ts/utils/wall-selection.ts
+import { WallData, WallFilter, WallSelection } from "../types";
+import { Point, pointInPolygon, rotatePoint } from "./geometry";
+import { getSightRestriction, getWallCategory } from "./wall-types";
+
+/**
+ * Number of points used to approximate an ellipse drawing
+ */
+const ELLIPSE_SEGMENTS = 32;
+
+/**
+ * Check whether a wall matches every criterion of a filter
+ */
+export function wallMatchesFilter(wall: WallData, filter: WallFilter): boolean {
+  if (filter.door?.length && !filter.door.includes(wall.door ?? 0)) return false;
+  if (filter.move?.length && !filter.move.includes(wall.move ?? 20)) return false;
+  if (filter.sight?.length && !filter.sight.includes(getSightRestriction(wall))) return false;
+  if (filter.categories?.length && !filter.categories.includes(getWallCategory(wall))) return false;
+  return true;
+}
+
+/**
+ * Check whether both endpoints of a wall lie inside any of the regions
+ */
+export function wallInRegions(wall: WallData, regions: Point[][]): boolean {
+  const a = { x: wall.c[0], y: wall.c[1] };
+  const b = { x: wall.c[2], y: wall.c[3] };
+  return regions.some(region => pointInPolygon(a, region) && pointInPolygon(b, region));
+}
+
+/**
+ * Filter walls by a selection. Every criterion that is set must match.
+ * @param walls Wall data including `_id`
+ * @param selection The selection criteria
+ * @param controlledIds IDs of the walls currently controlled on the canvas
+ * @param regions Polygons in scene coordinates that walls must lie inside
+ */
+export function selectWalls(walls: WallData[], selection: WallSelection, controlledIds: Set<string>, regions: Point[][]): WallData[] {
+  return walls.filter(wall => {
+    if (selection.controlled && !controlledIds.has(wall._id ?? "")) return false;
+    if (selection.region && !wallInRegions(wall, regions)) return false;
+    if (selection.filter && !wallMatchesFilter(wall, selection.filter)) return false;
+    return true;
+  });
+}
+
+/**
+ * Convert a drawing's data into a polygon in scene coordinates. Rectangles, ellipses and polygons are
+ * supported; other shapes use their bounding rectangle.
+ */
+export function drawingToPolygon(drawing: Record<string, any>): Point[] {
+  // v10+ keeps the shape in `shape`, earlier versions on the document itself
+  const shape = drawing.shape ?? drawing;
+  const type = shape.type;
+  const width = shape.width ?? 0;
+  const height = shape.height ?? 0;
+  const origin = { x: drawing.x ?? 0, y: drawing.y ?? 0 };
+
+  let points: Point[];
+  if ((type === "p" || type === "f") && shape.points?.length) {
+    // Points are relative to the drawing, either flat ([x, y, x, y]) or paired ([[x, y], ...])
+    const flat: number[] = Array.isArray(shape.points[0]) ? shape.points.flat() : shape.points;
+    points = [];
+    for (let i = 0; i + 1 < flat.length; i += 2) {
+      points.push({ x: origin.x + flat[i], y: origin.y + flat[i + 1] });
+    }
+  } else if (type === "e") {
+    points = Array.from({ length: ELLIPSE_SEGMENTS }, (_, i) => {
+      const angle = (i / ELLIPSE_SEGMENTS) * Math.PI * 2;
+      return {
+        x: origin.x + width / 2 + (width / 2) * Math.cos(angle),
+        y: origin.y + height / 2 + (height / 2) * Math.sin(angle)
+      };
+    });
+  } else {
+    points = [
+      { x: origin.x, y: origin.y },
+      { x: origin.x + width, y: origin.y },
+      { x: origin.x + width, y: origin.y + height },
+      { x: origin.x, y: origin.y + height }
+    ];
+  }
+
+  const rotation = drawing.rotation ?? 0;
+  if (!rotation) return points;
+
+  const center = { x: origin.x + width / 2, y: origin.y + height / 2 };
+  return points.map(point => rotatePoint(point, center, rotation));
+}
@@ -0,0 +1,110 @@
+// src/ts/utils/wall-sets.ts
+import { DocumentEnvelope, PlaceableData, PlaceableType, WallData } from "../types";
+import { boundingRect, Rect } from "./geometry";
+import { ENVELOPE_FORMAT, ENVELOPE_VERSION, isDocumentEnvelope, transformPlaceable } from "./placeables";
+import { IDENTITY_TRANSFORM, transformWalls, WallTransform } from "./wall-transform";
+
+/**
+ * Walls, and any other documents exported with them, handled as one unit
+ */
+export interface WallSet {
+  walls: WallData[];
+  documents: [PlaceableType, PlaceableData[]][];
+  /** Source scene information from an envelope */
+  scene?: DocumentEnvelope["scene"];
+}
+
+/**
+ * How a wall set is placed: scaled, mirrored and rotated around its own bounds, then moved so its
+ * top-left corner lands on a point
+ */
+export interface WallSetPlacement {
+  x: number;
+  y: number;
+  scale: number;
+  /** Clockwise rotation in degrees, one of 0, 90, 180, 270 */
+  rotation: number;
+  flipX: boolean;
+  flipY: boolean;
+}
+
+/**
+ * Read a wall array or document envelope, as written by WallUtils.getWallsJson
+ * @throws If the text is not a wall array or envelope
+ */
+export function parseWallSet(text: string): WallSet {
+  const data = JSON.parse(text);
+  if (Array.isArray(data)) return { walls: data, documents: [] };
+  if (isDocumentEnvelope(data)) {
+    const { Wall, ...others } = data.documents;
+    return {
+      walls: (Wall ?? []) as WallData[],
+      documents: (Object.entries(others) as [PlaceableType, PlaceableData[]][]).filter(([, documents]) => Array.isArray(documents)),
+      scene: data.scene
+    };
+  }
+  throw new Error("Expected a wall array or document envelope.");
+}
+
+/**
+ * Write a wall set back to the format it was read from
+ */
+export function serializeWallSet(set: WallSet): string {
+  if (set.documents.length === 0) return JSON.stringify(set.walls);
+
+  const envelope: DocumentEnvelope = {
+    format: ENVELOPE_FORMAT,
+    version: ENVELOPE_VERSION,
+    ...(set.scene ? { scene: set.scene } : {}),
+    documents: Object.fromEntries([["Wall", set.walls], ...set.documents])
+  };
+  return JSON.stringify(envelope);
+}
+
+/**
+ * Bounds of a wall set's walls
+ * @returns The bounds, or null if the set has no walls
+ */
+export function wallSetBounds(walls: WallData[]): Rect | null {
+  const points = walls
+    .filter(wall => Array.isArray(wall?.c) && wall.c.length >= 4)
+    .flatMap(wall => [{ x: wall.c[0], y: wall.c[1] }, { x: wall.c[2], y: wall.c[3] }]);
+  return points.length > 0 ? boundingRect(points) : null;
+}
+
+/**
+ * Size of a wall set's bounds once scaled and rotated
+ */
+export function placedSize(bounds: Rect, placement: Pick<WallSetPlacement, "scale" | "rotation">): { width: number, height: number } {
+  const width = bounds.width * placement.scale;
+  const height = bounds.height * placement.scale;
+  return placement.rotation % 180 === 0 ? { width, height } : { width: height, height: width };
+}
+
+/**
+ * Place a wall set, returning new documents
+ * @param bounds The set's bounds before placement, which scaling, mirroring and rotation pivot on
+ */
+export function placeWallSet(set: WallSet, bounds: Rect, placement: WallSetPlacement): WallSet {
+  // Move the set to the origin first, so the frame for mirroring and rotation is the set itself
+  const toOrigin: WallTransform = { ...IDENTITY_TRANSFORM, offsetX: -bounds.x, offsetY: -bounds.y };
+  const transform: WallTransform = {
+    scale: placement.scale,
+    rotation: placement.rotation,
+    flipX: placement.flipX,
+    flipY: placement.flipY,
+    offsetX: placement.x,
+    offsetY: placement.y
+  };
+  const frame = { width: bounds.width * placement.scale, height: bounds.height * placement.scale };
+  const originFrame = { width: bounds.width, height: bounds.height };
+
+  return {
+    ...set,
+    walls: transformWalls(transformWalls(set.walls, toOrigin, originFrame), transform, frame),
+    documents: set.documents.map(([type, documents]) => [
+      type,
+      documents.map(data => transformPlaceable(type, transformPlaceable(type, data, toOrigin, originFrame), transform, frame))
+    ])
+  };
+}
@@ -0,0 +1,99 @@
+// src/ts/utils/wall-transform.ts
+import { WallData } from "../types";
+
+/**
+ * A fully resolved transform applied to imported wall coordinates
+ */
+export interface WallTransform {
+  /** Uniform scale applied around the origin */
+  scale: number;
+  /** Clockwise rotation in degrees, one of 0, 90, 180, 270 */
+  rotation: number;
+  /** Mirror horizontally within the source frame */
+  flipX: boolean;
+  /** Mirror vertically within the source frame */
+  flipY: boolean;
+  /** Translation applied after scaling, mirroring and rotation */
+  offsetX: number;
+  offsetY: number;
+}
+
+/**
+ * Size of the (scaled) area the walls were traced on, used as the pivot for mirroring and rotation
+ */
+export interface TransformFrame {
+  width: number;
+  height: number;
+}
+
+export const IDENTITY_TRANSFORM: WallTransform = {
+  scale: 1,
+  rotation: 0,
+  flipX: false,
+  flipY: false,
+  offsetX: 0,
+  offsetY: 0
+};
+
+/**
+ * Normalize any angle to one of the supported 90° steps
+ */
+export function normalizeRotation(degrees: number): number {
+  const steps = Math.round(degrees / 90);
+  return (((steps % 4) + 4) % 4) * 90;
+}
+
+/**
+ * Check whether a transform would leave coordinates unchanged
+ */
+export function isIdentityTransform(transform: WallTransform): boolean {
+  return transform.scale === 1
+    && normalizeRotation(transform.rotation) === 0
+    && !transform.flipX
+    && !transform.flipY
+    && transform.offsetX === 0
+    && transform.offsetY === 0;
+}
+
+/**
+ * Transform a single point. Scaling happens first, then mirroring and rotation within the frame, then translation.
+ */
+export function transformPoint(x: number, y: number, transform: WallTransform, frame: TransformFrame): [number, number] {
+  let px = x * transform.scale;
+  let py = y * transform.scale;
+
+  if (transform.flipX) px = frame.width - px;
+  if (transform.flipY) py = frame.height - py;
+
+  switch (normalizeRotation(transform.rotation)) {
+    case 90:
+      [px, py] = [frame.height - py, px];
+      break;
+    case 180:
+      [px, py] = [frame.width - px, frame.height - py];
+      break;
+    case 270:
+      [px, py] = [py, frame.width - px];
+      break;
+  }
+
+  return [px + transform.offsetX, py + transform.offsetY];
+}
+
+/**
+ * Apply a transform to a set of walls, returning new wall objects
+ */
+export function transformWalls(walls: WallData[], transform: WallTransform, frame: TransformFrame): WallData[] {
+  if (isIdentityTransform(transform)) return walls;
+
+  // A single mirror reverses handedness, so swap endpoints to keep directional walls facing the same way
+  const swapEndpoints = transform.flipX !== transform.flipY;
+
+  return walls.map(wall => {
+    const [x0, y0, x1, y1] = wall.c;
+    const start = transformPoint(x0, y0, transform, frame);
+    const end = transformPoint(x1, y1, transform, frame);
+    const c = swapEndpoints ? [...end, ...start] : [...start, ...end];
+    return { ...wall, c: c.map(value => Math.round(value)) };
+  });
+}
@@ -0,0 +1,80 @@
+// src/ts/utils/wall-types.ts
+import { WALL_DOOR, WALL_MOVE, WALL_SENSE } from "../constants";
+import { WallCategory, WallData } from "../types";
+
+/**
+ * Display colors for each wall category (PIXI hex values)
+ */
+export const WALL_CATEGORY_COLORS: Record<WallCategory, number> = {
+  wall: 0xf5f5dc,
+  door: 0x4fa3ff,
+  secret: 0xb36bff,
+  window: 0x5fe0d0,
+  invisible: 0xffa040,
+  terrain: 0x7ccf5a,
+  ethereal: 0xb0b0b0
+};
+
+/**
+ * Human readable labels for each wall category
+ */
+export const WALL_CATEGORY_LABELS: Record<WallCategory, string> = {
+  wall: "Walls",
+  door: "Doors",
+  secret: "Secret Doors",
+  window: "Windows",
+  invisible: "Invisible Walls",
+  terrain: "Terrain Walls",
+  ethereal: "Ethereal Walls"
+};
+
+/**
+ * Get the sight restriction of a wall, handling both the v9 `sense` and v10+ `sight` fields
+ */
+export function getSightRestriction(wall: WallData): number {
+  return wall.sight ?? wall.sense ?? WALL_SENSE.NORMAL;
+}
+
+/**
+ * Classify a wall by its door type and restrictions
+ */
+export function getWallCategory(wall: WallData): WallCategory {
+  if (wall.door === WALL_DOOR.DOOR) return "door";
+  if (wall.door === WALL_DOOR.SECRET) return "secret";
+
+  const sight = getSightRestriction(wall);
+  const move = wall.move ?? WALL_MOVE.NORMAL;
+
+  if (move === WALL_MOVE.NONE) return "ethereal";
+  if (sight === WALL_SENSE.NONE) return "invisible";
+  if (sight === WALL_SENSE.LIMITED) return "terrain";
+  if (sight === WALL_SENSE.PROXIMITY || sight === WALL_SENSE.DISTANCE) return "window";
+  return "wall";
+}
+
+/**
+ * Count walls per category
+ */
+export function countWallCategories(walls: WallData[]): Record<WallCategory, number> {
+  const counts = Object.fromEntries(
+    Object.keys(WALL_CATEGORY_LABELS).map(category => [category, 0])
+  ) as Record<WallCategory, number>;
+
+  for (const wall of walls) {
+    counts[getWallCategory(wall)]++;
+  }
+  return counts;
+}
+
+/**
+ * Properties that define how a wall behaves, compared when deciding whether two walls are the same
+ */
+const BEHAVIOR_KEYS = ["move", "light", "sound", "door", "dir"] as const;
+
+/**
+ * Whether two walls restrict movement, senses and doors the same way
+ */
+export function wallPropertiesMatch(a: WallData, b: WallData): boolean {
+  if (getSightRestriction(a) !== getSightRestriction(b)) return false;
+  return BEHAVIOR_KEYS.every(key => (a[key] ?? 0) === (b[key] ?? 0));
+}
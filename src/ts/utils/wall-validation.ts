@@ -0,0 +1,104 @@
+// src/ts/utils/wall-validation.ts
+import { WALL_DIRECTION, WALL_DOOR, WALL_DOOR_STATE, WALL_MOVE, WALL_SENSE } from "../constants";
+import { WallData } from "../types";
+
+/**
+ * A wall entry that had problems, identified by its position in the imported array
+ */
+export interface WallValidationIssue {
+  index: number;
+  reasons: string[];
+}
+
+/**
+ * Outcome of validating imported wall data
+ */
+export interface WallValidationReport {
+  /** Walls that can be created, including repaired ones */
+  valid: WallData[];
+  /** Walls that were kept after dropping or fixing invalid fields */
+  repaired: WallValidationIssue[];
+  /** Walls that cannot be created */
+  rejected: WallValidationIssue[];
+}
+
+/**
+ * Allowed values for enumerated wall fields
+ */
+const ENUM_FIELDS: Record<string, readonly number[]> = {
+  move: Object.values(WALL_MOVE),
+  sense: Object.values(WALL_SENSE),
+  sight: Object.values(WALL_SENSE),
+  light: Object.values(WALL_SENSE),
+  sound: Object.values(WALL_SENSE),
+  door: Object.values(WALL_DOOR),
+  ds: Object.values(WALL_DOOR_STATE),
+  dir: Object.values(WALL_DIRECTION)
+};
+
+/**
+ * Validate a single wall entry
+ * @returns The cleaned wall, or null if it must be rejected, along with the reasons
+ */
+export function validateWall(entry: unknown): { wall: WallData | null, reasons: string[] } {
+  const reasons: string[] = [];
+
+  if (typeof entry !== "object" || entry === null || Array.isArray(entry)) {
+    return { wall: null, reasons: ["Not a wall object"] };
+  }
+
+  const wall = { ...entry } as WallData;
+
+  // Coordinates are required and cannot be repaired
+  if (!Array.isArray(wall.c)) {
+    return { wall: null, reasons: ["Missing coordinates array \"c\""] };
+  }
+  if (wall.c.length !== 4) {
+    return { wall: null, reasons: [`Coordinates must have 4 values, found ${wall.c.length}`] };
+  }
+  if (!wall.c.every(value => typeof value === "number" && Number.isFinite(value))) {
+    return { wall: null, reasons: ["Coordinates must be finite numbers"] };
+  }
+  if (wall.c[0] === wall.c[2] && wall.c[1] === wall.c[3]) {
+    return { wall: null, reasons: ["Wall has zero length"] };
+  }
+  if (!wall.c.every(Number.isInteger)) {
+    wall.c = wall.c.map(Math.round);
+    reasons.push("Rounded non-integer coordinates");
+  }
+
+  // Invalid enum values are dropped so Foundry's defaults apply
+  for (const [field, allowed] of Object.entries(ENUM_FIELDS)) {
+    if (!(field in wall) || wall[field] === undefined) continue;
+    if (!allowed.includes(wall[field])) {
+      reasons.push(`Invalid "${field}" value ${JSON.stringify(wall[field])}, using default`);
+      delete wall[field];
+    }
+  }
+
+  if ("flags" in wall && (typeof wall.flags !== "object" || wall.flags === null || Array.isArray(wall.flags))) {
+    reasons.push("Invalid \"flags\" value, removed");
+    delete wall.flags;
+  }
+
+  return { wall, reasons };
+}
+
+/**
+ * Validate every entry of an imported wall array
+ */
+export function validateWalls(entries: unknown[]): WallValidationReport {
+  const report: WallValidationReport = { valid: [], repaired: [], rejected: [] };
+
+  entries.forEach((entry, index) => {
+    const { wall, reasons } = validateWall(entry);
+    if (!wall) {
+      report.rejected.push({ index, reasons });
+      return;
+    }
+    report.valid.push(wall);
+    if (reasons.length > 0) report.repaired.push({ index, reasons });
+  });
+
+  return report;
+}
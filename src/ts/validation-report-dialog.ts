@@ -0,0 +1,88 @@
+import { moduleId } from './constants';
+import { escapeHtml } from './utils/html';
+import { WallValidationIssue, WallValidationReport } from './utils/wall-validation';
+
+/**
+ * Maximum number of issues listed per section, to keep the dialog responsive
+ */
+const MAX_LISTED_ISSUES = 200;
+
+/**
+ * Dialog listing walls that were rejected or repaired during import validation
+ */
+export class ValidationReportDialog extends Dialog {
+  constructor(report: WallValidationReport, resolve: (proceed: boolean) => void) {
+    const canImport = report.valid.length > 0;
+
+    super(
+      {
+        title: "Wall Import Validation",
+        content: ValidationReportDialog.buildContent(report),
+        buttons: {
+          ...(canImport ? {
+            import: {
+              icon: '<i class="fas fa-check"></i>',
+              label: `Import ${report.valid.length} valid walls`,
+              callback: () => resolve(true)
+            }
+          } : {}),
+          cancel: {
+            icon: '<i class="fas fa-times"></i>',
+            label: "Cancel",
+            callback: () => resolve(false)
+          }
+        },
+        default: "cancel",
+        close: () => resolve(false)
+      },
+      {
+        id: `${moduleId}-validation-report-dialog`,
+        classes: ["auto-wall-dialog"],
+        width: 480
+      }
+    );
+  }
+
+  /**
+   * Show the report and wait for the user to continue or cancel
+   * @returns True if the valid walls should be imported
+   */
+  static review(report: WallValidationReport): Promise<boolean> {
+    return new Promise((resolve) => {
+      new ValidationReportDialog(report, resolve).render(true);
+    });
+  }
+
+  /**
+   * Build the dialog HTML
+   */
+  private static buildContent(report: WallValidationReport): string {
+    const total = report.valid.length + report.rejected.length;
+    return `
+      <p>${report.valid.length} of ${total} walls are valid.
+        ${report.rejected.length} will be skipped and ${report.repaired.length} were repaired.</p>
+      ${ValidationReportDialog.buildIssueList("Rejected Walls", report.rejected)}
+      ${ValidationReportDialog.buildIssueList("Repaired Walls", report.repaired)}
+    `;
+  }
+
+  /**
+   * Build a list of issues
+   */
+  private static buildIssueList(title: string, issues: WallValidationIssue[]): string {
+    if (issues.length === 0) return "";
+
+    const rows = issues.slice(0, MAX_LISTED_ISSUES)
+      .map(issue => `<li><strong>Wall #${issue.index + 1}:</strong> ${issue.reasons.map(escapeHtml).join("; ")}</li>`)
+      .join("");
+    const more = issues.length > MAX_LISTED_ISSUES
+      ? `<p>...and ${issues.length - MAX_LISTED_ISSUES} more.</p>`
+      : "";
+
+    return `
+      <h3>${title}</h3>
+      <ul class="validation-issues">${rows}</ul>
+      ${more}
+    `;
+  }
+}
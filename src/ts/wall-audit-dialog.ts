@@ -0,0 +1,252 @@
+import { moduleId } from './constants';
+import { WallUtils } from './module';
+import { WallAuditOptions } from './types';
+import { ModuleLogger } from './utils/logger';
+import { WALL_AUDIT_COLORS, WALL_AUDIT_LABELS, WallAuditIssue, WallAuditIssueType, WallAuditReport } from './utils/wall-audit';
+
+/**
+ * Maximum number of issues listed per section, to keep the dialog responsive
+ */
+const MAX_LISTED_ISSUES = 200;
+
+/**
+ * Dialog listing wall audit findings, with markers on the canvas and click-to-pan
+ */
+export class WallAuditDialog extends Dialog {
+  /**
+   * Markers for every issue of the open report
+   */
+  private static markers: PIXI.Graphics | null = null;
+
+  /**
+   * Ring around the issue last clicked in the list
+   */
+  private static highlight: PIXI.Graphics | null = null;
+
+  constructor(private readonly report: WallAuditReport, private readonly auditOptions: WallAuditOptions = {}) {
+    super(
+      {
+        title: "Wall Audit",
+        content: WallAuditDialog.buildContent(report),
+        buttons: {
+          close: {
+            icon: '<i class="fas fa-times"></i>',
+            label: "Close"
+          }
+        },
+        default: "close"
+      },
+      {
+        id: `${moduleId}-wall-audit-dialog`,
+        classes: ["auto-wall-dialog"],
+        width: 480
+      }
+    );
+  }
+
+  /**
+   * Find the currently rendered dialog, if any
+   */
+  static get instance(): WallAuditDialog | undefined {
+    return Object.values(ui.windows).find(
+      (app): app is WallAuditDialog => app instanceof WallAuditDialog && app.rendered
+    );
+  }
+
+  /**
+   * Show a report, replacing any report that is already open
+   */
+  static async show(report: WallAuditReport, options: WallAuditOptions = {}): Promise<void> {
+    await this.instance?.close();
+    this.drawMarkers(report.issues);
+    new WallAuditDialog(report, options).render(true);
+  }
+
+  /**
+   * Build the dialog HTML
+   */
+  private static buildContent(report: WallAuditReport): string {
+    const types = Object.keys(WALL_AUDIT_LABELS) as WallAuditIssueType[];
+    const total = report.issues.length;
+    const summary = total === 0
+      ? `<p>No problems found in ${report.wallCount} walls.</p>`
+      : `<p>Found ${total} potential problems in ${report.wallCount} walls (gaps up to ${report.gapThreshold}px). Click an entry to pan to it.</p>`;
+
+    // Indexes into report.issues, so clicks can find the issue
+    const sections = types.map(type => {
+      const indexes = report.issues
+        .map((issue, index) => issue.type === type ? index : -1)
+        .filter(index => index !== -1);
+      return WallAuditDialog.buildIssueList(type, indexes, report.issues);
+    }).join("");
+
+    return `
+      <div class="wall-audit">
+        ${summary}
+        ${sections}
+        <div class="form-group">
+          <label>Gap threshold (px)</label>
+          <input type="number" name="gapThreshold" value="${report.gapThreshold}" step="any" min="0">
+          <button type="button" class="rerun-audit"><i class="fas fa-redo"></i> Run Again</button>
+        </div>
+        <div class="form-group">
+          <button type="button" class="export-audit"><i class="fas fa-file-export"></i> Export Report</button>
+        </div>
+      </div>
+    `;
+  }
+
+  /**
+   * Build the list of issues of one type
+   */
+  private static buildIssueList(type: WallAuditIssueType, indexes: number[], issues: WallAuditIssue[]): string {
+    if (indexes.length === 0) return "";
+
+    const color = `#${WALL_AUDIT_COLORS[type].toString(16).padStart(6, "0")}`;
+    const rows = indexes.slice(0, MAX_LISTED_ISSUES)
+      .map(index => {
+        const issue = issues[index];
+        return `
+          <li class="audit-issue" data-index="${index}">
+            <span class="swatch" style="background: ${color}"></span>
+            (${Math.round(issue.x)}, ${Math.round(issue.y)}) ${WallAuditDialog.describe(issue)}
+          </li>
+        `;
+      })
+      .join("");
+    const more = indexes.length > MAX_LISTED_ISSUES
+      ? `<p>...and ${indexes.length - MAX_LISTED_ISSUES} more.</p>`
+      : "";
+
+    return `
+      <h3>${WALL_AUDIT_LABELS[type]} (${indexes.length})</h3>
+      <ul class="audit-issues">${rows}</ul>
+      ${more}
+    `;
+  }
+
+  /**
+   * Describe an issue in a few words
+   */
+  private static describe(issue: WallAuditIssue): string {
+    const size = issue.distance !== undefined ? issue.distance.toFixed(1) : "";
+    switch (issue.type) {
+      case "gap": return `${size}px gap between two walls`;
+      case "t-junction": return `wall ends ${size}px short of another wall`;
+      case "crossing": return "two walls cross without a shared point";
+      case "unattached-door": return "door end is not attached to a wall";
+      case "dangling": return "wall end is not connected";
+    }
+  }
+
+  /**
+   * Draw a marker for every issue on the canvas
+   */
+  private static drawMarkers(issues: WallAuditIssue[]): void {
+    this.clearMarkers();
+
+    const board = canvas as any;
+    const layer = board?.controls ?? board?.stage;
+    if (!layer) {
+      ModuleLogger.warn("Canvas is not ready, skipping wall audit markers");
+      return;
+    }
+
+    const gridSize = board.dimensions?.size ?? 100;
+    const radius = Math.max(6, Math.round(gridSize / 8));
+    const markers = new PIXI.Graphics();
+
+    for (const issue of issues) {
+      markers.lineStyle(Math.max(2, radius / 3), WALL_AUDIT_COLORS[issue.type], 0.9);
+      markers.drawCircle(issue.x, issue.y, radius);
+    }
+
+    const highlight = new PIXI.Graphics();
+    layer.addChild(markers);
+    layer.addChild(highlight);
+    this.markers = markers;
+    this.highlight = highlight;
+  }
+
+  /**
+   * Remove the markers from the canvas
+   */
+  static clearMarkers(): void {
+    for (const graphics of [this.markers, this.highlight]) {
+      if (!graphics) continue;
+      graphics.parent?.removeChild(graphics);
+      graphics.destroy();
+    }
+    this.markers = null;
+    this.highlight = null;
+  }
+
+  /**
+   * Pan the canvas to an issue and ring it
+   */
+  private focus(issue: WallAuditIssue): void {
+    const board = canvas as any;
+    if (!board?.ready) return;
+
+    board.animatePan({ x: issue.x, y: issue.y, scale: Math.max(board.stage.scale.x, 1), duration: 250 });
+
+    const highlight = WallAuditDialog.highlight;
+    if (!highlight) return;
+    const radius = Math.max(12, Math.round((board.dimensions?.size ?? 100) / 3));
+    highlight.clear();
+    highlight.lineStyle(4, 0xffffff, 1);
+    highlight.drawCircle(issue.x, issue.y, radius);
+  }
+
+  /**
+   * Download the report as JSON
+   */
+  private exportReport(): void {
+    const scene = (game as Game).scenes?.current;
+    const data = {
+      format: `${moduleId}.wall-audit`,
+      created: new Date().toISOString(),
+      scene: { id: scene?.id ?? null, name: scene?.name ?? null },
+      ...this.report
+    };
+    const sceneName = scene?.name?.replace(/\s+/g, "_") || "scene";
+    saveDataToFile(JSON.stringify(data, null, 2), "application/json", `${sceneName}_wall_audit.json`);
+  }
+
+  /**
+   * @override
+   */
+  override activateListeners(html: JQuery) {
+    super.activateListeners(html);
+
+    html.find('.audit-issue').click((event) => {
+      const index = Number(event.currentTarget.dataset.index);
+      const issue = this.report.issues[index];
+      if (!issue) return;
+      html.find('.audit-issue').removeClass('active');
+      $(event.currentTarget).addClass('active');
+      this.focus(issue);
+    });
+
+    html.find('.export-audit').click(() => {
+      this.exportReport();
+    });
+
+    html.find('.rerun-audit').click(() => {
+      const gapThreshold = parseFloat(html.find('[name="gapThreshold"]').val() as string);
+      WallUtils.auditWalls({
+        ...this.auditOptions,
+        gapThreshold: Number.isFinite(gapThreshold) && gapThreshold >= 0 ? gapThreshold : undefined
+      });
+    });
+  }
+
+  /**
+   * Remove the canvas markers when the dialog is closed
+   * @override
+   */
+  override close(options?: Application.CloseOptions): Promise<void> {
+    WallAuditDialog.clearMarkers();
+    return super.close(options);
+  }
+}
@@ -0,0 +1,153 @@
+import { moduleId } from './constants';
+import { WallUtils } from './module';
+import { WallCleanupOptions } from './types';
+import { countCleanupChanges, DEFAULT_CLEANUP_OPTIONS, WallCleanupSummary } from './utils/wall-cleanup';
+
+/**
+ * Dialog for choosing wall cleanup options, previewing the changes and applying them
+ */
+export class WallCleanupDialog extends Dialog {
+  /**
+   * Options entered in the dialog, kept for the next time it opens
+   */
+  private static options: WallCleanupOptions = {};
+
+  constructor() {
+    super(
+      {
+        title: "Clean Up Walls",
+        content: WallCleanupDialog.buildContent(),
+        buttons: {
+          apply: {
+            icon: '<i class="fas fa-broom"></i>',
+            label: "Apply Cleanup",
+            callback: (html) => {
+              WallUtils.cleanupWalls(WallCleanupDialog.readOptions($(html as HTMLElement)));
+            }
+          },
+          cancel: {
+            icon: '<i class="fas fa-times"></i>',
+            label: "Cancel"
+          }
+        },
+        default: "cancel"
+      },
+      {
+        id: `${moduleId}-wall-cleanup-dialog`,
+        classes: ["auto-wall-dialog"],
+        width: 420
+      }
+    );
+  }
+
+  /**
+   * Build the dialog HTML
+   */
+  private static buildContent(): string {
+    const options = { ...DEFAULT_CLEANUP_OPTIONS, ...WallCleanupDialog.options };
+    const scope = WallCleanupDialog.options.selection?.controlled ? "controlled" : "all";
+    const checked = (value?: boolean) => value ? "checked" : "";
+
+    return `
+      <div class="wall-cleanup">
+        <div class="form-group">
+          <label>Walls</label>
+          <select name="scope">
+            <option value="all" ${scope === "all" ? "selected" : ""}>All walls</option>
+            <option value="controlled" ${scope === "controlled" ? "selected" : ""}>Selected walls</option>
+          </select>
+        </div>
+        <div class="form-group">
+          <label>Snap endpoints within (px)</label>
+          <input type="number" name="snapTolerance" value="${options.snapTolerance}" step="any" min="0">
+        </div>
+        <div class="form-group">
+          <label>Weld gaps up to (px)</label>
+          <input type="number" name="weldTolerance" value="${options.weldTolerance}" step="any" min="0">
+        </div>
+        <div class="form-group">
+          <label>Merge straight chains within (px)</label>
+          <input type="number" name="simplifyTolerance" value="${options.simplifyTolerance}" step="any" min="0">
+        </div>
+        <div class="form-group">
+          <label>Remove duplicate walls</label>
+          <input type="checkbox" name="removeDuplicates" ${checked(options.removeDuplicates)}>
+          <label>Remove zero-length walls</label>
+          <input type="checkbox" name="removeDegenerate" ${checked(options.removeDegenerate)}>
+        </div>
+        <p class="hint">Set a tolerance to 0 to skip that step. Doors and one-way walls are never merged.</p>
+        <div class="form-group">
+          <button type="button" class="preview-cleanup"><i class="fas fa-search"></i> Preview Changes</button>
+        </div>
+        <div class="cleanup-summary"></div>
+      </div>
+    `;
+  }
+
+  /**
+   * Build the dry-run summary
+   */
+  private static buildSummary(summary: WallCleanupSummary): string {
+    if (countCleanupChanges(summary) === 0) {
+      return `<p>No changes needed.</p>`;
+    }
+
+    const rows: [string, number][] = [
+      ["Endpoints snapped together", summary.snapped],
+      ["Gaps welded", summary.welded],
+      ["Zero-length walls removed", summary.degenerate],
+      ["Duplicate walls removed", summary.duplicates],
+      ["Walls removed by merging chains", summary.simplified]
+    ];
+    return `
+      <ul class="cleanup-results">
+        ${rows.map(([label, count]) => `<li>${label}: <strong>${count}</strong></li>`).join("")}
+      </ul>
+    `;
+  }
+
+  /**
+   * Read the options entered in the dialog
+   */
+  private static readOptions(html: JQuery): WallCleanupOptions {
+    const section = html.find('.wall-cleanup');
+    const number = (name: string, fallback: number) => {
+      const value = parseFloat(section.find(`[name="${name}"]`).val() as string);
+      return Number.isFinite(value) && value >= 0 ? value : fallback;
+    };
+    const flag = (name: string) => section.find(`[name="${name}"]`).is(':checked');
+
+    const options: WallCleanupOptions = {
+      snapTolerance: number("snapTolerance", DEFAULT_CLEANUP_OPTIONS.snapTolerance),
+      weldTolerance: number("weldTolerance", DEFAULT_CLEANUP_OPTIONS.weldTolerance),
+      simplifyTolerance: number("simplifyTolerance", DEFAULT_CLEANUP_OPTIONS.simplifyTolerance),
+      removeDuplicates: flag("removeDuplicates"),
+      removeDegenerate: flag("removeDegenerate"),
+      selection: section.find('[name="scope"]').val() === "controlled" ? { controlled: true } : undefined
+    };
+    WallCleanupDialog.options = options;
+
+    return options;
+  }
+
+  /**
+   * @override
+   */
+  override activateListeners(html: JQuery) {
+    super.activateListeners(html);
+
+    // Any change invalidates the previous preview
+    html.find('.wall-cleanup').on('change', () => {
+      WallCleanupDialog.readOptions(html);
+      html.find('.cleanup-summary').empty();
+    });
+
+    html.find('.preview-cleanup').click(async () => {
+      const summary = await WallUtils.cleanupWalls({ ...WallCleanupDialog.readOptions(html), dryRun: true });
+      if (summary) {
+        html.find('.cleanup-summary').html(WallCleanupDialog.buildSummary(summary));
+        this.setPosition({ height: "auto" });
+      }
+    });
+  }
+}
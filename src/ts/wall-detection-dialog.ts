@@ -0,0 +1,140 @@
+import { moduleId } from './constants';
+import { WallUtils } from './module';
+import { AutoWallImageSource, WallDetectionMatch, WallDetectionOptions, WallDetectionTrace } from './types';
+import { getSceneBackgroundSrc } from './utils/scene';
+import { DEFAULT_DETECTION_OPTIONS } from './wall-detector';
+
+/**
+ * Dialog for tuning and running wall detection in the browser
+ */
+export class WallDetectionDialog extends Dialog {
+  /**
+   * Options entered in the dialog, kept for the next time it opens
+   */
+  private static options: WallDetectionOptions = {};
+
+  constructor() {
+    super(
+      {
+        title: "Detect Walls",
+        content: WallDetectionDialog.buildContent(),
+        buttons: {
+          detect: {
+            icon: '<i class="fas fa-search"></i>',
+            label: "Detect Walls",
+            callback: (html) => {
+              WallUtils.detectWalls(WallDetectionDialog.readOptions($(html as HTMLElement)));
+            }
+          },
+          cancel: {
+            icon: '<i class="fas fa-times"></i>',
+            label: "Cancel"
+          }
+        },
+        default: "detect"
+      },
+      {
+        id: `${moduleId}-wall-detection-dialog`,
+        classes: ["auto-wall-dialog"],
+        width: 420
+      }
+    );
+  }
+
+  override activateListeners(html: JQuery): void {
+    super.activateListeners(html);
+
+    // The color only matters when matching a color
+    const match = html.find('[name="match"]');
+    const color = html.find('[name="color"]');
+    const update = () => color.prop('disabled', match.val() !== "color");
+    match.on('change', update);
+    update();
+  }
+
+  /**
+   * Build the dialog HTML
+   */
+  private static buildContent(): string {
+    const saved = WallDetectionDialog.options;
+    const defaults = DEFAULT_DETECTION_OPTIONS;
+    const scene = (game as Game).scenes?.current;
+    const source = saved.source ?? (scene && !getSceneBackgroundSrc(scene) ? "tiles" : "background");
+    const match = saved.match ?? defaults.match;
+    const trace = saved.trace ?? defaults.trace;
+    const option = (value: string, label: string, current: string) =>
+      `<option value="${value}" ${value === current ? "selected" : ""}>${label}</option>`;
+
+    return `
+      <div class="wall-detection">
+        <div class="form-group">
+          <label>Image</label>
+          <select name="source">
+            ${option("background", "Scene background", source)}
+            ${option("tiles", "Tiles", source)}
+          </select>
+        </div>
+        <div class="form-group">
+          <label>Walls are</label>
+          <select name="match">
+            ${option("dark", "Darker than the threshold", match)}
+            ${option("light", "Lighter than the threshold", match)}
+            ${option("color", "Close to a color", match)}
+          </select>
+          <input type="color" name="color" value="${saved.color ?? defaults.color}">
+        </div>
+        <div class="form-group">
+          <label>Threshold</label>
+          <input type="number" name="threshold" value="${saved.threshold ?? defaults.threshold}" step="1" min="0" max="441">
+        </div>
+        <div class="form-group">
+          <label>Trace</label>
+          <select name="trace">
+            ${option("centerline", "Center of each line", trace)}
+            ${option("outline", "Edges of each line", trace)}
+          </select>
+        </div>
+        <div class="form-group">
+          <label>Minimum wall length (px)</label>
+          <input type="number" name="minSegmentLength" value="${saved.minSegmentLength ?? defaults.minSegmentLength}" step="any" min="0">
+        </div>
+        <div class="form-group">
+          <label>Simplification (px)</label>
+          <input type="number" name="simplifyTolerance" value="${saved.simplifyTolerance ?? defaults.simplifyTolerance}" step="any" min="0">
+        </div>
+        <div class="form-group">
+          <label>Detection resolution (px)</label>
+          <input type="number" name="maxSize" value="${saved.maxSize ?? defaults.maxSize}" step="1" min="256">
+        </div>
+        <p class="hint">The threshold is a brightness from 0 to 255, or how far a pixel's color may be from the
+          chosen color. Lengths are in scene pixels. A lower resolution is faster but loses thin walls.
+          The walls are imported with the default import options.</p>
+      </div>
+    `;
+  }
+
+  /**
+   * Read the options entered in the dialog
+   */
+  private static readOptions(html: JQuery): WallDetectionOptions {
+    const section = html.find('.wall-detection');
+    const number = (name: string) => {
+      const value = parseFloat(section.find(`[name="${name}"]`).val() as string);
+      return Number.isFinite(value) && value >= 0 ? value : undefined;
+    };
+
+    const options: WallDetectionOptions = {
+      source: section.find('[name="source"]').val() as AutoWallImageSource,
+      match: section.find('[name="match"]').val() as WallDetectionMatch,
+      color: section.find('[name="color"]').val() as string,
+      threshold: number("threshold"),
+      trace: section.find('[name="trace"]').val() as WallDetectionTrace,
+      minSegmentLength: number("minSegmentLength"),
+      simplifyTolerance: number("simplifyTolerance"),
+      maxSize: number("maxSize") || undefined
+    };
+    WallDetectionDialog.options = options;
+
+    return options;
+  }
+}
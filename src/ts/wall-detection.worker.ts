@@ -0,0 +1,24 @@
+import { detectWallSegments, WallDetectionRequest, WallDetectionResponse } from './utils/wall-detection';
+
+/**
+ * The worker's global scope; the DOM typings this project builds with don't include worker globals
+ */
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<WallDetectionRequest>) => void) | null;
+  postMessage: (message: WallDetectionResponse) => void;
+};
+
+/**
+ * Detect walls in the pixels sent by WallDetector, off the main thread so Foundry stays responsive
+ */
+scope.onmessage = (event) => {
+  const { width, height, pixels, params } = event.data;
+  try {
+    const segments = detectWallSegments(new Uint8ClampedArray(pixels), width, height, params, (stage, done, total) => {
+      scope.postMessage({ type: "progress", stage, done, total });
+    });
+    scope.postMessage({ type: "result", segments });
+  } catch (err) {
+    scope.postMessage({ type: "error", message: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -0,0 +1,130 @@
+import { AutoWallBridge, AutoWallRequestOptions } from './auto-wall-bridge';
+import { WallData, WallDetectionOptions } from './types';
+import { throwIfAborted } from './utils/concurrency';
+import { getSceneBackgroundSrc } from './utils/scene';
+import { WallDetectionParameters, WallDetectionRequest, WallDetectionResponse } from './utils/wall-detection';
+
+/**
+ * Default detection settings, suited to dark wall lines on a light battle map
+ */
+export const DEFAULT_DETECTION_OPTIONS: Required<Pick<WallDetectionOptions,
+  "match" | "color" | "threshold" | "trace" | "minSegmentLength" | "simplifyTolerance" | "maxSize">> = {
+  match: "dark",
+  color: "#000000",
+  threshold: 80,
+  trace: "centerline",
+  minSegmentLength: 20,
+  simplifyTolerance: 4,
+  maxSize: 2048
+};
+
+/**
+ * Detects walls in the scene image in the browser, running the image processing in a Web Worker
+ */
+export class WallDetector {
+  /**
+   * Detect walls in the scene background or tiles image
+   * @returns The walls, relative to the scene image for import with padding applied, or null if the
+   * scene has no image to detect walls in
+   * @throws An AbortError if cancelled
+   */
+  static async detect(scene: Scene, options: WallDetectionOptions = {}, reporting: AutoWallRequestOptions = {}): Promise<WallData[] | null> {
+    const defaults = DEFAULT_DETECTION_OPTIONS;
+    const settings = {
+      match: options.match ?? defaults.match,
+      color: options.color ?? defaults.color,
+      threshold: options.threshold ?? defaults.threshold,
+      trace: options.trace ?? defaults.trace,
+      minSegmentLength: options.minSegmentLength ?? defaults.minSegmentLength,
+      simplifyTolerance: options.simplifyTolerance ?? defaults.simplifyTolerance,
+      maxSize: options.maxSize ?? defaults.maxSize
+    };
+    const source = options.source ?? (getSceneBackgroundSrc(scene) ? "background" : "tiles");
+
+    const image = await AutoWallBridge.prepareImage(scene, source, reporting);
+    if (!image) return null;
+    throwIfAborted(reporting.signal);
+
+    // Work on a reduced copy of large images
+    reporting.onProgress?.("Reading the image", 0, 0);
+    const bitmap = await createImageBitmap(image.blob);
+    const factor = Math.min(1, settings.maxSize / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * factor));
+    canvas.height = Math.max(1, Math.round(bitmap.height * factor));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      bitmap.close();
+      throw new Error("Unable to create canvas context for wall detection.");
+    }
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+
+    // Lengths are entered in scene pixels
+    const workScale = image.scale * (canvas.width / image.width);
+    const color = parseInt(settings.color.replace("#", ""), 16);
+    const params: WallDetectionParameters = {
+      match: settings.match,
+      color: Number.isFinite(color) ? color : 0,
+      threshold: settings.threshold,
+      trace: settings.trace,
+      minSegmentLength: settings.minSegmentLength * workScale,
+      simplifyTolerance: settings.simplifyTolerance * workScale
+    };
+
+    const segments = await this.runWorker(pixels, params, reporting);
+    const toImage = image.width / canvas.width;
+    const walls = segments.map(c => ({ c: c.map(value => value * toImage) }));
+    return AutoWallBridge.toScene(walls, image, scene);
+  }
+
+  /**
+   * Run detection in a worker
+   * @returns Wall coordinates in pixels of the processed image
+   * @throws If the worker fails, or an AbortError if cancelled
+   */
+  private static runWorker(pixels: ImageData, params: WallDetectionParameters, reporting: AutoWallRequestOptions): Promise<number[][]> {
+    return new Promise((resolve, reject) => {
+      const worker = new Worker(new URL('./wall-detection.worker.ts', import.meta.url), { type: 'module' });
+
+      const finish = () => {
+        worker.terminate();
+        reporting.signal?.removeEventListener("abort", onAbort);
+      };
+      const onAbort = () => {
+        finish();
+        reject(new DOMException("The operation was cancelled.", "AbortError"));
+      };
+      if (reporting.signal?.aborted) {
+        onAbort();
+        return;
+      }
+      reporting.signal?.addEventListener("abort", onAbort, { once: true });
+
+      worker.onmessage = (event: MessageEvent<WallDetectionResponse>) => {
+        const message = event.data;
+        if (message.type === "progress") {
+          reporting.onProgress?.(message.stage, message.done, message.total);
+          return;
+        }
+
+        finish();
+        if (message.type === "result") resolve(message.segments);
+        else reject(new Error(message.message));
+      };
+      worker.onerror = (event) => {
+        finish();
+        reject(new Error(event.message || "Wall detection failed."));
+      };
+
+      const request: WallDetectionRequest = {
+        width: pixels.width,
+        height: pixels.height,
+        pixels: pixels.data.buffer,
+        params
+      };
+      worker.postMessage(request, [pixels.data.buffer]);
+    });
+  }
+}
@@ -0,0 +1,430 @@
+import { moduleId } from './constants';
+import { WallUtils } from './module';
+import { WallData, WallDiffOptions } from './types';
+import { escapeHtml } from './utils/html';
+import { ModuleLogger } from './utils/logger';
+import { DEFAULT_DIFF_TOLERANCE, DEFAULT_MOVE_TOLERANCE, WALL_DIFF_COLORS, WALL_DIFF_LABELS, WallDiffEntry, WallDiffReport, WallDiffType } from './utils/wall-diff';
+import { distance, toSegment } from './utils/geometry';
+
+/**
+ * Maximum number of differences listed per section, to keep the dialog responsive
+ */
+const MAX_LISTED_ENTRIES = 200;
+
+/**
+ * Properties compared between walls, with display labels
+ */
+const PROPERTY_LABELS: Record<string, string> = {
+  move: "movement",
+  sight: "sight",
+  light: "light",
+  sound: "sound",
+  door: "door",
+  ds: "door state",
+  dir: "direction"
+};
+
+/**
+ * What the scene was last compared with, so the comparison can be run again after applying changes
+ */
+interface WallDiffComparison {
+  walls: WallData[];
+  source: string;
+  options: WallDiffOptions;
+}
+
+/**
+ * Window for comparing the scene's walls with another scene or a file, showing the differences on the
+ * canvas and applying selected ones
+ */
+export class WallDiffDialog extends Dialog {
+  /**
+   * Options entered in the dialog, kept for the next time it opens
+   */
+  private static options: WallDiffOptions = {};
+
+  /**
+   * The last comparison and its differences
+   */
+  private static comparison: WallDiffComparison | null = null;
+  private static report: WallDiffReport | null = null;
+
+  /**
+   * Overlay of every difference
+   */
+  private static overlay: PIXI.Graphics | null = null;
+
+  /**
+   * Highlight of the difference last clicked in the list
+   */
+  private static highlight: PIXI.Graphics | null = null;
+
+  constructor() {
+    super(
+      {
+        title: "Compare Walls",
+        content: WallDiffDialog.buildContent(),
+        buttons: {
+          close: {
+            icon: '<i class="fas fa-times"></i>',
+            label: "Close"
+          }
+        },
+        default: "close"
+      },
+      {
+        id: `${moduleId}-wall-diff-dialog`,
+        classes: ["auto-wall-dialog"],
+        width: 480,
+        resizable: true
+      }
+    );
+  }
+
+  /**
+   * Find the currently rendered dialog, if any
+   */
+  static get instance(): WallDiffDialog | undefined {
+    return Object.values(ui.windows).find(
+      (app): app is WallDiffDialog => app instanceof WallDiffDialog && app.rendered
+    );
+  }
+
+  /**
+   * Open the dialog, or bring it up to date if it is already open
+   */
+  static open(): void {
+    if (this.instance) {
+      this.refresh();
+    } else {
+      new WallDiffDialog().render(true);
+    }
+  }
+
+  /**
+   * Re-render the open dialog
+   */
+  static refresh(): void {
+    const dialog = this.instance;
+    if (!dialog) return;
+    dialog.data.content = WallDiffDialog.buildContent();
+    dialog.render(true);
+  }
+
+  /**
+   * Show the differences of a comparison, replacing any that are shown
+   */
+  static async show(report: WallDiffReport, comparison: WallDiffComparison): Promise<void> {
+    this.report = report;
+    this.comparison = comparison;
+    this.drawOverlay(report.entries);
+    this.open();
+  }
+
+  /**
+   * Build the dialog HTML
+   */
+  private static buildContent(): string {
+    const options = WallDiffDialog.options;
+    const current = (game as Game).scenes?.current;
+    const scenes = ((game as Game).scenes?.contents ?? []).filter(scene => scene.id !== current?.id);
+
+    return `
+      <div class="wall-diff-source">
+        <div class="form-group">
+          <label>Compare with</label>
+          <select name="scene">
+            ${scenes.map(scene => `<option value="${scene.id}">${escapeHtml(scene.name ?? "")}</option>`).join("")}
+          </select>
+          <button type="button" class="compare-scene" ${scenes.length === 0 ? "disabled" : ""}><i class="fas fa-map"></i> Scene</button>
+          <button type="button" class="compare-file"><i class="fas fa-file-import"></i> File</button>
+        </div>
+        <div class="form-group">
+          <label>Same place within (px)</label>
+          <input type="number" name="tolerance" value="${options.tolerance ?? DEFAULT_DIFF_TOLERANCE}" step="any" min="0">
+        </div>
+        <div class="form-group">
+          <label>Moved up to (px)</label>
+          <input type="number" name="moveTolerance" value="${options.moveTolerance ?? DEFAULT_MOVE_TOLERANCE}" step="any" min="0">
+        </div>
+      </div>
+      ${WallDiffDialog.buildReportContent()}
+    `;
+  }
+
+  /**
+   * Build the summary and lists of differences
+   */
+  private static buildReportContent(): string {
+    const report = WallDiffDialog.report;
+    const comparison = WallDiffDialog.comparison;
+    if (!report || !comparison) {
+      return `<p class="hint">Compare this scene's walls with another scene or a wall file to see what was added, removed, moved or changed.</p>`;
+    }
+
+    const total = report.entries.length;
+    const summary = `Compared ${report.currentCount} walls on this scene with ${report.targetCount} walls from the ${escapeHtml(comparison.source)}:
+      ${report.unchanged} unchanged${total === 0 ? ", no differences." : `, ${total} differences. Click an entry to pan to it.`}`;
+
+    const types = Object.keys(WALL_DIFF_LABELS) as WallDiffType[];
+    const sections = types.map(type => {
+      const indexes = report.entries
+        .map((entry, index) => entry.type === type ? index : -1)
+        .filter(index => index !== -1);
+      return WallDiffDialog.buildEntryList(type, indexes, report.entries);
+    }).join("");
+
+    return `
+      <hr>
+      <div class="wall-diff">
+        <p>${summary}</p>
+        ${sections}
+        ${total > 0 ? `
+          <div class="form-group">
+            <button type="button" class="apply-diff"><i class="fas fa-check"></i> Apply Selected Changes</button>
+          </div>
+          <p class="hint">Applying makes this scene match the compared walls for the checked differences.</p>
+        ` : ""}
+      </div>
+    `;
+  }
+
+  /**
+   * Build the list of differences of one type
+   */
+  private static buildEntryList(type: WallDiffType, indexes: number[], entries: WallDiffEntry[]): string {
+    if (indexes.length === 0) return "";
+
+    const color = `#${WALL_DIFF_COLORS[type].toString(16).padStart(6, "0")}`;
+    const rows = indexes.slice(0, MAX_LISTED_ENTRIES)
+      .map(index => `
+        <li class="diff-entry" data-index="${index}">
+          <input type="checkbox" name="entry" value="${index}" checked>
+          <span class="swatch" style="background: ${color}"></span>
+          ${WallDiffDialog.describe(entries[index])}
+        </li>
+      `)
+      .join("");
+    const more = indexes.length > MAX_LISTED_ENTRIES
+      ? `<p>...and ${indexes.length - MAX_LISTED_ENTRIES} more, included when the whole section is checked.</p>`
+      : "";
+
+    return `
+      <h3>
+        <input type="checkbox" class="select-type" data-type="${type}" checked>
+        ${WALL_DIFF_LABELS[type]} (${indexes.length})
+      </h3>
+      <ul class="audit-issues diff-entries" data-type="${type}">${rows}</ul>
+      ${more}
+    `;
+  }
+
+  /**
+   * Describe a difference in a few words
+   */
+  private static describe(entry: WallDiffEntry): string {
+    const wall = entry.target ?? entry.current?.wall;
+    const [x0, y0, x1, y1] = (wall?.c ?? []).map(Math.round);
+    const position = `(${x0}, ${y0}) to (${x1}, ${y1})`;
+
+    switch (entry.type) {
+      case "added": return `new wall ${position}`;
+      case "removed": return `wall ${position} is gone`;
+      case "moved": {
+        const from = toSegment(entry.current?.wall.c ?? []);
+        const to = toSegment(entry.target?.c ?? []);
+        const shift = Math.min(
+          Math.max(distance(from.a, to.a), distance(from.b, to.b)),
+          Math.max(distance(from.a, to.b), distance(from.b, to.a))
+        );
+        return `wall moved up to ${shift.toFixed(1)}px to ${position}${entry.propertiesChanged ? ", properties changed" : ""}`;
+      }
+      case "changed": return `${position}: ${WallDiffDialog.describeProperties(entry)}`;
+    }
+  }
+
+  /**
+   * List the properties that differ between the two walls of a difference
+   */
+  private static describeProperties(entry: WallDiffEntry): string {
+    const current = entry.current?.wall ?? {};
+    const target = entry.target ?? {};
+    const value = (wall: Record<string, any>, key: string) => key === "sight" ? wall.sight ?? wall.sense : wall[key];
+
+    const changes = Object.entries(PROPERTY_LABELS)
+      .filter(([key]) => (value(current, key) ?? 0) !== (value(target, key) ?? 0))
+      .map(([key, label]) => `${label} ${value(current, key) ?? "-"} → ${value(target, key) ?? "-"}`);
+    return changes.join(", ") || "properties differ";
+  }
+
+  /**
+   * Draw every difference on the canvas
+   */
+  private static drawOverlay(entries: WallDiffEntry[]): void {
+    this.clearOverlay();
+
+    const board = canvas as any;
+    const layer = board?.controls ?? board?.stage;
+    if (!layer) {
+      ModuleLogger.warn("Canvas is not ready, skipping wall diff overlay");
+      return;
+    }
+
+    const lineWidth = Math.max(2, Math.round((board.dimensions?.size ?? 100) / 25));
+    const overlay = new PIXI.Graphics();
+    const line = (c: number[], color: number, alpha: number, width: number = lineWidth) => {
+      overlay.lineStyle(width, color, alpha);
+      overlay.moveTo(c[0], c[1]);
+      overlay.lineTo(c[2], c[3]);
+    };
+
+    for (const entry of entries) {
+      const color = WALL_DIFF_COLORS[entry.type];
+      if (entry.type === "moved" && entry.current && entry.target) {
+        // The old position faintly, the new one solid, joined at their midpoints
+        line(entry.current.wall.c, color, 0.35);
+        line(entry.target.c, color, 0.9);
+        const from = entry.current.wall.c;
+        const to = entry.target.c;
+        line([(from[0] + from[2]) / 2, (from[1] + from[3]) / 2, (to[0] + to[2]) / 2, (to[1] + to[3]) / 2], color, 0.6, 1);
+      } else {
+        const c = entry.type === "added" ? entry.target?.c : entry.current?.wall.c;
+        if (c) line(c, color, 0.9);
+      }
+    }
+
+    const highlight = new PIXI.Graphics();
+    layer.addChild(overlay);
+    layer.addChild(highlight);
+    this.overlay = overlay;
+    this.highlight = highlight;
+  }
+
+  /**
+   * Remove the overlay from the canvas
+   */
+  static clearOverlay(): void {
+    for (const graphics of [this.overlay, this.highlight]) {
+      if (!graphics) continue;
+      graphics.parent?.removeChild(graphics);
+      graphics.destroy();
+    }
+    this.overlay = null;
+    this.highlight = null;
+  }
+
+  /**
+   * Pan the canvas to a difference and highlight it
+   */
+  private static focus(entry: WallDiffEntry): void {
+    const board = canvas as any;
+    const c = entry.target?.c ?? entry.current?.wall.c;
+    if (!board?.ready || !c) return;
+
+    board.animatePan({ x: (c[0] + c[2]) / 2, y: (c[1] + c[3]) / 2, scale: Math.max(board.stage.scale.x, 1), duration: 250 });
+
+    const highlight = this.highlight;
+    if (!highlight) return;
+    const width = Math.max(6, Math.round((board.dimensions?.size ?? 100) / 10));
+    highlight.clear();
+    highlight.lineStyle(width, 0xffffff, 0.6);
+    highlight.moveTo(c[0], c[1]);
+    highlight.lineTo(c[2], c[3]);
+  }
+
+  /**
+   * Read the tolerances entered in the dialog
+   */
+  private static readOptions(html: JQuery): WallDiffOptions {
+    const section = html.find('.wall-diff-source');
+    const number = (name: string) => {
+      const value = parseFloat(section.find(`[name="${name}"]`).val() as string);
+      return Number.isFinite(value) && value >= 0 ? value : undefined;
+    };
+
+    const options: WallDiffOptions = {
+      tolerance: number("tolerance"),
+      moveTolerance: number("moveTolerance")
+    };
+    WallDiffDialog.options = options;
+
+    return options;
+  }
+
+  /**
+   * Collect the checked differences, including unlisted ones of fully checked sections
+   */
+  private static readSelectedEntries(html: JQuery): WallDiffEntry[] {
+    const entries = WallDiffDialog.report?.entries ?? [];
+    const selected = new Set<number>(
+      html.find('.diff-entry [name="entry"]:checked').toArray().map(input => Number((input as HTMLInputElement).value))
+    );
+
+    html.find('.select-type:checked').each((_, input) => {
+      const type = (input as HTMLElement).dataset.type as WallDiffType;
+      entries
+        .map((entry, index) => entry.type === type ? index : -1)
+        .filter(index => index !== -1)
+        .slice(MAX_LISTED_ENTRIES)
+        .forEach(index => selected.add(index));
+    });
+
+    return [...selected].sort((a, b) => a - b).map(index => entries[index]);
+  }
+
+  /**
+   * @override
+   */
+  override activateListeners(html: JQuery) {
+    super.activateListeners(html);
+
+    html.find('.compare-scene').on('click', () => {
+      const sceneId = html.find('.wall-diff-source [name="scene"]').val() as string;
+      WallUtils.diffWallsWithScene(sceneId, WallDiffDialog.readOptions(html));
+    });
+
+    html.find('.compare-file').on('click', () => {
+      WallUtils.diffWallsWithFile(WallDiffDialog.readOptions(html));
+    });
+
+    html.find('.select-type').on('change', (event) => {
+      const input = event.currentTarget as HTMLInputElement;
+      html.find(`.diff-entries[data-type="${input.dataset.type}"] [name="entry"]`).prop('checked', input.checked);
+    });
+
+    html.find('.diff-entry').on('click', (event) => {
+      // Let the checkbox toggle without panning
+      if ((event.target as HTMLElement).tagName === "INPUT") return;
+      const entry = WallDiffDialog.report?.entries[Number(event.currentTarget.dataset.index)];
+      if (!entry) return;
+      html.find('.diff-entry').removeClass('active');
+      $(event.currentTarget).addClass('active');
+      WallDiffDialog.focus(entry);
+    });
+
+    html.find('.apply-diff').on('click', async () => {
+      const comparison = WallDiffDialog.comparison;
+      const applied = await WallUtils.applyWallDiff(WallDiffDialog.readSelectedEntries(html));
+      if (!applied || !comparison) return;
+
+      // Compare again so the list shows what is left
+      try {
+        await WallUtils.compareWalls(comparison.walls, null, comparison.source, comparison.options);
+      } catch (error) {
+        console.error("Wall diff error:", error);
+        ui.notifications?.error("Error comparing walls: " + (error instanceof Error ? error.message : String(error)));
+      }
+    });
+  }
+
+  /**
+   * Remove the overlay when the dialog is closed
+   * @override
+   */
+  override close(options?: Application.CloseOptions): Promise<void> {
+    WallDiffDialog.clearOverlay();
+    WallDiffDialog.report = null;
+    WallDiffDialog.comparison = null;
+    return super.close(options);
+  }
+}
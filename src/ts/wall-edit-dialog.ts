@@ -0,0 +1,220 @@
+import { moduleId, WALL_DIRECTION, WALL_DOOR, WALL_DOOR_STATE, WALL_MOVE, WALL_SENSE } from './constants';
+import { WallUtils } from './module';
+import { WallPropertyChanges, WallSelection } from './types';
+
+/**
+ * Restriction choices shared by sight, light and sound
+ */
+const SENSE_CHOICES: [number, string][] = [
+  [WALL_SENSE.NONE, "None"],
+  [WALL_SENSE.LIMITED, "Limited"],
+  [WALL_SENSE.NORMAL, "Normal"],
+  [WALL_SENSE.PROXIMITY, "Proximity"],
+  [WALL_SENSE.DISTANCE, "Reverse proximity"]
+];
+
+/**
+ * Build a select option, selected if its value matches the current one
+ */
+function option(value: string | number, label: string, current: string | number | undefined): string {
+  return `<option value="${value}" ${String(value) === String(current ?? "") ? "selected" : ""}>${label}</option>`;
+}
+
+/**
+ * Dialog for setting restrictions, door settings, direction and thresholds on many walls at once
+ */
+export class WallEditDialog extends Dialog {
+  /**
+   * Changes entered in the dialog, kept for the next time it opens
+   */
+  private static changes: WallPropertyChanges = {};
+
+  /**
+   * Walls chosen in the dialog, kept for the next time it opens
+   */
+  private static selection: WallSelection = { controlled: true };
+
+  constructor() {
+    super(
+      {
+        title: "Edit Wall Properties",
+        content: WallEditDialog.buildContent(),
+        buttons: {
+          apply: {
+            icon: '<i class="fas fa-check"></i>',
+            label: "Apply",
+            callback: (html) => {
+              const element = $(html as HTMLElement);
+              const changes = WallEditDialog.readChanges(element.find('.wall-edit-changes'));
+              WallEditDialog.changes = changes;
+              WallUtils.editWalls(changes, WallEditDialog.readSelection(element));
+            }
+          },
+          cancel: {
+            icon: '<i class="fas fa-times"></i>',
+            label: "Cancel"
+          }
+        },
+        default: "apply"
+      },
+      {
+        id: `${moduleId}-wall-edit-dialog`,
+        classes: ["auto-wall-dialog"],
+        width: 420
+      }
+    );
+  }
+
+  /**
+   * Whether walls have proximity thresholds in this Foundry version
+   */
+  private static get hasThresholds(): boolean {
+    return parseInt((game as Game).version) >= 11;
+  }
+
+  /**
+   * Build the dialog HTML
+   */
+  private static buildContent(): string {
+    const selection = WallEditDialog.selection;
+    const scope = selection.controlled ? "controlled"
+      : selection.lastImport ? "lastImport"
+      : selection.region === "drawings" ? "drawings"
+      : "all";
+    const door = selection.filter?.door?.[0] ?? "";
+
+    return `
+      <div class="wall-edit-selection">
+        <div class="form-group">
+          <label>Walls</label>
+          <select name="scope">
+            ${option("controlled", "Selected walls", scope)}
+            ${option("lastImport", "Walls from the last import", scope)}
+            ${option("drawings", "Inside selected drawings", scope)}
+            ${option("all", "All walls", scope)}
+          </select>
+        </div>
+        <div class="form-group">
+          <label>Only door type</label>
+          <select name="filterDoor">
+            ${option("", "Any", door)}
+            ${option(WALL_DOOR.NONE, "Not a door", door)}
+            ${option(WALL_DOOR.DOOR, "Door", door)}
+            ${option(WALL_DOOR.SECRET, "Secret door", door)}
+          </select>
+        </div>
+      </div>
+      <hr>
+      <div class="wall-edit-changes">
+        ${WallEditDialog.buildChangesContent(WallEditDialog.changes)}
+      </div>
+      <p class="hint">Only the properties you set are changed; everything else keeps its current value.</p>
+    `;
+  }
+
+  /**
+   * Build the property inputs, each defaulting to "Unchanged". Also used for the changes of mapping rules.
+   */
+  static buildChangesContent(changes: WallPropertyChanges): string {
+    const property = (name: keyof WallPropertyChanges, label: string, choices: [number, string][]) => `
+      <div class="form-group">
+        <label>${label}</label>
+        <select name="${name}">
+          ${option("", "Unchanged", changes[name] as number | undefined)}
+          ${choices.map(([value, text]) => option(value, text, changes[name] as number | undefined)).join("")}
+        </select>
+      </div>
+    `;
+    const threshold = (name: "light" | "sight" | "sound", label: string) => `
+      <div class="form-group">
+        <label>${label}</label>
+        <input type="number" name="${name}" value="${changes.threshold?.[name] ?? ""}" step="any" min="0" placeholder="Unchanged">
+      </div>
+    `;
+    const attenuation = changes.threshold?.attenuation;
+
+    return `
+      ${property("move", "Movement", [[WALL_MOVE.NORMAL, "Blocks movement"], [WALL_MOVE.NONE, "No restriction"]])}
+      ${property("sight", "Sight", SENSE_CHOICES)}
+      ${property("light", "Light", SENSE_CHOICES)}
+      ${property("sound", "Sound", SENSE_CHOICES)}
+      ${property("door", "Door type", [[WALL_DOOR.NONE, "Not a door"], [WALL_DOOR.DOOR, "Door"], [WALL_DOOR.SECRET, "Secret door"]])}
+      ${property("ds", "Door state", [[WALL_DOOR_STATE.CLOSED, "Closed"], [WALL_DOOR_STATE.OPEN, "Open"], [WALL_DOOR_STATE.LOCKED, "Locked"]])}
+      ${property("dir", "Direction", [[WALL_DIRECTION.BOTH, "Both"], [WALL_DIRECTION.LEFT, "Left only"], [WALL_DIRECTION.RIGHT, "Right only"]])}
+      ${WallEditDialog.hasThresholds ? `
+        <details class="wall-edit-thresholds">
+          <summary>Proximity Thresholds</summary>
+          ${threshold("light", "Light threshold")}
+          ${threshold("sight", "Sight threshold")}
+          ${threshold("sound", "Sound threshold")}
+          <div class="form-group">
+            <label>Attenuate sound</label>
+            <select name="attenuation">
+              ${option("", "Unchanged", attenuation === undefined ? "" : String(attenuation))}
+              ${option("true", "Yes", String(attenuation))}
+              ${option("false", "No", String(attenuation))}
+            </select>
+          </div>
+          <p class="hint">Thresholds are in the scene's grid distance units and apply to proximity and reverse proximity restrictions.</p>
+        </details>
+      ` : ""}
+    `;
+  }
+
+  /**
+   * Read which walls to change
+   */
+  private static readSelection(html: JQuery): WallSelection {
+    const section = html.find('.wall-edit-selection');
+    const scope = section.find('[name="scope"]').val();
+    const door = section.find('[name="filterDoor"]').val() as string;
+
+    const selection: WallSelection = {
+      controlled: scope === "controlled" || undefined,
+      lastImport: scope === "lastImport" || undefined,
+      region: scope === "drawings" ? "drawings" : undefined,
+      filter: door !== "" ? { door: [Number(door)] } : undefined
+    };
+    WallEditDialog.selection = selection;
+
+    return selection;
+  }
+
+  /**
+   * Read the property inputs built by buildChangesContent
+   * @param section The element containing the inputs
+   */
+  static readChanges(section: JQuery): WallPropertyChanges {
+    const choice = (name: string) => {
+      const value = section.find(`select[name="${name}"]`).first().val() as string | undefined;
+      return value ? Number(value) : undefined;
+    };
+
+    const changes: WallPropertyChanges = {
+      move: choice("move"),
+      sight: choice("sight"),
+      light: choice("light"),
+      sound: choice("sound"),
+      door: choice("door"),
+      ds: choice("ds"),
+      dir: choice("dir")
+    };
+
+    const thresholds = section.find('.wall-edit-thresholds');
+    if (thresholds.length > 0) {
+      const distance = (name: string) => {
+        const value = parseFloat(thresholds.find(`[name="${name}"]`).val() as string);
+        return Number.isFinite(value) && value >= 0 ? value : undefined;
+      };
+      const attenuation = thresholds.find('[name="attenuation"]').val();
+      changes.threshold = {
+        light: distance("light"),
+        sight: distance("sight"),
+        sound: distance("sound"),
+        attenuation: attenuation === "" ? undefined : attenuation === "true"
+      };
+    }
+
+    return changes;
+  }
+}
@@ -0,0 +1,297 @@
+import { moduleId } from './constants';
+import { WallUtils } from './module';
+import { WallImportMode, WallStampOptions } from './types';
+import { escapeHtml } from './utils/html';
+import { WallLibrary, WallLibraryEntry } from './wall-library';
+
+/**
+ * Window for saving wall sets to the world's wall library and stamping them into scenes
+ */
+export class WallLibraryDialog extends Dialog {
+  /**
+   * Stamp options entered in the dialog, kept across re-renders
+   */
+  private static stampOptions: WallStampOptions = { position: "cursor" };
+
+  /**
+   * Whether only controlled walls are saved
+   */
+  private static saveControlled = false;
+
+  constructor() {
+    super(
+      {
+        title: "Wall Library",
+        content: WallLibraryDialog.buildContent(),
+        buttons: {
+          close: {
+            icon: '<i class="fas fa-times"></i>',
+            label: "Close"
+          }
+        },
+        default: "close"
+      },
+      {
+        id: `${moduleId}-wall-library-dialog`,
+        classes: ["auto-wall-dialog"],
+        width: 480,
+        resizable: true
+      }
+    );
+  }
+
+  /**
+   * Find the currently rendered dialog, if any
+   */
+  static get instance(): WallLibraryDialog | undefined {
+    return Object.values(ui.windows).find(
+      (app): app is WallLibraryDialog => app instanceof WallLibraryDialog && app.rendered
+    );
+  }
+
+  /**
+   * Open the dialog, or bring it up to date if it is already open
+   */
+  static open(): void {
+    if (this.instance) {
+      this.refresh();
+    } else {
+      new WallLibraryDialog().render(true);
+    }
+  }
+
+  /**
+   * Re-render the open dialog so it lists the current library
+   */
+  static refresh(): void {
+    const dialog = this.instance;
+    if (!dialog) return;
+    dialog.data.content = WallLibraryDialog.buildContent();
+    dialog.render(true);
+  }
+
+  /**
+   * Build the dialog HTML
+   */
+  private static buildContent(): string {
+    const isGM = !!(game as Game).user?.isGM;
+    const entries = WallLibrary.entries;
+
+    return `
+      ${isGM ? `
+        <div class="library-save">
+          <div class="form-group">
+            <label>Name</label>
+            <input type="text" name="name" placeholder="e.g. Round tower">
+          </div>
+          <div class="form-group">
+            <label>Walls</label>
+            <select name="scope">
+              <option value="all" ${WallLibraryDialog.saveControlled ? "" : "selected"}>All walls</option>
+              <option value="controlled" ${WallLibraryDialog.saveControlled ? "selected" : ""}>Selected walls</option>
+            </select>
+            <button type="button" class="save-set"><i class="fas fa-save"></i> Save to Library</button>
+          </div>
+        </div>
+        <hr>
+      ` : ""}
+      ${WallLibraryDialog.buildStampContent()}
+      ${entries.length > 0
+        ? `<ul class="library-entries">${entries.map(entry => WallLibraryDialog.buildEntryContent(entry, isGM)).join("")}</ul>`
+        : `<p class="hint">The library is empty. Save walls from a scene to reuse them elsewhere.</p>`}
+    `;
+  }
+
+  /**
+   * Build the placement inputs used when stamping
+   */
+  private static buildStampContent(): string {
+    const options = WallLibraryDialog.stampOptions;
+    const transform = options.transform ?? {};
+    const rotation = transform.rotation ?? 0;
+    const mode = options.mode ?? "append";
+    const checked = (value?: boolean) => value ? "checked" : "";
+
+    return `
+      <details class="stamp-options">
+        <summary>Stamp Options</summary>
+        <div class="form-group">
+          <label>Position</label>
+          <select name="position">
+            <option value="cursor" ${options.position === "cursor" ? "selected" : ""}>Place with the mouse</option>
+            <option value="view" ${options.position === "view" ? "selected" : ""}>Center of the view</option>
+            <option value="original" ${options.position === "original" ? "selected" : ""}>Where it was saved</option>
+          </select>
+        </div>
+        <div class="form-group">
+          <label>Offset X / Y (px)</label>
+          <input type="number" name="offsetX" value="${transform.offsetX ?? 0}" step="1">
+          <input type="number" name="offsetY" value="${transform.offsetY ?? 0}" step="1">
+        </div>
+        <div class="form-group">
+          <label>Scale</label>
+          <input type="number" name="scale" value="${transform.scale ?? ""}" step="any" min="0" placeholder="Match grid">
+        </div>
+        <div class="form-group">
+          <label>Rotation</label>
+          <select name="rotation">
+            ${[0, 90, 180, 270].map(angle => `<option value="${angle}" ${angle === rotation ? "selected" : ""}>${angle}°</option>`).join("")}
+          </select>
+        </div>
+        <div class="form-group">
+          <label>Mirror horizontally</label>
+          <input type="checkbox" name="flipX" ${checked(transform.flipX)}>
+          <label>Mirror vertically</label>
+          <input type="checkbox" name="flipY" ${checked(transform.flipY)}>
+        </div>
+        <div class="form-group">
+          <label>Existing walls</label>
+          <select name="mode">
+            <option value="append" ${mode === "append" ? "selected" : ""}>Append</option>
+            <option value="merge" ${mode === "merge" ? "selected" : ""}>Merge</option>
+          </select>
+        </div>
+      </details>
+    `;
+  }
+
+  /**
+   * Build the list item for a saved set
+   */
+  private static buildEntryContent(entry: WallLibraryEntry, isGM: boolean): string {
+    const date = new Date(entry.created).toLocaleDateString();
+    const source = entry.source.sceneName ? ` from ${escapeHtml(entry.source.sceneName)}` : "";
+    const name = escapeHtml(entry.name);
+
+    return `
+      <li class="library-entry" data-id="${entry.id}">
+        ${entry.thumbnail ? `<img class="thumbnail" src="${entry.thumbnail}" alt="">` : ""}
+        <div class="details">
+          <strong>${name}</strong>
+          <span class="hint">${entry.wallCount} walls${source}, ${date}</span>
+        </div>
+        <div class="controls">
+          <button type="button" class="stamp-set" title="Stamp into this scene"><i class="fas fa-stamp"></i></button>
+          <button type="button" class="download-set" title="Download"><i class="fas fa-file-export"></i></button>
+          ${isGM ? `
+            <button type="button" class="rename-set" title="Rename"><i class="fas fa-edit"></i></button>
+            <button type="button" class="delete-set" title="Delete"><i class="fas fa-trash"></i></button>
+          ` : ""}
+        </div>
+      </li>
+    `;
+  }
+
+  /**
+   * Read the stamp options entered in the dialog
+   */
+  private static readStampOptions(html: JQuery): WallStampOptions {
+    const section = html.find('.stamp-options');
+    const number = (name: string) => {
+      const value = parseFloat(section.find(`[name="${name}"]`).val() as string);
+      return Number.isFinite(value) ? value : undefined;
+    };
+    const flag = (name: string) => section.find(`[name="${name}"]`).is(':checked');
+
+    const options: WallStampOptions = {
+      position: section.find('[name="position"]').val() as "cursor" | "view" | "original",
+      mode: section.find('[name="mode"]').val() as WallImportMode,
+      transform: {
+        offsetX: number("offsetX"),
+        offsetY: number("offsetY"),
+        scale: number("scale"),
+        rotation: number("rotation"),
+        flipX: flag("flipX"),
+        flipY: flag("flipY")
+      }
+    };
+    WallLibraryDialog.stampOptions = options;
+
+    return options;
+  }
+
+  /**
+   * @override
+   */
+  override activateListeners(html: JQuery) {
+    super.activateListeners(html);
+
+    const entryId = (event: JQuery.TriggeredEvent) => $(event.currentTarget).closest('.library-entry').data('id') as string;
+
+    html.find('.stamp-options').on('change', () => {
+      WallLibraryDialog.readStampOptions(html);
+    });
+
+    html.find('.save-set').on('click', () => {
+      const controlled = html.find('.library-save [name="scope"]').val() === "controlled";
+      WallLibraryDialog.saveControlled = controlled;
+      WallUtils.saveToWallLibrary(html.find('.library-save [name="name"]').val() as string, {
+        selection: { controlled: controlled || undefined }
+      });
+    });
+
+    html.find('.stamp-set').on('click', (event) => {
+      WallUtils.stampFromWallLibrary(entryId(event), WallLibraryDialog.readStampOptions(html));
+    });
+
+    html.find('.download-set').on('click', (event) => {
+      const entry = WallLibrary.find(entryId(event));
+      if (!entry) return;
+      saveDataToFile(entry.data, "application/json", `${entry.name.replace(/\s+/g, "_")}_walls.json`);
+    });
+
+    html.find('.rename-set').on('click', async (event) => {
+      const entry = WallLibrary.find(entryId(event));
+      if (!entry) return;
+      const name = await WallLibraryDialog.promptName(entry.name);
+      if (!name) return;
+      try {
+        await WallLibrary.rename(entry.id, name);
+      } catch (error) {
+        ui.notifications?.error("Error renaming wall set: " + (error instanceof Error ? error.message : String(error)));
+      }
+    });
+
+    html.find('.delete-set').on('click', async (event) => {
+      const entry = WallLibrary.find(entryId(event));
+      if (!entry) return;
+      const confirmed = await Dialog.confirm({
+        title: "Delete Wall Set",
+        content: `<p>Delete "${escapeHtml(entry.name)}" from the wall library?</p>`
+      });
+      if (!confirmed) return;
+      try {
+        await WallLibrary.remove(entry.id);
+      } catch (error) {
+        ui.notifications?.error("Error deleting wall set: " + (error instanceof Error ? error.message : String(error)));
+      }
+    });
+  }
+
+  /**
+   * Ask for a new name for a set
+   * @returns The name, or null if cancelled or left empty
+   */
+  private static promptName(current: string): Promise<string | null> {
+    return new Promise((resolve) => {
+      new Dialog({
+        title: "Rename Wall Set",
+        content: `<div class="form-group"><label>Name</label><input type="text" name="name" value="${escapeHtml(current)}"></div>`,
+        buttons: {
+          rename: {
+            icon: '<i class="fas fa-check"></i>',
+            label: "Rename",
+            callback: (html) => resolve(($(html as HTMLElement).find('[name="name"]').val() as string).trim() || null)
+          },
+          cancel: {
+            icon: '<i class="fas fa-times"></i>',
+            label: "Cancel",
+            callback: () => resolve(null)
+          }
+        },
+        default: "rename",
+        close: () => resolve(null)
+      }).render(true);
+    });
+  }
+}
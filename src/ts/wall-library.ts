@@ -0,0 +1,141 @@
+import { moduleId } from './constants';
+import { WallData } from './types';
+import { Rect } from './utils/geometry';
+import { WALL_CATEGORY_COLORS, getWallCategory } from './utils/wall-types';
+
+/**
+ * A named wall set saved in the world's wall library
+ */
+export interface WallLibraryEntry {
+  id: string;
+  name: string;
+  /** When the set was saved (ms since epoch) */
+  created: number;
+  /** The walls as written by WallUtils.getWallsJson: a wall array or a document envelope */
+  data: string;
+  /** PNG data URL of the walls */
+  thumbnail: string;
+  wallCount: number;
+  /** Scene-space bounds of the walls where they were saved */
+  bounds: Rect;
+  /** The scene the walls were saved from */
+  source: {
+    sceneId: string | null;
+    sceneName: string | null;
+    gridSize: number;
+  };
+}
+
+/**
+ * Name of the world setting holding the library
+ */
+const LIBRARY_SETTING = "wallLibrary";
+
+/**
+ * Width and height of generated thumbnails in pixels
+ */
+const THUMBNAIL_SIZE = 128;
+
+/**
+ * World-level collection of named wall sets, stored in a module setting so every scene can use them
+ */
+export class WallLibrary {
+  /**
+   * Register the setting the library is stored in
+   * @param onChange Called when the library changes, on every client
+   */
+  static registerSetting(onChange: () => void): void {
+    (game as Game).settings.register(moduleId, LIBRARY_SETTING, {
+      name: "Wall Library",
+      scope: "world",
+      config: false,
+      type: Array as any,
+      default: [] as any,
+      onChange
+    });
+  }
+
+  /**
+   * Every saved set, newest first
+   */
+  static get entries(): WallLibraryEntry[] {
+    const entries = (game as Game).settings.get(moduleId, LIBRARY_SETTING) as unknown as WallLibraryEntry[] | undefined;
+    return [...(entries ?? [])].sort((a, b) => b.created - a.created);
+  }
+
+  /**
+   * Find a set by ID, or by name if no ID matches
+   */
+  static find(idOrName: string): WallLibraryEntry | undefined {
+    const entries = this.entries;
+    return entries.find(entry => entry.id === idOrName)
+      ?? entries.find(entry => entry.name.toLowerCase() === idOrName.toLowerCase());
+  }
+
+  /**
+   * Add a set to the library
+   * @throws If the user may not change world settings
+   */
+  static async add(entry: WallLibraryEntry): Promise<void> {
+    await this.save([...this.entries, entry]);
+  }
+
+  /**
+   * Change a set's name
+   */
+  static async rename(id: string, name: string): Promise<void> {
+    await this.save(this.entries.map(entry => entry.id === id ? { ...entry, name } : entry));
+  }
+
+  /**
+   * Remove a set from the library
+   */
+  static async remove(id: string): Promise<void> {
+    await this.save(this.entries.filter(entry => entry.id !== id));
+  }
+
+  /**
+   * Store the library
+   * @throws If the user may not change world settings
+   */
+  private static async save(entries: WallLibraryEntry[]): Promise<void> {
+    if (!(game as Game).user?.isGM) {
+      throw new Error("Only a GM can change the wall library.");
+    }
+    await (game as Game).settings.set(moduleId, LIBRARY_SETTING, entries as any);
+  }
+
+  /**
+   * Draw walls into a small image, colored by wall type
+   * @returns A PNG data URL, or an empty string if no canvas is available
+   */
+  static createThumbnail(walls: WallData[], bounds: Rect): string {
+    const canvas = document.createElement('canvas');
+    canvas.width = THUMBNAIL_SIZE;
+    canvas.height = THUMBNAIL_SIZE;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return "";
+
+    ctx.fillStyle = "#1e1e1e";
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    // Fit the bounds into the thumbnail with a margin, keeping the aspect ratio
+    const margin = 8;
+    const scale = (THUMBNAIL_SIZE - 2 * margin) / Math.max(bounds.width, bounds.height, 1);
+    const offsetX = (THUMBNAIL_SIZE - bounds.width * scale) / 2 - bounds.x * scale;
+    const offsetY = (THUMBNAIL_SIZE - bounds.height * scale) / 2 - bounds.y * scale;
+
+    ctx.lineWidth = 2;
+    ctx.lineCap = "round";
+    for (const wall of walls) {
+      if (!Array.isArray(wall?.c) || wall.c.length < 4) continue;
+      ctx.strokeStyle = `#${WALL_CATEGORY_COLORS[getWallCategory(wall)].toString(16).padStart(6, "0")}`;
+      ctx.beginPath();
+      ctx.moveTo(wall.c[0] * scale + offsetX, wall.c[1] * scale + offsetY);
+      ctx.lineTo(wall.c[2] * scale + offsetX, wall.c[3] * scale + offsetY);
+      ctx.stroke();
+    }
+
+    return canvas.toDataURL("image/png");
+  }
+}
@@ -1,27 +1,37 @@
 import { moduleId } from './constants';
 import { WallUtils } from './module';
+import { WallPreview } from './wall-preview';
+import { PlaceableType, WallCategory, WallExportOptions, WallImportMode, WallImportOptions, WallSelection, WallStampOptions, WallTransformOptions } from './types';
+import { WALL_DOOR, WALL_MOVE } from './constants';
+import { escapeHtml } from './utils/html';
+import { PLACEABLE_LABELS, PLACEABLE_TYPES } from './utils/placeables';
+import { WallMappingPresets } from './wall-mapping-presets';
+import { WALL_CATEGORY_COLORS, WALL_CATEGORY_LABELS } from './utils/wall-types';
 
 /**
  * Dialog for managing wall import/export operations
  */
 export class WallManagementDialog extends Dialog {
+  /**
+   * Import options entered in the dialog, kept across re-renders
+   */
+  private static importOptions: WallImportOptions | null = null;
+
+  /**
+   * Document types selected for import and export
+   */
+  private static documentTypes: PlaceableType[] = ["Wall"];
+
+  /**
+   * Export selection entered in the dialog
+   */
+  private static exportSelection: WallSelection = {};
+
   constructor() {
     super(
       {
         title: "Wall Management",
-        content: `
-          <h2>Import Walls</h2>
-          <div class="form-group">
-            <button class="import-clipboard">Import from Clipboard</button>
-            <button class="import-file">Import from File</button>
-          </div>
-          <hr>
-          <h2>Export Walls</h2>
-          <div class="form-group">
-            <button class="export-clipboard">Export to Clipboard</button>
-            <button class="export-file">Export to File</button>
-          </div>
-        `,
+        content: WallManagementDialog.buildContent(),
         buttons: {
           close: {
             icon: '<i class="fas fa-times"></i>',
@@ -37,26 +47,460 @@ export class WallManagementDialog extends Dialog {
     );
   }
 
+  /**
+   * Find the currently rendered dialog, if any
+   */
+  static get instance(): WallManagementDialog | undefined {
+    return Object.values(ui.windows).find(
+      (app): app is WallManagementDialog => app instanceof WallManagementDialog && app.rendered
+    );
+  }
+
+  /**
+   * Open the dialog, or refresh it if it is already open
+   */
+  static open(): void {
+    if (this.instance) {
+      this.refresh();
+    } else {
+      new WallManagementDialog().render(true);
+    }
+  }
+
+  /**
+   * Re-render the open dialog so it reflects the current preview state
+   */
+  static refresh(): void {
+    const dialog = this.instance;
+    if (!dialog) return;
+    dialog.data.content = WallManagementDialog.buildContent();
+    dialog.render(true);
+  }
+
+  /**
+   * Build the dialog HTML
+   */
+  private static buildContent(): string {
+    return `
+      ${WallManagementDialog.buildPreviewContent()}
+      ${WallManagementDialog.buildDocumentTypesContent()}
+      <h2>Import Walls</h2>
+      ${WallManagementDialog.buildModeContent()}
+      ${WallManagementDialog.buildTransformContent()}
+      <div class="form-group">
+        <button class="import-clipboard">Import from Clipboard</button>
+        <button class="import-file">Import from File</button>
+      </div>
+      <div class="form-group">
+        <button class="stamp-clipboard"><i class="fas fa-stamp"></i> Stamp from Clipboard</button>
+        <button class="stamp-file"><i class="fas fa-stamp"></i> Stamp from File</button>
+      </div>
+      <div class="form-group">
+        <button class="import-bundle">Import Scene Bundle</button>
+        <label>Include lights</label>
+        <input type="checkbox" name="bundleLights" checked>
+      </div>
+      <div class="form-group">
+        <button class="import-chunks">Import Chunk Walls</button>
+      </div>
+      <div class="form-group">
+        <button class="undo-import"><i class="fas fa-undo"></i> Undo Last Import</button>
+        <button class="edit-walls"><i class="fas fa-edit"></i> Edit Wall Properties</button>
+      </div>
+      <div class="form-group">
+        <button class="wall-snapshots"><i class="fas fa-history"></i> Wall Snapshots</button>
+      </div>
+      <hr>
+      <h2>Export Walls</h2>
+      ${WallManagementDialog.buildSelectionContent()}
+      <div class="form-group">
+        <button class="export-clipboard">Export to Clipboard</button>
+        <button class="export-file">Export to File</button>
+      </div>
+      <div class="form-group">
+        <button class="export-uvtt">Export to Universal VTT</button>
+        <button class="export-svg">Export to SVG</button>
+      </div>
+      <div class="form-group">
+        <button class="export-bundle">Export Scene Bundle</button>
+        <button class="scene-batch"><i class="fas fa-layer-group"></i> Multiple Scenes</button>
+      </div>
+      <div class="form-group">
+        <label>Include scene background in SVG</label>
+        <input type="checkbox" name="svgBackground" checked>
+      </div>
+    `;
+  }
+
+  /**
+   * Build the document type checkboxes shared by import and export
+   */
+  private static buildDocumentTypesContent(): string {
+    const checkboxes = PLACEABLE_TYPES.map(type => `
+      <label class="checkbox">
+        <input type="checkbox" name="${type}" ${WallManagementDialog.documentTypes.includes(type) ? "checked" : ""}>
+        ${PLACEABLE_LABELS[type]}
+      </label>
+    `).join("");
+
+    return `
+      <div class="form-group document-types">
+        <label>Documents</label>
+        ${checkboxes}
+      </div>
+      <p class="hint">Exports with anything other than walls use a versioned format that Auto-Wall does not read.</p>
+    `;
+  }
+
+  /**
+   * Read the selected document types
+   */
+  private static readDocumentTypes(html: JQuery): PlaceableType[] {
+    const types = PLACEABLE_TYPES.filter(type => html.find(`.document-types [name="${type}"]`).is(':checked'));
+    WallManagementDialog.documentTypes = types;
+    return types;
+  }
+
+  /**
+   * Read the export options entered in the dialog
+   */
+  private static readExportOptions(html: JQuery): WallExportOptions {
+    return {
+      documentTypes: WallManagementDialog.readDocumentTypes(html),
+      selection: WallManagementDialog.readSelection(html)
+    };
+  }
+
+  /**
+   * Build the export selection inputs
+   */
+  private static buildSelectionContent(): string {
+    const selection = WallManagementDialog.exportSelection;
+    const scope = selection.controlled ? "controlled"
+      : selection.lastImport ? "lastImport"
+      : selection.region === "drawings" ? "drawings"
+      : "all";
+    const door = selection.filter?.door?.[0] ?? "";
+    const move = selection.filter?.move?.[0] ?? "";
+    const option = (value: string | number, label: string, current: string | number) =>
+      `<option value="${value}" ${String(value) === String(current) ? "selected" : ""}>${label}</option>`;
+
+    return `
+      <div class="export-selection">
+        <div class="form-group">
+          <label>Walls</label>
+          <select name="scope">
+            ${option("all", "All walls", scope)}
+            ${option("controlled", "Selected walls", scope)}
+            ${option("lastImport", "Walls from the last import", scope)}
+            ${option("drawings", "Inside selected drawings", scope)}
+          </select>
+        </div>
+        <div class="form-group">
+          <label>Door type</label>
+          <select name="door">
+            ${option("", "Any", door)}
+            ${option(WALL_DOOR.NONE, "Not a door", door)}
+            ${option(WALL_DOOR.DOOR, "Door", door)}
+            ${option(WALL_DOOR.SECRET, "Secret door", door)}
+          </select>
+          <label>Movement</label>
+          <select name="move">
+            ${option("", "Any", move)}
+            ${option(WALL_MOVE.NORMAL, "Blocks movement", move)}
+            ${option(WALL_MOVE.NONE, "No restriction", move)}
+          </select>
+        </div>
+      </div>
+    `;
+  }
+
+  /**
+   * Read the export selection entered in the dialog
+   */
+  private static readSelection(html: JQuery): WallSelection {
+    const section = html.find('.export-selection');
+    const scope = section.find('[name="scope"]').val();
+    const door = section.find('[name="door"]').val() as string;
+    const move = section.find('[name="move"]').val() as string;
+
+    const selection: WallSelection = {
+      controlled: scope === "controlled" || undefined,
+      lastImport: scope === "lastImport" || undefined,
+      region: scope === "drawings" ? "drawings" : undefined
+    };
+    if (door !== "" || move !== "") {
+      selection.filter = {
+        door: door !== "" ? [Number(door)] : undefined,
+        move: move !== "" ? [Number(move)] : undefined
+      };
+    }
+    WallManagementDialog.exportSelection = selection;
+
+    return selection;
+  }
+
+  /**
+   * Build the import mode inputs
+   */
+  private static buildModeContent(): string {
+    const options = WallManagementDialog.importOptions ?? {};
+    const mode = options.mode ?? "append";
+    const mapping = typeof options.mapping === "string" ? options.mapping : "";
+    const modes: Record<WallImportMode, string> = {
+      append: "Append",
+      replace: "Replace All",
+      merge: "Merge"
+    };
+
+    return `
+      <div class="import-mode">
+        <div class="form-group">
+          <label>Existing walls</label>
+          <select name="mode">
+            ${Object.entries(modes).map(([value, label]) => `<option value="${value}" ${value === mode ? "selected" : ""}>${label}</option>`).join("")}
+          </select>
+          <label>Tolerance (px)</label>
+          <input type="number" name="tolerance" value="${options.tolerance ?? 2}" step="any" min="0">
+        </div>
+        <div class="form-group">
+          <label>SVG curve tolerance (px)</label>
+          <input type="number" name="curveTolerance" value="${options.curveTolerance ?? 1}" step="any" min="0.1">
+        </div>
+        <div class="form-group">
+          <label>Mapping rules</label>
+          <select name="mapping">
+            <option value="">None</option>
+            ${WallMappingPresets.presets.map(preset => {
+              const name = escapeHtml(preset.name);
+              return `<option value="${name}" ${preset.name === mapping ? "selected" : ""}>${name}</option>`;
+            }).join("")}
+          </select>
+          <button type="button" class="edit-mapping" title="Edit mapping presets"><i class="fas fa-cog"></i></button>
+        </div>
+      </div>
+    `;
+  }
+
+  /**
+   * Build the import transform inputs
+   */
+  private static buildTransformContent(): string {
+    // Padding is only applied when chosen, so imports into padded scenes still show the padding warning
+    const options = WallManagementDialog.importOptions?.transform ?? {};
+    const rotation = options.rotation ?? 0;
+    const checked = (value?: boolean) => value ? "checked" : "";
+
+    return `
+      <details class="import-transform">
+        <summary>Import Transform</summary>
+        <div class="form-group">
+          <label>Offset by scene padding</label>
+          <input type="checkbox" name="applyPadding" ${checked(options.applyPadding)}>
+        </div>
+        <div class="form-group">
+          <label>Offset X / Y (px)</label>
+          <input type="number" name="offsetX" value="${options.offsetX ?? 0}" step="1">
+          <input type="number" name="offsetY" value="${options.offsetY ?? 0}" step="1">
+        </div>
+        <div class="form-group">
+          <label>Scale</label>
+          <input type="number" name="scale" value="${options.scale ?? ""}" step="any" min="0" placeholder="1">
+        </div>
+        <div class="form-group">
+          <label>Source grid size (px)</label>
+          <input type="number" name="sourceGridSize" value="${options.sourceGridSize ?? ""}" step="1" min="0" placeholder="Same as scene">
+        </div>
+        <div class="form-group">
+          <label>Rotation</label>
+          <select name="rotation">
+            ${[0, 90, 180, 270].map(angle => `<option value="${angle}" ${angle === rotation ? "selected" : ""}>${angle}°</option>`).join("")}
+          </select>
+        </div>
+        <div class="form-group">
+          <label>Mirror horizontally</label>
+          <input type="checkbox" name="flipX" ${checked(options.flipX)}>
+          <label>Mirror vertically</label>
+          <input type="checkbox" name="flipY" ${checked(options.flipY)}>
+        </div>
+      </details>
+    `;
+  }
+
+  /**
+   * Read the import options entered in the dialog
+   */
+  private static readImportOptions(html: JQuery): WallImportOptions {
+    const section = html.find('.import-transform');
+    const number = (name: string) => {
+      const value = parseFloat(section.find(`[name="${name}"]`).val() as string);
+      return Number.isFinite(value) ? value : undefined;
+    };
+    const flag = (name: string) => section.find(`[name="${name}"]`).is(':checked');
+
+    const transform: WallTransformOptions = {
+      applyPadding: flag("applyPadding"),
+      offsetX: number("offsetX"),
+      offsetY: number("offsetY"),
+      scale: number("scale"),
+      sourceGridSize: number("sourceGridSize"),
+      rotation: number("rotation"),
+      flipX: flag("flipX"),
+      flipY: flag("flipY")
+    };
+    const tolerance = parseFloat(html.find('.import-mode [name="tolerance"]').val() as string);
+    const curveTolerance = parseFloat(html.find('.import-mode [name="curveTolerance"]').val() as string);
+    const options: WallImportOptions = {
+      mode: html.find('.import-mode [name="mode"]').val() as WallImportMode,
+      tolerance: Number.isFinite(tolerance) ? tolerance : undefined,
+      curveTolerance: curveTolerance > 0 ? curveTolerance : undefined,
+      documentTypes: WallManagementDialog.readDocumentTypes(html),
+      mapping: html.find('.import-mode [name="mapping"]').val() as string || undefined,
+      transform
+    };
+    WallManagementDialog.importOptions = options;
+
+    return options;
+  }
+
+  /**
+   * Build the summary and Accept / Cancel buttons for a pending import preview
+   */
+  private static buildPreviewContent(): string {
+    const counts = WallPreview.counts;
+    if (!counts) return "";
+
+    const rows = (Object.keys(counts) as WallCategory[])
+      .filter(category => counts[category] > 0)
+      .map(category => {
+        const color = `#${WALL_CATEGORY_COLORS[category].toString(16).padStart(6, "0")}`;
+        return `<li><span class="swatch" style="background: ${color}"></span>${WALL_CATEGORY_LABELS[category]}: ${counts[category]}</li>`;
+      })
+      .join("");
+
+    return `
+      <div class="import-preview">
+        <h2>Import Preview</h2>
+        <p>${WallPreview.wallCount} walls are shown on the canvas and have not been created yet.</p>
+        <ul class="preview-summary">${rows}</ul>
+        ${WallPreview.removedCount > 0 ? `
+          <p><span class="swatch" style="background: #ff3030"></span>${WallPreview.removedCount} existing walls, highlighted in red, will be deleted.</p>
+        ` : ""}
+        <div class="form-group">
+          <button class="accept-import"><i class="fas fa-check"></i> Accept</button>
+          <button class="cancel-import"><i class="fas fa-times"></i> Cancel</button>
+        </div>
+      </div>
+      <hr>
+    `;
+  }
+
+  /**
+   * Read the import options that apply to stamps. Stamps are placed with the mouse and always add to
+   * the existing walls, so the import mode and transform are left out.
+   */
+  private static readStampOptions(html: JQuery): WallStampOptions {
+    const { mode: _mode, transform: _transform, ...options } = WallManagementDialog.readImportOptions(html);
+    return { ...options, mode: "append" };
+  }
+
   /**
    * @override
    */
   override activateListeners(html: JQuery) {
     super.activateListeners(html);
 
+    html.find('.accept-import').click(() => {
+      WallPreview.accept();
+    });
+
+    html.find('.cancel-import').click(() => {
+      WallPreview.cancel();
+    });
+
+    html.find('.document-types, .import-mode, .import-transform').on('change', () => {
+      WallManagementDialog.readImportOptions(html);
+    });
+
+    html.find('.export-selection').on('change', () => {
+      WallManagementDialog.readSelection(html);
+    });
+
     html.find('.import-clipboard').click(() => {
-      WallUtils.importWallsFromClipboard();
+      WallUtils.importWallsFromClipboard(WallManagementDialog.readImportOptions(html));
     });
 
     html.find('.import-file').click(() => {
-      WallUtils.importWallsFromFile();
+      WallUtils.importWallsFromFile(WallManagementDialog.readImportOptions(html));
+    });
+
+    html.find('.stamp-clipboard').click(() => {
+      WallUtils.stampWallsFromClipboard(WallManagementDialog.readStampOptions(html));
+    });
+
+    html.find('.stamp-file').click(() => {
+      WallUtils.stampWallsFromFile(WallManagementDialog.readStampOptions(html));
+    });
+
+    html.find('.import-bundle').click(() => {
+      WallUtils.importSceneBundle({
+        ...WallManagementDialog.readImportOptions(html),
+        includeLights: html.find('[name="bundleLights"]').is(':checked')
+      });
+    });
+
+    html.find('.import-chunks').click(() => {
+      WallUtils.importChunkWalls(WallManagementDialog.readImportOptions(html));
+    });
+
+    html.find('.undo-import').click(() => {
+      WallUtils.undoLastImport();
+    });
+
+    html.find('.edit-mapping').click(() => {
+      WallUtils.openMappingPresets(WallManagementDialog.readImportOptions(html).mapping as string | undefined);
+    });
+
+    html.find('.edit-walls').click(() => {
+      WallUtils.openWallEditor();
+    });
+
+    html.find('.wall-snapshots').click(() => {
+      WallUtils.openWallSnapshots();
     });
 
     html.find('.export-clipboard').click(() => {
-      WallUtils.exportWallsToClipboard();
+      WallUtils.exportWallsToClipboard(WallManagementDialog.readExportOptions(html));
     });
 
     html.find('.export-file').click(() => {
-      WallUtils.exportWallsToFile();
+      WallUtils.exportWallsToFile(WallManagementDialog.readExportOptions(html));
+    });
+
+    html.find('.export-uvtt').click(() => {
+      WallUtils.exportWallsToUniversalVtt();
+    });
+
+    html.find('.scene-batch').click(() => {
+      WallUtils.openSceneBatch();
+    });
+
+    html.find('.export-bundle').click(() => {
+      WallUtils.exportSceneBundle();
     });
+
+    html.find('.export-svg').click(() => {
+      WallUtils.exportWallsToSvg({ includeBackground: html.find('[name="svgBackground"]').is(':checked') });
+    });
+  }
+
+  /**
+   * Cancel any pending preview when the dialog is closed
+   * @override
+   */
+  override close(options?: Application.CloseOptions): Promise<void> {
+    const closing = super.close(options);
+    if (WallPreview.isActive) WallPreview.cancel();
+    return closing;
   }
 }
@@ -0,0 +1,233 @@
+import { moduleId } from './constants';
+import { WallUtils } from './module';
+import { WallCategory, WallMappingPreset, WallMappingRule } from './types';
+import { escapeHtml } from './utils/html';
+import { WALL_CATEGORY_LABELS } from './utils/wall-types';
+import { WallEditDialog } from './wall-edit-dialog';
+import { WallMappingPresets } from './wall-mapping-presets';
+
+/**
+ * Window for creating and editing the mapping presets applied to imported walls
+ */
+export class WallMappingDialog extends Dialog {
+  /**
+   * The preset being edited, kept across re-renders
+   */
+  private static editing: WallMappingPreset = { name: "", rules: [] };
+
+  constructor() {
+    super(
+      {
+        title: "Wall Mapping Presets",
+        content: WallMappingDialog.buildContent(),
+        buttons: {
+          close: {
+            icon: '<i class="fas fa-times"></i>',
+            label: "Close"
+          }
+        },
+        default: "close"
+      },
+      {
+        id: `${moduleId}-wall-mapping-dialog`,
+        classes: ["auto-wall-dialog"],
+        width: 460,
+        height: 640,
+        resizable: true
+      }
+    );
+  }
+
+  /**
+   * Find the currently rendered dialog, if any
+   */
+  static get instance(): WallMappingDialog | undefined {
+    return Object.values(ui.windows).find(
+      (app): app is WallMappingDialog => app instanceof WallMappingDialog && app.rendered
+    );
+  }
+
+  /**
+   * Open the dialog, or bring it up to date if it is already open
+   * @param name Preset to edit
+   */
+  static open(name?: string): void {
+    const preset = name ? WallMappingPresets.find(name) : undefined;
+    if (preset) this.editing = foundry.utils.deepClone(preset);
+
+    if (this.instance) {
+      this.refresh();
+    } else {
+      new WallMappingDialog().render(true);
+    }
+  }
+
+  /**
+   * Re-render the open dialog so it lists the current presets
+   */
+  static refresh(): void {
+    const dialog = this.instance;
+    if (!dialog) return;
+    dialog.data.content = WallMappingDialog.buildContent();
+    dialog.render(true);
+  }
+
+  /**
+   * Build the dialog HTML
+   */
+  private static buildContent(): string {
+    const editing = WallMappingDialog.editing;
+    const saved = WallMappingPresets.find(editing.name);
+
+    return `
+      <div class="mapping-preset">
+        <div class="form-group">
+          <label>Preset</label>
+          <select name="preset">
+            <option value="">New preset</option>
+            ${WallMappingPresets.presets.map(preset => {
+              const name = escapeHtml(preset.name);
+              return `<option value="${name}" ${preset.name === saved?.name ? "selected" : ""}>${name}</option>`;
+            }).join("")}
+          </select>
+        </div>
+        <div class="form-group">
+          <label>Name</label>
+          <input type="text" name="name" value="${escapeHtml(editing.name)}" placeholder="e.g. Auto-Wall">
+        </div>
+      </div>
+      <div class="mapping-rules">
+        ${editing.rules.length > 0
+          ? editing.rules.map((rule, index) => WallMappingDialog.buildRuleContent(rule, index)).join("")
+          : `<p class="hint">No rules yet. Add a rule to change walls that match a category or flag.</p>`}
+      </div>
+      <div class="form-group">
+        <button type="button" class="add-rule"><i class="fas fa-plus"></i> Add Rule</button>
+        <button type="button" class="save-preset"><i class="fas fa-save"></i> Save Preset</button>
+        ${saved ? `<button type="button" class="delete-preset"><i class="fas fa-trash"></i> Delete</button>` : ""}
+      </div>
+      <p class="hint">Rules match the walls as they are in the imported file and are applied in order, so later
+        rules win. Choose a preset under "Mapping rules" in the Wall Management dialog to use it for an import.</p>
+    `;
+  }
+
+  /**
+   * Build the inputs of one rule
+   */
+  private static buildRuleContent(rule: WallMappingRule, index: number): string {
+    const match = rule.match ?? {};
+    const category = match.categories?.[0] ?? "";
+    const [flagPath, flagValue] = Object.entries(match.flags ?? {})[0] ?? ["", undefined];
+
+    return `
+      <fieldset class="mapping-rule" data-index="${index}">
+        <legend>
+          Rule ${index + 1}
+          <a class="remove-rule" title="Remove rule"><i class="fas fa-trash"></i></a>
+        </legend>
+        <div class="mapping-match">
+          <div class="form-group">
+            <label>When the wall is</label>
+            <select name="category">
+              <option value="">Any wall</option>
+              ${(Object.entries(WALL_CATEGORY_LABELS) as [WallCategory, string][]).map(([value, label]) =>
+                `<option value="${value}" ${value === category ? "selected" : ""}>${label}</option>`).join("")}
+            </select>
+          </div>
+          <div class="form-group">
+            <label>And has flag</label>
+            <input type="text" name="flagPath" value="${escapeHtml(flagPath)}" placeholder="e.g. auto-wall.kind">
+            <input type="text" name="flagValue" value="${flagValue === undefined ? "" : escapeHtml(JSON.stringify(flagValue))}" placeholder="Value">
+          </div>
+        </div>
+        <details class="mapping-set" ${index === WallMappingDialog.editing.rules.length - 1 ? "open" : ""}>
+          <summary>Set</summary>
+          ${WallEditDialog.buildChangesContent(rule.set ?? {})}
+        </details>
+      </fieldset>
+    `;
+  }
+
+  /**
+   * Read the preset entered in the dialog
+   */
+  private static readPreset(html: JQuery): WallMappingPreset {
+    const rules = html.find('.mapping-rule').toArray().map((element): WallMappingRule => {
+      const rule = $(element);
+      const match = rule.find('.mapping-match');
+      const category = match.find('[name="category"]').val() as WallCategory | "";
+      const flagPath = (match.find('[name="flagPath"]').val() as string).trim();
+      const flagValue = (match.find('[name="flagValue"]').val() as string).trim();
+
+      // Flag values are JSON where possible, so numbers and booleans match their flags
+      let value: unknown = flagValue;
+      try {
+        value = JSON.parse(flagValue);
+      } catch {
+        // Plain text
+      }
+
+      return {
+        match: {
+          categories: category ? [category] : undefined,
+          flags: flagPath ? { [flagPath]: value } : undefined
+        },
+        set: WallEditDialog.readChanges(rule.find('.mapping-set'))
+      };
+    });
+
+    const preset = {
+      name: (html.find('.mapping-preset [name="name"]').val() as string).trim(),
+      rules
+    };
+    WallMappingDialog.editing = preset;
+
+    return preset;
+  }
+
+  /**
+   * @override
+   */
+  override activateListeners(html: JQuery) {
+    super.activateListeners(html);
+
+    html.find('.mapping-preset [name="preset"]').on('change', (event) => {
+      const name = $(event.currentTarget).val() as string;
+      WallMappingDialog.editing = name
+        ? foundry.utils.deepClone(WallMappingPresets.find(name) ?? { name, rules: [] })
+        : { name: "", rules: [] };
+      WallMappingDialog.refresh();
+    });
+
+    html.find('.add-rule').on('click', () => {
+      const preset = WallMappingDialog.readPreset(html);
+      preset.rules.push({ match: {}, set: {} });
+      WallMappingDialog.refresh();
+    });
+
+    html.find('.remove-rule').on('click', (event) => {
+      const index = Number($(event.currentTarget).closest('.mapping-rule').data('index'));
+      const preset = WallMappingDialog.readPreset(html);
+      preset.rules.splice(index, 1);
+      WallMappingDialog.refresh();
+    });
+
+    html.find('.save-preset').on('click', () => {
+      const preset = WallMappingDialog.readPreset(html);
+      WallUtils.saveMappingPreset(preset.name, preset.rules);
+    });
+
+    html.find('.delete-preset').on('click', async () => {
+      const name = WallMappingDialog.editing.name;
+      const confirmed = await Dialog.confirm({
+        title: "Delete Mapping Preset",
+        content: `<p>Delete the mapping preset "${escapeHtml(name)}"?</p>`
+      });
+      if (!confirmed) return;
+      if (await WallUtils.deleteMappingPreset(name)) {
+        WallMappingDialog.editing = { name: "", rules: [] };
+        WallMappingDialog.refresh();
+      }
+    });
+  }
+}
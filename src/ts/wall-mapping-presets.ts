@@ -0,0 +1,85 @@
+import { moduleId } from './constants';
+import { WallMappingPreset, WallMappingRule } from './types';
+
+/**
+ * Name of the world setting holding the presets
+ */
+const PRESETS_SETTING = "mappingPresets";
+
+/**
+ * Named sets of import mapping rules, stored in a module setting so every import can use them
+ */
+export class WallMappingPresets {
+  /**
+   * Register the setting the presets are stored in
+   * @param onChange Called when the presets change, on every client
+   */
+  static registerSetting(onChange: () => void): void {
+    (game as Game).settings.register(moduleId, PRESETS_SETTING, {
+      name: "Wall Mapping Presets",
+      scope: "world",
+      config: false,
+      type: Array as any,
+      default: [] as any,
+      onChange
+    });
+  }
+
+  /**
+   * Every saved preset, sorted by name
+   */
+  static get presets(): WallMappingPreset[] {
+    const presets = (game as Game).settings.get(moduleId, PRESETS_SETTING) as unknown as WallMappingPreset[] | undefined;
+    return [...(presets ?? [])].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Find a preset by name, ignoring case
+   */
+  static find(name: string): WallMappingPreset | undefined {
+    return this.presets.find(preset => preset.name.toLowerCase() === name.toLowerCase());
+  }
+
+  /**
+   * Resolve the mapping option of an import into rules
+   * @throws If a preset name is given that doesn't exist
+   */
+  static resolve(mapping: string | WallMappingRule[] | undefined): WallMappingRule[] {
+    if (!mapping) return [];
+    if (Array.isArray(mapping)) return mapping;
+
+    const preset = this.find(mapping);
+    if (!preset) {
+      throw new Error(`No mapping preset named "${mapping}".`);
+    }
+    return preset.rules;
+  }
+
+  /**
+   * Save a preset, replacing any preset with the same name
+   * @throws If the user may not change world settings
+   */
+  static async save(preset: WallMappingPreset): Promise<void> {
+    const others = this.presets.filter(existing => existing.name.toLowerCase() !== preset.name.toLowerCase());
+    await this.store([...others, preset]);
+  }
+
+  /**
+   * Delete a preset
+   * @throws If the user may not change world settings
+   */
+  static async remove(name: string): Promise<void> {
+    await this.store(this.presets.filter(preset => preset.name.toLowerCase() !== name.toLowerCase()));
+  }
+
+  /**
+   * Store the presets
+   * @throws If the user may not change world settings
+   */
+  private static async store(presets: WallMappingPreset[]): Promise<void> {
+    if (!(game as Game).user?.isGM) {
+      throw new Error("Only a GM can change mapping presets.");
+    }
+    await (game as Game).settings.set(moduleId, PRESETS_SETTING, presets as any);
+  }
+}
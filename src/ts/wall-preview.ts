@@ -0,0 +1,163 @@
+import { ModuleLogger } from './utils/logger';
+import { WallCategory, WallData } from './types';
+import { countWallCategories, getWallCategory, WALL_CATEGORY_COLORS } from './utils/wall-types';
+import { WallManagementDialog } from './wall-management-dialog';
+
+/**
+ * A pending import waiting for the user to accept or cancel it
+ */
+interface PendingPreview {
+  walls: WallData[];
+  /** Existing walls the import would delete */
+  removed: WallData[];
+  counts: Record<WallCategory, number>;
+  resolve: (accepted: boolean) => void;
+}
+
+/**
+ * Color of existing walls an import would delete (PIXI hex value)
+ */
+const REMOVED_COLOR = 0xff3030;
+
+/**
+ * Draws incoming walls as a temporary overlay on the canvas until the import is accepted or cancelled
+ */
+export class WallPreview {
+  private static graphics: PIXI.Graphics | null = null;
+  private static pending: PendingPreview | null = null;
+
+  /**
+   * Whether a preview is currently waiting for confirmation
+   */
+  static get isActive(): boolean {
+    return this.pending !== null;
+  }
+
+  /**
+   * Number of walls in the pending preview
+   */
+  static get wallCount(): number {
+    return this.pending?.walls.length ?? 0;
+  }
+
+  /**
+   * Number of existing walls the pending preview would delete
+   */
+  static get removedCount(): number {
+    return this.pending?.removed.length ?? 0;
+  }
+
+  /**
+   * Per-category wall counts of the pending preview
+   */
+  static get counts(): Record<WallCategory, number> | null {
+    return this.pending?.counts ?? null;
+  }
+
+  /**
+   * Draw the walls on the canvas and wait for the user to accept or cancel
+   * @param walls The wall data that would be created
+   * @param removed Existing walls that would be deleted, such as walls unified by a merge
+   * @returns True if the user accepted the import, false otherwise
+   */
+  static show(walls: WallData[], removed: WallData[] = []): Promise<boolean> {
+    // Only one preview can be pending at a time
+    if (this.pending) this.finish(false);
+
+    this.draw(walls, removed);
+
+    return new Promise((resolve) => {
+      this.pending = { walls, removed, counts: countWallCategories(walls), resolve };
+      WallManagementDialog.open();
+    });
+  }
+
+  /**
+   * Accept the pending preview
+   */
+  static accept(): void {
+    this.finish(true);
+  }
+
+  /**
+   * Cancel the pending preview
+   */
+  static cancel(): void {
+    this.finish(false);
+  }
+
+  /**
+   * Resolve the pending preview and remove the overlay
+   */
+  private static finish(accepted: boolean): void {
+    const pending = this.pending;
+    this.pending = null;
+    this.clear();
+    pending?.resolve(accepted);
+    WallManagementDialog.refresh();
+  }
+
+  /**
+   * Draw the preview overlay, color-coded by wall category
+   */
+  private static draw(walls: WallData[], removed: WallData[]): void {
+    this.clear();
+
+    const board = canvas as any;
+    const layer = board?.controls ?? board?.stage;
+    if (!layer) {
+      ModuleLogger.warn("Canvas is not ready, skipping wall preview overlay");
+      return;
+    }
+
+    // Walls to be deleted go underneath, wide and faint, so the walls replacing them stay visible
+    const graphics = new PIXI.Graphics();
+    const lineWidth = Math.max(2, Math.round((board.dimensions?.size ?? 100) / 25));
+    for (const wall of removed) {
+      graphics.lineStyle(lineWidth * 3, REMOVED_COLOR, 0.45);
+      graphics.moveTo(wall.c[0], wall.c[1]);
+      graphics.lineTo(wall.c[2], wall.c[3]);
+    }
+    this.drawWalls(graphics, walls);
+
+    layer.addChild(graphics);
+    this.graphics = graphics;
+  }
+
+  /**
+   * Draw walls into a graphics object, color-coded by wall category with their endpoints marked
+   * @param alpha Opacity of the lines
+   */
+  static drawWalls(graphics: PIXI.Graphics, walls: WallData[], alpha: number = 0.9): void {
+    const gridSize = (canvas as any)?.dimensions?.size ?? 100;
+    const lineWidth = Math.max(2, Math.round(gridSize / 25));
+
+    for (const wall of walls) {
+      const [x0, y0, x1, y1] = wall.c;
+      const category = getWallCategory(wall);
+      const color = WALL_CATEGORY_COLORS[category];
+      const isDoor = category === "door" || category === "secret";
+
+      graphics.lineStyle(isDoor ? lineWidth * 2 : lineWidth, color, alpha);
+      graphics.moveTo(x0, y0);
+      graphics.lineTo(x1, y1);
+
+      // Mark endpoints so gaps between segments are visible
+      graphics.lineStyle(0);
+      graphics.beginFill(color, alpha);
+      graphics.drawCircle(x0, y0, lineWidth);
+      graphics.drawCircle(x1, y1, lineWidth);
+      graphics.endFill();
+    }
+  }
+
+  /**
+   * Remove the preview overlay from the canvas
+   */
+  private static clear(): void {
+    if (!this.graphics) return;
+    this.graphics.parent?.removeChild(this.graphics);
+    this.graphics.destroy();
+    this.graphics = null;
+  }
+}
@@ -0,0 +1,199 @@
+import { moduleId } from './constants';
+import { WallUtils } from './module';
+import { escapeHtml } from './utils/html';
+import { WallSnapshot, WallSnapshots } from './wall-snapshots';
+
+/**
+ * Window listing the current scene's wall snapshots, for taking, restoring and managing them
+ */
+export class WallSnapshotDialog extends Dialog {
+  constructor() {
+    super(
+      {
+        title: "Wall Snapshots",
+        content: WallSnapshotDialog.buildContent(),
+        buttons: {
+          close: {
+            icon: '<i class="fas fa-times"></i>',
+            label: "Close"
+          }
+        },
+        default: "close"
+      },
+      {
+        id: `${moduleId}-wall-snapshot-dialog`,
+        classes: ["auto-wall-dialog"],
+        width: 440,
+        resizable: true
+      }
+    );
+  }
+
+  /**
+   * Find the currently rendered dialog, if any
+   */
+  static get instance(): WallSnapshotDialog | undefined {
+    return Object.values(ui.windows).find(
+      (app): app is WallSnapshotDialog => app instanceof WallSnapshotDialog && app.rendered
+    );
+  }
+
+  /**
+   * Open the dialog, or bring it up to date if it is already open
+   */
+  static open(): void {
+    if (this.instance) {
+      this.refresh();
+    } else {
+      new WallSnapshotDialog().render(true);
+    }
+  }
+
+  /**
+   * Re-render the open dialog so it lists the current snapshots
+   */
+  static refresh(): void {
+    const dialog = this.instance;
+    if (!dialog) return;
+    dialog.data.content = WallSnapshotDialog.buildContent();
+    dialog.render(true);
+  }
+
+  /**
+   * Build the dialog HTML
+   */
+  private static buildContent(): string {
+    const scene = (game as Game).scenes?.current;
+    if (!scene) {
+      return `<p class="hint">There is no active scene.</p>`;
+    }
+
+    const snapshots = WallSnapshots.list(scene);
+    const automatic = WallSnapshots.automatic
+      ? "Snapshots are also taken automatically before imports, cleanups, bulk edits and applied wall diffs."
+      : "Turn on \"Snapshot Walls Before Changes\" in the module settings to take snapshots automatically before risky changes.";
+
+    return `
+      <div class="snapshot-save">
+        <div class="form-group">
+          <label>Name</label>
+          <input type="text" name="name" placeholder="e.g. Before cleanup">
+          <button type="button" class="take-snapshot"><i class="fas fa-camera"></i> Take Snapshot</button>
+        </div>
+        <p class="hint">Snapshots of ${escapeHtml(scene.name ?? "this scene")} are stored in the scene. ${automatic}</p>
+      </div>
+      <hr>
+      ${snapshots.length > 0
+        ? `<ul class="library-entries snapshot-entries">${snapshots.map(snapshot => WallSnapshotDialog.buildEntryContent(snapshot)).join("")}</ul>`
+        : `<p class="hint">This scene has no wall snapshots yet.</p>`}
+    `;
+  }
+
+  /**
+   * Build the list item for a snapshot
+   */
+  private static buildEntryContent(snapshot: WallSnapshot): string {
+    const date = new Date(snapshot.created).toLocaleString();
+
+    return `
+      <li class="library-entry snapshot-entry" data-id="${snapshot.id}">
+        <div class="details">
+          <strong>${escapeHtml(snapshot.name)}</strong>
+          <span class="hint">${snapshot.wallCount} walls, ${date}${snapshot.auto ? ", automatic" : ""}</span>
+        </div>
+        <div class="controls">
+          <button type="button" class="restore-snapshot" title="Restore"><i class="fas fa-undo"></i></button>
+          <button type="button" class="download-snapshot" title="Download"><i class="fas fa-file-export"></i></button>
+          <button type="button" class="rename-snapshot" title="Rename"><i class="fas fa-edit"></i></button>
+          <button type="button" class="delete-snapshot" title="Delete"><i class="fas fa-trash"></i></button>
+        </div>
+      </li>
+    `;
+  }
+
+  /**
+   * @override
+   */
+  override activateListeners(html: JQuery) {
+    super.activateListeners(html);
+
+    const findSnapshot = (event: JQuery.TriggeredEvent) => {
+      const scene = (game as Game).scenes?.current;
+      const id = $(event.currentTarget).closest('.snapshot-entry').data('id') as string;
+      return scene ? WallSnapshots.find(scene, id) : undefined;
+    };
+
+    html.find('.take-snapshot').on('click', () => {
+      WallUtils.snapshotWalls(html.find('.snapshot-save [name="name"]').val() as string);
+    });
+
+    html.find('.restore-snapshot').on('click', async (event) => {
+      const snapshot = findSnapshot(event);
+      if (!snapshot) return;
+      const confirmed = await Dialog.confirm({
+        title: "Restore Wall Snapshot",
+        content: `<p>Replace every wall on this scene with the ${snapshot.wallCount} walls of "${escapeHtml(snapshot.name)}"?
+          The current walls are kept in a new snapshot first.</p>`
+      });
+      if (!confirmed) return;
+      WallUtils.restoreWallSnapshot(snapshot.id);
+    });
+
+    html.find('.download-snapshot').on('click', (event) => {
+      const snapshot = findSnapshot(event);
+      if (!snapshot) return;
+      saveDataToFile(snapshot.data, "application/json", `${snapshot.name.replace(/[\s"]+/g, "_")}_walls.json`);
+    });
+
+    html.find('.rename-snapshot').on('click', async (event) => {
+      const snapshot = findSnapshot(event);
+      const scene = (game as Game).scenes?.current;
+      if (!snapshot || !scene) return;
+      const name = await WallSnapshotDialog.promptName(snapshot.name);
+      if (!name) return;
+      try {
+        await WallSnapshots.rename(scene, snapshot.id, name);
+      } catch (error) {
+        ui.notifications?.error("Error renaming wall snapshot: " + (error instanceof Error ? error.message : String(error)));
+      }
+    });
+
+    html.find('.delete-snapshot').on('click', async (event) => {
+      const snapshot = findSnapshot(event);
+      if (!snapshot) return;
+      const confirmed = await Dialog.confirm({
+        title: "Delete Wall Snapshot",
+        content: `<p>Delete the wall snapshot "${escapeHtml(snapshot.name)}"?</p>`
+      });
+      if (!confirmed) return;
+      WallUtils.deleteWallSnapshot(snapshot.id);
+    });
+  }
+
+  /**
+   * Ask for a new name for a snapshot
+   * @returns The name, or null if cancelled or left empty
+   */
+  private static promptName(current: string): Promise<string | null> {
+    return new Promise((resolve) => {
+      new Dialog({
+        title: "Rename Wall Snapshot",
+        content: `<div class="form-group"><label>Name</label><input type="text" name="name" value="${escapeHtml(current)}"></div>`,
+        buttons: {
+          rename: {
+            icon: '<i class="fas fa-check"></i>',
+            label: "Rename",
+            callback: (html) => resolve(($(html as HTMLElement).find('[name="name"]').val() as string).trim() || null)
+          },
+          cancel: {
+            icon: '<i class="fas fa-times"></i>',
+            label: "Cancel",
+            callback: () => resolve(null)
+          }
+        },
+        default: "rename",
+        close: () => resolve(null)
+      }).render(true);
+    });
+  }
+}
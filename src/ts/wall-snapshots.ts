@@ -0,0 +1,120 @@
+import { moduleId } from './constants';
+
+/**
+ * A saved copy of a scene's walls, stored in the scene's module flags
+ */
+export interface WallSnapshot {
+  id: string;
+  name: string;
+  /** When the snapshot was taken (ms since epoch) */
+  created: number;
+  wallCount: number;
+  /** Whether the snapshot was taken automatically before a change, rather than by a user */
+  auto?: boolean;
+  /** The walls as a JSON array, in the format WallUtils.getWallsJson exports */
+  data: string;
+}
+
+/**
+ * Name of the scene flag holding the snapshots
+ */
+const SNAPSHOTS_FLAG = "wallSnapshots";
+
+/**
+ * Default number of snapshots kept per scene
+ */
+export const DEFAULT_SNAPSHOT_LIMIT = 20;
+
+/**
+ * Named, timestamped copies of each scene's walls, so a wall layout can be restored after risky changes
+ */
+export class WallSnapshots {
+  /**
+   * Register the settings controlling snapshots
+   */
+  static registerSettings(): void {
+    (game as Game).settings.register(moduleId, "snapshotLimit", {
+      name: "Wall Snapshots per Scene",
+      hint: "Number of wall snapshots kept for each scene. When there are more, the oldest automatic snapshots are removed first.",
+      scope: "world",
+      config: true,
+      type: Number,
+      range: { min: 1, max: 100, step: 1 } as any,
+      default: DEFAULT_SNAPSHOT_LIMIT
+    });
+
+    (game as Game).settings.register(moduleId, "snapshotBeforeChanges", {
+      name: "Snapshot Walls Before Changes",
+      hint: "Take a wall snapshot automatically before imports, cleanups, bulk edits and applied wall diffs",
+      scope: "world",
+      config: true,
+      type: Boolean,
+      default: false
+    });
+  }
+
+  /**
+   * Whether snapshots are taken automatically before changes
+   */
+  static get automatic(): boolean {
+    return (game as Game).settings.get(moduleId, "snapshotBeforeChanges") as boolean;
+  }
+
+  /**
+   * Every snapshot of a scene, newest first
+   */
+  static list(scene: Scene): WallSnapshot[] {
+    const snapshots = scene.getFlag(moduleId as any, SNAPSHOTS_FLAG as any) as WallSnapshot[] | undefined;
+    return [...(snapshots ?? [])].sort((a, b) => b.created - a.created);
+  }
+
+  /**
+   * Find a snapshot by ID, or by name if no ID matches. Names may repeat, in which case the newest wins.
+   */
+  static find(scene: Scene, idOrName: string): WallSnapshot | undefined {
+    const snapshots = this.list(scene);
+    return snapshots.find(snapshot => snapshot.id === idOrName)
+      ?? snapshots.find(snapshot => snapshot.name.toLowerCase() === idOrName.toLowerCase());
+  }
+
+  /**
+   * Add a snapshot to a scene, removing the oldest ones beyond the limit
+   * @returns The snapshots removed to make room
+   */
+  static async add(scene: Scene, snapshot: WallSnapshot): Promise<WallSnapshot[]> {
+    const limit = (game as Game).settings.get(moduleId, "snapshotLimit") as number || DEFAULT_SNAPSHOT_LIMIT;
+    const snapshots = [snapshot, ...this.list(scene)];
+
+    // Automatic snapshots go first, oldest first, then those taken by hand
+    const removed: WallSnapshot[] = [];
+    while (snapshots.length > limit) {
+      const oldestAuto = snapshots.map(entry => entry.auto).lastIndexOf(true);
+      const index = oldestAuto > 0 ? oldestAuto : snapshots.length - 1;
+      removed.push(...snapshots.splice(index, 1));
+    }
+
+    await this.store(scene, snapshots);
+    return removed;
+  }
+
+  /**
+   * Change a snapshot's name
+   */
+  static async rename(scene: Scene, id: string, name: string): Promise<void> {
+    await this.store(scene, this.list(scene).map(snapshot => snapshot.id === id ? { ...snapshot, name } : snapshot));
+  }
+
+  /**
+   * Delete a snapshot
+   */
+  static async remove(scene: Scene, id: string): Promise<void> {
+    await this.store(scene, this.list(scene).filter(snapshot => snapshot.id !== id));
+  }
+
+  /**
+   * Store a scene's snapshots
+   */
+  private static async store(scene: Scene, snapshots: WallSnapshot[]): Promise<void> {
+    await scene.setFlag(moduleId as any, SNAPSHOTS_FLAG as any, snapshots as any);
+  }
+}
@@ -0,0 +1,217 @@
+import { ModuleLogger } from './utils/logger';
+import { Rect } from './utils/geometry';
+import { placedSize, placeWallSet, WallSet, WallSetPlacement } from './utils/wall-sets';
+import { WallPreview } from './wall-preview';
+
+/**
+ * A stamp waiting to be placed
+ */
+interface PendingStamp {
+  set: WallSet;
+  bounds: Rect;
+  placement: WallSetPlacement;
+  snap: boolean;
+  resolve: (placement: WallSetPlacement | null) => void;
+}
+
+/**
+ * Lets the user place a wall set with the mouse: a ghost of the walls follows the cursor, the scroll
+ * wheel rotates it and a click places it
+ */
+export class WallStamp {
+  private static graphics: PIXI.Graphics | null = null;
+  private static pending: PendingStamp | null = null;
+
+  /**
+   * Last cursor position in scene coordinates
+   */
+  private static cursor: { x: number, y: number } | null = null;
+
+  /**
+   * Whether a stamp is currently following the cursor
+   */
+  static get isActive(): boolean {
+    return this.pending !== null;
+  }
+
+  /**
+   * Show the set under the cursor and wait for the user to place it
+   * @param bounds The set's bounds before placement
+   * @param placement The starting scale, rotation and mirroring; x and y are replaced by the cursor position
+   * @param snap Whether the set's corner snaps to the grid (hold Shift to place it freely)
+   * @returns The placement in scene coordinates, or null if cancelled
+   */
+  static place(set: WallSet, bounds: Rect, placement: WallSetPlacement, snap: boolean = true): Promise<WallSetPlacement | null> {
+    // Only one stamp can follow the cursor at a time
+    if (this.pending) this.finish(null);
+
+    const board = canvas as any;
+    const layer = board?.controls ?? board?.stage;
+    if (!layer || !board.app?.view) {
+      ModuleLogger.warn("Canvas is not ready, cannot place walls");
+      return Promise.resolve(null);
+    }
+
+    const graphics = new PIXI.Graphics();
+    layer.addChild(graphics);
+    this.graphics = graphics;
+
+    return new Promise((resolve) => {
+      this.pending = { set, bounds, placement: { ...placement }, snap, resolve };
+      this.cursor = null;
+      this.redraw();
+
+      // Listen in the capture phase so the canvas doesn't zoom, draw walls or open menus meanwhile
+      window.addEventListener('pointermove', this.onPointerMove, true);
+      window.addEventListener('pointerdown', this.onPointerDown, true);
+      window.addEventListener('contextmenu', this.onContextMenu, true);
+      window.addEventListener('wheel', this.onWheel, { capture: true, passive: false });
+      window.addEventListener('keydown', this.onKeyDown, true);
+
+      ui.notifications?.info("Click to place the walls. Scroll to rotate, hold Shift to place them off the grid, and right-click or press Escape to cancel.");
+    });
+  }
+
+  /**
+   * Stop placing the pending stamp
+   */
+  static cancel(): void {
+    this.finish(null);
+  }
+
+  /**
+   * Resolve the pending stamp and remove the ghost
+   */
+  private static finish(placement: WallSetPlacement | null): void {
+    const pending = this.pending;
+    this.pending = null;
+    this.cursor = null;
+
+    window.removeEventListener('pointermove', this.onPointerMove, true);
+    window.removeEventListener('pointerdown', this.onPointerDown, true);
+    window.removeEventListener('contextmenu', this.onContextMenu, true);
+    window.removeEventListener('wheel', this.onWheel, true);
+    window.removeEventListener('keydown', this.onKeyDown, true);
+
+    if (this.graphics) {
+      this.graphics.parent?.removeChild(this.graphics);
+      this.graphics.destroy();
+      this.graphics = null;
+    }
+    pending?.resolve(placement);
+  }
+
+  /**
+   * Whether an event happened over the game canvas rather than the UI on top of it
+   */
+  private static isOverCanvas(event: Event): boolean {
+    return event.target === (canvas as any)?.app?.view;
+  }
+
+  /**
+   * Convert a pointer position to scene coordinates
+   */
+  private static toScene(event: MouseEvent): { x: number, y: number } {
+    const board = canvas as any;
+    const renderer = board.app.renderer;
+    const point = new PIXI.Point();
+    const mapper = renderer.events ?? renderer.plugins?.interaction;
+    if (mapper?.mapPositionToPoint) {
+      mapper.mapPositionToPoint(point, event.clientX, event.clientY);
+    } else {
+      const rect = board.app.view.getBoundingClientRect();
+      point.set(event.clientX - rect.left, event.clientY - rect.top);
+    }
+    const local = board.stage.toLocal(point);
+    return { x: local.x, y: local.y };
+  }
+
+  /**
+   * Redraw the ghost for the current rotation and mirroring, and move it under the cursor
+   */
+  private static redraw(): void {
+    const pending = this.pending;
+    const graphics = this.graphics;
+    if (!pending || !graphics) return;
+
+    // Draw the set with its top-left corner at the origin, so moving it is just a change of position
+    const placed = placeWallSet(pending.set, pending.bounds, { ...pending.placement, x: 0, y: 0 });
+    const size = placedSize(pending.bounds, pending.placement);
+    graphics.clear();
+    graphics.lineStyle(1, 0xffffff, 0.5);
+    graphics.drawRect(0, 0, size.width, size.height);
+    WallPreview.drawWalls(graphics, placed.walls, 0.6);
+
+    this.move();
+  }
+
+  /**
+   * Center the ghost on the cursor, snapping its corner to the grid
+   * @param free Place it exactly under the cursor, ignoring the grid
+   */
+  private static move(free: boolean = false): void {
+    const pending = this.pending;
+    const graphics = this.graphics;
+    if (!pending || !graphics) return;
+
+    const board = canvas as any;
+    const cursor = this.cursor ?? board.stage?.pivot ?? { x: 0, y: 0 };
+    const size = placedSize(pending.bounds, pending.placement);
+    let x = cursor.x - size.width / 2;
+    let y = cursor.y - size.height / 2;
+
+    const gridSize = board.dimensions?.size;
+    if (pending.snap && !free && gridSize > 0) {
+      x = Math.round(x / gridSize) * gridSize;
+      y = Math.round(y / gridSize) * gridSize;
+    }
+
+    pending.placement.x = Math.round(x);
+    pending.placement.y = Math.round(y);
+    graphics.position.set(pending.placement.x, pending.placement.y);
+  }
+
+  private static onPointerMove = (event: PointerEvent): void => {
+    if (!WallStamp.pending || !WallStamp.isOverCanvas(event)) return;
+    WallStamp.cursor = WallStamp.toScene(event);
+    WallStamp.move(event.shiftKey);
+  };
+
+  private static onPointerDown = (event: PointerEvent): void => {
+    const pending = WallStamp.pending;
+    if (!pending || !WallStamp.isOverCanvas(event)) return;
+    event.preventDefault();
+    event.stopPropagation();
+
+    if (event.button === 0) {
+      WallStamp.cursor = WallStamp.toScene(event);
+      WallStamp.move(event.shiftKey);
+      WallStamp.finish({ ...pending.placement });
+    } else if (event.button === 2) {
+      WallStamp.finish(null);
+    }
+  };
+
+  private static onContextMenu = (event: MouseEvent): void => {
+    if (!WallStamp.pending || !WallStamp.isOverCanvas(event)) return;
+    event.preventDefault();
+    event.stopPropagation();
+  };
+
+  private static onWheel = (event: WheelEvent): void => {
+    const pending = WallStamp.pending;
+    if (!pending || !WallStamp.isOverCanvas(event) || event.deltaY === 0) return;
+    event.preventDefault();
+    event.stopPropagation();
+
+    pending.placement.rotation = (pending.placement.rotation + (event.deltaY > 0 ? 90 : 270)) % 360;
+    WallStamp.redraw();
+  };
+
+  private static onKeyDown = (event: KeyboardEvent): void => {
+    if (!WallStamp.pending || event.key !== "Escape") return;
+    event.preventDefault();
+    event.stopPropagation();
+    WallStamp.finish(null);
+  };
+}
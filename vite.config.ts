@@ -59,6 +59,8 @@ if (!process.env.CI) {
 }
 
 export default defineConfig({
+  // Resolve emitted assets such as the wall detection worker relative to module.js
+  base: "./",
   build: {
     sourcemap: true,
     outDir: "dist",